@@ -0,0 +1,144 @@
+import { BaseActionWorker, ActionRunResult } from '../base-worker';
+import { ActionRequestedV1 } from '@/core/events';
+import { db } from '@/infrastructure/database/connection';
+import { budgetService } from '@/services/budget';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {}
+}));
+
+jest.mock('@/infrastructure/database/connection', () => ({
+  db: { query: jest.fn() }
+}));
+
+jest.mock('@/services/budget', () => ({
+  budgetService: {
+    getAuthorByMentionId: jest.fn(),
+    recordUsage: jest.fn()
+  }
+}));
+
+const mockQuery = db.query as jest.Mock;
+
+class TestWorker extends BaseActionWorker {
+  protected readonly actionId = 'test';
+  protected readonly label = 'Test';
+  protected readonly artifactType = 'test_result';
+
+  run = jest.fn<Promise<ActionRunResult>, any[]>();
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+describe('BaseActionWorker', () => {
+  const request: ActionRequestedV1 = {
+    mentionId: 'mention1',
+    postId: 'pubky://alice/pub/pubky.app/posts/p1',
+    parentUri: 'pubky://alice/pub/pubky.app/posts/p1',
+    intent: 'test',
+    params: {}
+  };
+
+  let eventBus: any;
+  let threadService: any;
+  let replyService: any;
+  let metrics: any;
+  let worker: TestWorker;
+  let handler: (event: any) => Promise<void>;
+  let onDeadLetter: (event: any, error: unknown) => Promise<void>;
+
+  beforeEach(async () => {
+    mockQuery.mockReset();
+    mockQuery.mockImplementation(async (sql: string) =>
+      sql.includes('INSERT INTO action_executions') ? [{ id: 'exec1' }] : []
+    );
+    (budgetService.getAuthorByMentionId as jest.Mock).mockResolvedValue('alice');
+    (budgetService.recordUsage as jest.Mock).mockReset();
+
+    eventBus = {
+      subscribe: jest.fn(async (_stream, _group, _consumer, fn, options) => {
+        handler = fn;
+        onDeadLetter = options.onDeadLetter;
+      }),
+      emit: jest.fn()
+    };
+    threadService = { buildThreadContext: jest.fn().mockResolvedValue({ posts: [] }) };
+    replyService = {
+      compose: jest.fn().mockReturnValue('composed reply'),
+      publish: jest.fn().mockResolvedValue({ id: 'r1', uri: 'pubky://bot/r1', parentUri: request.parentUri, content: 'composed reply' })
+    };
+    metrics = {
+      startActionTimer: jest.fn().mockReturnValue(jest.fn()),
+      incrementActions: jest.fn(),
+      incrementReplies: jest.fn()
+    };
+    const idempotency: any = {
+      guard: jest.fn(async (_key, operation) => ({ executed: true, result: await operation() }))
+    };
+
+    worker = new TestWorker(eventBus, idempotency, threadService, replyService, {} as any, metrics);
+    await worker.start();
+  });
+
+  it('should run the action and publish, record and emit its result', async () => {
+    worker.run.mockResolvedValue({
+      reply: { summary: 'Done' },
+      artifacts: { answer: 42 },
+      usage: [{ phase: 'test', totalTokens: 100 }],
+      metrics: { tokensUsed: 100 }
+    });
+
+    await handler({ id: 'e1', data: request });
+
+    expect(eventBus.subscribe.mock.calls[0].slice(0, 2)).toEqual(['action.test.requested.v1', 'test-workers']);
+    expect(threadService.buildThreadContext).toHaveBeenCalledWith(request.postId, { mentionId: 'mention1' });
+    expect(replyService.publish).toHaveBeenCalledWith(request.parentUri, 'composed reply', 'mention1', { delayed: undefined });
+    expect(budgetService.recordUsage).toHaveBeenCalledWith({
+      phase: 'test', totalTokens: 100, mentionId: 'mention1', publicKey: 'alice'
+    });
+
+    const artifactInsert = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO artifacts'));
+    expect(artifactInsert[1]).toEqual(['exec1', 'test_result', JSON.stringify({ answer: 42 })]);
+
+    expect(eventBus.emit).toHaveBeenCalledWith('action.test.completed.v1', expect.objectContaining({
+      actionId: 'test',
+      executionId: 'exec1',
+      reply: { text: 'composed reply', parentUri: request.parentUri, replyUri: 'pubky://bot/r1' }
+    }), { correlationId: 'mention1' });
+    expect(metrics.incrementActions).toHaveBeenCalledWith('test', 'completed');
+  });
+
+  it('should mark deleted posts and emit a failed event once dead-lettered', async () => {
+    const error = Object.assign(new Error('Post deleted'), { code: 'POST_DELETED' });
+    threadService.buildThreadContext.mockRejectedValue(error);
+
+    await expect(handler({ id: 'e1', data: request })).rejects.toThrow('Post deleted');
+
+    expect(worker.run).not.toHaveBeenCalled();
+    expect(mockQuery.mock.calls.some(([sql]) => sql.includes("error_type = 'post_deleted'"))).toBe(true);
+    expect(eventBus.emit).not.toHaveBeenCalled();
+    expect(metrics.incrementActions).not.toHaveBeenCalledWith('test', 'failed');
+
+    await onDeadLetter({ id: 'e1', data: request }, error);
+
+    expect(eventBus.emit).toHaveBeenCalledWith('action.test.failed.v1', expect.objectContaining({
+      actionId: 'test',
+      error: { code: 'POST_DELETED', message: 'Post deleted' }
+    }), { correlationId: 'mention1' });
+    expect(metrics.incrementActions).toHaveBeenCalledWith('test', 'failed');
+  });
+
+  it('should not report retryable failures before the event bus gives up', async () => {
+    worker.run.mockRejectedValue(new Error('Provider timed out'));
+
+    await expect(handler({ id: 'e1', data: request })).rejects.toThrow('Provider timed out');
+    await expect(handler({ id: 'e1', data: request })).rejects.toThrow('Provider timed out');
+
+    expect(eventBus.emit).not.toHaveBeenCalled();
+    expect(metrics.incrementActions).not.toHaveBeenCalledWith('test', 'failed');
+    expect(metrics.incrementActions).toHaveBeenCalledWith('test', 'started');
+  });
+});
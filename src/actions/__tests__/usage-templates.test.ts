@@ -0,0 +1,44 @@
+import { UsageTemplates } from '../usage/templates';
+
+describe('UsageTemplates', () => {
+  it('should report requests in the window and the remaining token budget', () => {
+    const reply = UsageTemplates.formatReply(
+      { publicKey: 'alice', tier: 'default', requestCount: 2, used: 4, limit: 10, windowMinutes: 60 },
+      { allowed: true, usedTokens: 12500, dailyLimit: 200000, remainingTokens: 187500 }
+    );
+
+    expect(reply).toBe([
+      'Your usage:',
+      'Requests: 4/10 in the last hour',
+      'AI tokens today: 12,500/200,000 (187,500 left, resets at 00:00 UTC)'
+    ].join('\n'));
+  });
+
+  it('should name the tier and say when the next request is allowed once the limit is reached', () => {
+    const reply = UsageTemplates.formatReply(
+      {
+        publicKey: 'alice',
+        tier: 'restricted',
+        requestCount: 5,
+        used: 5,
+        limit: 5,
+        windowMinutes: 15,
+        retryAfterSeconds: 330
+      },
+      null
+    );
+
+    expect(reply).toContain('Your usage (restricted tier):');
+    expect(reply).toContain('Requests: 5/5 in the last 15 minutes (limit reached, next request in 6 minutes)');
+    expect(reply).toContain('AI tokens today: no daily limit');
+  });
+
+  it('should say "1 hour" when the wait rounds to a full hour', () => {
+    const reply = UsageTemplates.formatReply(
+      { publicKey: 'alice', tier: 'default', requestCount: 10, used: 10, limit: 10, windowMinutes: 60, retryAfterSeconds: 3570 },
+      null
+    );
+
+    expect(reply).toContain('Requests: 10/10 in the last hour (limit reached, next request in 1 hour)');
+  });
+});
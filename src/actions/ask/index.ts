@@ -0,0 +1,36 @@
+import { ActionDefinition } from '@/actions/registry';
+
+export const askAction: ActionDefinition = {
+  id: 'ask',
+  classifier: {
+    description: "Answers a specific question about what was said in the thread",
+    rules: `User asks a specific question answerable from the thread's posts
+  Examples: "what did Alice argue?", "who proposed the new date?",
+  "why does Bob disagree?", "what was decided about the release?"
+  IMPORTANT: A specific question about the thread's content is ASK, not SUMMARY.`,
+    heuristic: {
+      // Questions about what someone in the thread said or meant ("what did Alice argue?").
+      // "you" is excluded so opinion requests ("what do you think?") still go to the LLM.
+      patterns: [
+        /\b(what|why|how|when|where|which)\b[^?]{0,40}?\b(did|does|do|was|is)\s+(?!you\b)@?[\w.-]+\s+(say|said|argue|argued|mean|meant|claim|claimed|think|suggest|suggested|propose|proposed|mention|mentioned|disagree|agree|ask|asked|reply|respond)\b/,
+        /\bwho\s+(said|mentioned|argued|claimed|proposed|suggested|asked|disagreed|agreed|replied|brought up)\b/,
+        /\b(in|from|according to)\s+(this|the)\s+(thread|discussion|conversation)\b[^?]*\?/
+      ],
+      baseConfidence: 0.6,
+      priority: 30
+    }
+  },
+  createWorker: async (services) => {
+    const [{ AskService }, { AskWorker }] = await Promise.all([import('@/services/ask'), import('./worker')]);
+
+    return new AskWorker(
+      services.eventBus,
+      services.idempotency,
+      new AskService(services.aiService),
+      services.threadService,
+      services.replyService,
+      services.safetyService,
+      services.metrics
+    );
+  }
+};
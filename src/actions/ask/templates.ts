@@ -0,0 +1,37 @@
+import { AskResult } from '@/services/ask';
+import { ReplyContent } from '@/services/reply';
+
+export class AskTemplates {
+  static formatReply(result: AskResult): ReplyContent {
+    if (!result.answered) {
+      return {
+        summary: result.metrics.truncated
+          ? "I couldn't find the answer in the part of this thread I was able to read."
+          : "I couldn't find the answer to that in this thread."
+      };
+    }
+
+    return {
+      answer: {
+        text: result.answer,
+        citations: result.citations.map(({ index, postUri }) => ({ index, postUri }))
+      }
+    };
+  }
+
+  static formatArtifacts(result: AskResult): Record<string, any> {
+    return {
+      question: result.question,
+      answer: result.answer,
+      answered: result.answered,
+      citations: result.citations,
+      metrics: result.metrics
+    };
+  }
+
+  static formatErrorFallback(): ReplyContent {
+    return {
+      summary: "I'm unable to answer questions about this thread right now due to a technical issue. Please try again later."
+    };
+  }
+}
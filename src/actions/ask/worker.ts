@@ -0,0 +1,90 @@
+import { EventBus } from '@/core/event-bus';
+import { ActionRequestedV1 } from '@/core/events';
+import { IdempotencyService } from '@/core/idempotency';
+import { AskService } from '@/services/ask';
+import { ThreadService } from '@/services/thread';
+import { ReplyService } from '@/services/reply';
+import { SafetyService } from '@/services/safety';
+import { MetricsService } from '@/services/metrics';
+import { ThreadContext } from '@/types/thread';
+import { BaseActionWorker, ActionRunResult } from '../base-worker';
+import { AskTemplates } from './templates';
+import logger from '@/utils/logger';
+
+export class AskWorker extends BaseActionWorker {
+  protected readonly actionId = 'ask';
+  protected readonly label = 'Ask';
+  protected readonly artifactType = 'answer';
+
+  constructor(
+    eventBus: EventBus,
+    idempotency: IdempotencyService,
+    private askService: AskService,
+    threadService: ThreadService,
+    replyService: ReplyService,
+    safetyService: SafetyService,
+    metrics: MetricsService
+  ) {
+    super(eventBus, idempotency, threadService, replyService, safetyService, metrics);
+  }
+
+  // Answers may come from anywhere in the thread, including later replies
+  protected async run(data: ActionRequestedV1, threadContext: ThreadContext, runId: string): Promise<ActionRunResult> {
+    const question = threadContext.mentionPost.content;
+
+    logger.debug('Answering thread question', {
+      mentionId: data.mentionId,
+      postCount: threadContext.posts.length,
+      runId
+    });
+
+    const askResult = await this.askService.answer(question, threadContext);
+    const aiTokens = askResult.metrics.aiTokensUsed;
+
+    return {
+      reply: AskTemplates.formatReply(askResult),
+      artifacts: AskTemplates.formatArtifacts(askResult),
+      usage: typeof aiTokens === 'number' ? [{
+        phase: 'ask',
+        provider: askResult.aiMeta?.provider,
+        model: askResult.aiMeta?.model,
+        inputTokens: askResult.aiMeta?.usage?.inputTokens ?? null,
+        outputTokens: askResult.aiMeta?.usage?.outputTokens ?? null,
+        totalTokens: aiTokens,
+        meta: { source: 'askService', answered: askResult.answered }
+      }] : [],
+      metrics: { tokensUsed: aiTokens }
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const testPost = {
+        id: 'test',
+        uri: 'test',
+        content: 'Alice: we should ship on Friday.',
+        authorId: 'system',
+        createdAt: new Date().toISOString()
+      };
+      const question = { ...testPost, id: 'question', uri: 'question', content: 'What did Alice suggest?' };
+
+      await this.askService.answer(question.content, {
+        rootPost: testPost,
+        mentionPost: question,
+        posts: [testPost, question],
+        tree: { post: testPost, depth: 0, branchId: 'main', children: [] },
+        branches: [{ id: 'main', startUri: testPost.uri, postUris: [testPost.uri, question.uri] }],
+        participants: ['system'],
+        participantProfiles: [],
+        depth: 1,
+        totalTokens: 20,
+        isComplete: true
+      });
+      return true;
+
+    } catch (error) {
+      logger.error('Ask worker health check failed:', error);
+      return false;
+    }
+  }
+}
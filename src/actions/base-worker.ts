@@ -0,0 +1,371 @@
+import { EventBus } from '@/core/event-bus';
+import { ActionId, ActionRequestedV1, ActionCompletedV1, ActionFailedV1 } from '@/core/events';
+import { IdempotencyService } from '@/core/idempotency';
+import { isRetryableError } from '@/core/retry';
+import { ThreadService } from '@/services/thread';
+import { ReplyService, ReplyContent } from '@/services/reply';
+import { SafetyService } from '@/services/safety';
+import { MetricsService } from '@/services/metrics';
+import { budgetService, UsageRecord } from '@/services/budget';
+import { ThreadContext } from '@/types/thread';
+import { db } from '@/infrastructure/database/connection';
+import { generateRunId, generateConsumerName } from '@/utils/ids';
+import logger from '@/utils/logger';
+
+export type ThreadContextOptions = NonNullable<Parameters<ThreadService['buildThreadContext']>[1]>;
+
+// Token usage for one AI call; mentionId and publicKey are filled in by the pipeline
+export type ActionUsage = Omit<UsageRecord, 'mentionId' | 'publicKey'>;
+
+export interface ActionRunResult {
+  reply: ReplyContent | string;            // composed by ReplyService unless already text
+  artifacts: Record<string, any>;
+  usage?: ActionUsage[];
+  metrics?: Record<string, any>;           // stored on the execution; durationMs is added if missing
+}
+
+/**
+ * BaseActionWorker runs the pipeline shared by every action:
+ * idempotency guard → execution record → thread context → run() → record usage →
+ * publish (safety check handled by ReplyService) → store artifacts → emit completed, or
+ * failed once the event bus dead-letters the request.
+ *
+ * Subclasses only implement run() and healthCheck().
+ */
+export abstract class BaseActionWorker {
+  protected abstract readonly actionId: ActionId;
+  protected abstract readonly label: string;          // capitalised name for log messages
+  protected abstract readonly artifactType: string;   // artifacts.type of the stored payload
+  protected readonly contextOptions: ThreadContextOptions = {};
+
+  constructor(
+    protected eventBus: EventBus,
+    protected idempotency: IdempotencyService,
+    protected threadService: ThreadService,
+    protected replyService: ReplyService,
+    protected safetyService: SafetyService,
+    protected metrics: MetricsService
+  ) {}
+
+  protected abstract run(
+    data: ActionRequestedV1,
+    threadContext: ThreadContext,
+    runId: string
+  ): Promise<ActionRunResult>;
+
+  abstract healthCheck(): Promise<boolean>;
+
+  /**
+   * Runs after the execution is completed and its artifacts stored, before the
+   * completed event (e.g. to index the results). Must not throw.
+   */
+  protected async onCompleted(
+    _executionId: string,
+    _data: ActionRequestedV1,
+    _artifacts: Record<string, any>
+  ): Promise<void> {}
+
+  protected get errorCode(): string {
+    return `${this.actionId.toUpperCase()}_ERROR`;
+  }
+
+  async start(): Promise<void> {
+    await this.eventBus.subscribe(
+      `action.${this.actionId}.requested.v1`,
+      `${this.actionId}-workers`,
+      generateConsumerName(`${this.actionId}-worker`),
+      this.handleRequest.bind(this),
+      { onDeadLetter: this.handleDeadLetter.bind(this) }
+    );
+
+    logger.info(`${this.label} worker started and listening for requests`);
+  }
+
+  private async handleRequest(event: any): Promise<void> {
+    const data = event.data as ActionRequestedV1;
+    const runId = generateRunId();
+
+    logger.debug(`Processing ${this.actionId} request`, {
+      mentionId: data.mentionId,
+      postId: data.postId,
+      runId,
+      eventId: event.id
+    });
+
+    const idempotencyKey = `action:${this.actionId}:${data.mentionId}`;
+
+    try {
+      const result = await this.idempotency.guard(
+        idempotencyKey,
+        async () => {
+          return this.execute(data, runId);
+        }
+      );
+
+      if (!result.executed) {
+        logger.debug(`${this.label} action already processed`, {
+          mentionId: data.mentionId,
+          runId
+        });
+        return;
+      }
+
+      logger.debug(`${this.label} action completed`, {
+        mentionId: data.mentionId,
+        runId,
+        success: result.result?.success
+      });
+
+    } catch (error) {
+      // The event bus retries this delivery; failure is reported once it gives up
+      logger.error(`Failed to process ${this.actionId} request:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Called by the event bus when the request is dead-lettered (terminal error or
+   * retries exhausted), so each request reports at most one failure.
+   */
+  private async handleDeadLetter(event: any, error: unknown): Promise<void> {
+    const data = event.data as ActionRequestedV1;
+
+    await this.emitFailedEvent(data, generateRunId(), error);
+    this.metrics.incrementActions(this.actionId, 'failed');
+  }
+
+  private async execute(
+    data: ActionRequestedV1,
+    runId: string
+  ): Promise<{ success: boolean; executionId: string }> {
+    const startTime = Date.now();
+    const endActionTimer = this.metrics.startActionTimer(this.actionId);
+    this.metrics.incrementActions(this.actionId, 'started');
+
+    const executionId = await this.createActionExecution(data.mentionId);
+
+    try {
+      logger.debug(`Building thread context for ${this.actionId}`, {
+        mentionId: data.mentionId,
+        postId: data.postId,
+        runId
+      });
+
+      const threadContext = await this.threadService.buildThreadContext(data.postId, {
+        ...this.contextOptions,
+        mentionId: data.mentionId
+      });
+
+      const result = await this.run(data, threadContext, runId);
+
+      await this.recordUsage(data.mentionId, result.usage || []);
+
+      const replyText = typeof result.reply === 'string'
+        ? result.reply
+        : this.replyService.compose(result.reply);
+
+      let replyRef = null;
+      if (data.parentUri) {
+        replyRef = await this.replyService.publish(
+          data.parentUri,
+          replyText,
+          data.mentionId,
+          { delayed: data.delayed }
+        );
+
+        this.metrics.incrementReplies(this.actionId);
+        logger.info(`${this.label} reply published`, {
+          mentionId: data.mentionId,
+          replyId: replyRef.id,
+          contentLength: replyText.length
+        });
+      }
+
+      await this.storeArtifacts(executionId, result.artifacts);
+
+      await this.completeActionExecution(executionId, {
+        durationMs: Date.now() - startTime,
+        ...result.metrics
+      });
+
+      await this.onCompleted(executionId, data, result.artifacts);
+
+      await this.emitCompletedEvent(data, executionId, replyRef, result.artifacts);
+
+      endActionTimer();
+      this.metrics.incrementActions(this.actionId, 'completed');
+
+      return { success: true, executionId };
+
+    } catch (error: any) {
+      await this.markUnavailablePost(data, error);
+
+      await this.failActionExecution(executionId, error);
+      endActionTimer();
+      throw error;
+    }
+  }
+
+  /**
+   * Record token usage attributed to the mention's author. Never fails the action.
+   */
+  private async recordUsage(mentionId: string, usage: ActionUsage[]): Promise<void> {
+    if (usage.length === 0) {
+      return;
+    }
+
+    try {
+      const authorId = await budgetService.getAuthorByMentionId(mentionId);
+      if (!authorId) {
+        return;
+      }
+
+      for (const record of usage) {
+        await budgetService.recordUsage({ ...record, mentionId, publicKey: authorId });
+      }
+    } catch (e) {
+      logger.debug(`Non-fatal: failed to record ${this.actionId} token usage`, {
+        mentionId,
+        error: e instanceof Error ? e.message : String(e)
+      });
+    }
+  }
+
+  private async markUnavailablePost(data: ActionRequestedV1, error: any): Promise<void> {
+    // Check if the error is due to a confirmed deleted post (404)
+    if (error?.code === 'POST_DELETED') {
+      logger.info('Post confirmed deleted (404), marking mention accordingly', {
+        mentionId: data.mentionId,
+        postId: data.postId
+      });
+
+      try {
+        await db.query(
+          `UPDATE mentions
+           SET status = 'failed',
+               error_type = 'post_deleted',
+               last_error = $2
+           WHERE mention_id = $1`,
+          [data.mentionId, 'Post deleted (404)']
+        );
+      } catch (updateError) {
+        logger.error('Failed to update mention status for deleted post:', updateError);
+      }
+      return;
+    }
+
+    // Check if the error is due to a post not being available (other errors)
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!errorMessage.includes('Post not available')) {
+      return;
+    }
+
+    logger.warn('Post not available (temporary error, not 404)', {
+      mentionId: data.mentionId,
+      postId: data.postId
+    });
+
+    // Do NOT use 'post_deleted' error type as it's not a 404
+    try {
+      await db.query(
+        `UPDATE mentions
+         SET status = 'failed',
+             last_error = $2
+         WHERE mention_id = $1`,
+        [data.mentionId, 'Post not available - will retry later']
+      );
+    } catch (updateError) {
+      logger.error('Failed to update mention status:', updateError);
+    }
+  }
+
+  private async createActionExecution(mentionId: string): Promise<string> {
+    const rows = await db.query<{ id: string }>(
+      `INSERT INTO action_executions (mention_id, action_id, status)
+       VALUES ($1, $2, 'started')
+       RETURNING id`,
+      [mentionId, this.actionId]
+    );
+
+    return rows[0].id;
+  }
+
+  private async completeActionExecution(
+    executionId: string,
+    metrics: Record<string, any>
+  ): Promise<void> {
+    await db.query(
+      `UPDATE action_executions
+       SET status = 'completed', completed_at = now(), metrics_json = $2
+       WHERE id = $1`,
+      [executionId, JSON.stringify(metrics)]
+    );
+  }
+
+  private async failActionExecution(executionId: string, error: any): Promise<void> {
+    const errorData = {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: error.code || this.errorCode,
+      stack: error instanceof Error ? error.stack : undefined
+    };
+
+    await db.query(
+      `UPDATE action_executions
+       SET status = 'failed', completed_at = now(), error_json = $2
+       WHERE id = $1`,
+      [executionId, JSON.stringify(errorData)]
+    );
+  }
+
+  private async storeArtifacts(executionId: string, artifacts: any): Promise<void> {
+    await db.query(
+      `INSERT INTO artifacts (action_execution_id, type, payload_json)
+       VALUES ($1, $2, $3)`,
+      [executionId, this.artifactType, JSON.stringify(artifacts)]
+    );
+  }
+
+  private async emitCompletedEvent(
+    data: ActionRequestedV1,
+    executionId: string,
+    replyRef: any,
+    artifacts: any
+  ): Promise<void> {
+    const completedData: ActionCompletedV1 = {
+      mentionId: data.mentionId,
+      actionId: this.actionId,
+      executionId,
+      reply: replyRef ? {
+        text: replyRef.content,
+        parentUri: replyRef.parentUri,
+        replyUri: replyRef.uri
+      } : undefined,
+      artifacts
+    };
+
+    await this.eventBus.emit(`action.${this.actionId}.completed.v1`, completedData, {
+      correlationId: data.mentionId
+    });
+  }
+
+  private async emitFailedEvent(
+    data: ActionRequestedV1,
+    runId: string,
+    error: any
+  ): Promise<void> {
+    const failedData: ActionFailedV1 = {
+      mentionId: data.mentionId,
+      actionId: this.actionId,
+      executionId: runId,
+      error: {
+        code: error.code || this.errorCode,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      retryable: isRetryableError(error)
+    };
+
+    await this.eventBus.emit(`action.${this.actionId}.failed.v1`, failedData, {
+      correlationId: data.mentionId
+    });
+  }
+}
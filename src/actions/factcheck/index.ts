@@ -0,0 +1,75 @@
+import { ActionDefinition } from '@/actions/registry';
+import appConfig from '@/config';
+
+export const factcheckAction: ActionDefinition = {
+  id: 'factcheck',
+  aliases: ['verify'],
+  classifier: {
+    description: 'Verifies claims against reliable sources using web search',
+    rules: `User wants to verify claims, check facts, or find sources
+  Examples: "is this true", "is this tru", "is this real", "is this legit",
+  "verify this", "check this", "source", "real or fake", "true or false",
+  "debunk", "fact check", "misinformation", "authentic"
+  IMPORTANT: Questions about truthfulness, authenticity, or legitimacy are FACTCHECK, not SUMMARY.`,
+    heuristic: {
+      keywords: [
+        // Explicit fact-checking terms
+        'verify', 'fact check', 'factcheck', 'fact-check',
+
+        // Truth verification patterns
+        'is this true', 'is this tru', 'is this real', 'is this legit',
+        'true or false', 'real or fake', 'legit or fake',
+
+        // Source/citation requests
+        'source', 'citation', 'cite', 'cite this', 'sources',
+
+        // Verification actions
+        'verify this', 'check this', 'confirm this', 'validate this',
+
+        // Authenticity checks
+        'accurate', 'authentic', 'genuine', 'legitimate', 'legit',
+
+        // Debunking patterns
+        'debunk', 'hoax', 'fake news', 'misinformation', 'disinformation'
+      ],
+      baseConfidence: 0.5,
+      // Factcheck keywords ("source", "legit") often appear incidentally, so explicit
+      // image/translate/ask requests take precedence
+      priority: 20
+    }
+  },
+  usesMcp: true,
+  createWorker: async (services) => {
+    const [
+      { FactcheckWebSearchService },
+      { EvidenceCacheService },
+      { sourceCredibilityService },
+      { createSearchProvider },
+      { FactcheckWorker }
+    ] = await Promise.all([
+      import('@/services/factcheck-websearch'),
+      import('@/services/evidence-cache'),
+      import('@/services/source-credibility'),
+      import('@/services/search'),
+      import('./worker')
+    ]);
+
+    const searchProvider = createSearchProvider(appConfig.search.provider, services);
+    await sourceCredibilityService.start();
+
+    return new FactcheckWorker(
+      services.eventBus,
+      services.idempotency,
+      new FactcheckWebSearchService(
+        services.aiService,
+        searchProvider,
+        new EvidenceCacheService(services.metrics),
+        sourceCredibilityService
+      ),
+      services.threadService,
+      services.replyService,
+      services.safetyService,
+      services.metrics
+    );
+  }
+};
@@ -1,289 +1,139 @@
 import { EventBus } from '@/core/event-bus';
-import { ActionRequestedV1, ActionCompletedV1, ActionFailedV1 } from '@/core/events';
+import { ActionRequestedV1 } from '@/core/events';
 import { IdempotencyService } from '@/core/idempotency';
-import { FactcheckWebSearchService } from '@/services/factcheck-websearch';
+import { FactcheckWebSearchService, Claim, VerifiedClaim } from '@/services/factcheck-websearch';
+import { claimHistoryService, bestSource, PreviousVerdict } from '@/services/claim-history';
 import { ThreadService } from '@/services/thread';
 import { ReplyService, ReplyContent } from '@/services/reply';
 import { SafetyService } from '@/services/safety';
 import { MetricsService } from '@/services/metrics';
-import { db } from '@/infrastructure/database/connection';
-import { budgetService } from '@/services/budget';
-import { generateRunId } from '@/utils/ids';
+import { ThreadContext } from '@/types/thread';
+import { BaseActionWorker, ActionRunResult, ActionUsage } from '../base-worker';
 import logger from '@/utils/logger';
+import appConfig from '@/config';
+
+export class FactcheckWorker extends BaseActionWorker {
+  protected readonly actionId = 'factcheck';
+  protected readonly label = 'Factcheck';
+  protected readonly artifactType = 'factcheck';
+
+  // Claims come from the mention and the posts it replies to, not from later replies
+  protected override readonly contextOptions = { includeReplies: false };
 
-export class FactcheckWorker {
   constructor(
-    private eventBus: EventBus,
-    private idempotency: IdempotencyService,
+    eventBus: EventBus,
+    idempotency: IdempotencyService,
     private factcheckService: FactcheckWebSearchService,
-    private threadService: ThreadService,
-    private replyService: ReplyService,
-    private safetyService: SafetyService,
-    private metrics: MetricsService
-  ) {}
-
-  async start(): Promise<void> {
-    await this.eventBus.subscribe(
-      'action.factcheck.requested.v1',
-      'factcheck-workers',
-      'factcheck-worker-001',
-      this.handleFactcheckRequest.bind(this)
-    );
-
-    logger.info('Factcheck worker started and listening for requests');
+    threadService: ThreadService,
+    replyService: ReplyService,
+    safetyService: SafetyService,
+    metrics: MetricsService
+  ) {
+    super(eventBus, idempotency, threadService, replyService, safetyService, metrics);
   }
 
-  private async handleFactcheckRequest(event: any): Promise<void> {
-    const data = event.data as ActionRequestedV1;
-    const runId = generateRunId();
-
-    logger.debug('Processing factcheck request', {
+  protected async run(data: ActionRequestedV1, threadContext: ThreadContext): Promise<ActionRunResult> {
+    // Extract claims from thread
+    logger.debug('Extracting claims for verification', {
       mentionId: data.mentionId,
-      postId: data.postId,
-      runId,
-      eventId: event.id
+      postCount: threadContext.posts.length
     });
 
-    const idempotencyKey = `action:factcheck:${data.mentionId}`;
-
-    try {
-      const result = await this.idempotency.guard(
-        idempotencyKey,
-        async () => {
-          return this.executeFactcheck(data, runId);
-        }
-      );
-
-      if (!result.executed) {
-        logger.debug('Factcheck action already processed', {
-          mentionId: data.mentionId,
-          runId
-        });
-        return;
-      }
-
-      logger.debug('Factcheck action completed', {
-        mentionId: data.mentionId,
-        runId,
-        success: result.result?.success
+    const extraction = await this.factcheckService.extractClaimsWithUsage(threadContext);
+    const claims = extraction.claims;
+
+    const usage: ActionUsage[] = [];
+    const extractTokens = (extraction.usage as any)?.totalTokens || 0;
+    if (extractTokens > 0) {
+      usage.push({
+        phase: 'factcheck_extract',
+        provider: extraction.provider,
+        model: extraction.model,
+        totalTokens: extractTokens,
+        inputTokens: (extraction.usage as any)?.inputTokens ?? null,
+        outputTokens: (extraction.usage as any)?.outputTokens ?? null,
+        meta: { source: 'factcheckService.extractClaims' }
       });
-
-    } catch (error) {
-      logger.error('Failed to process factcheck request:', error);
-
-      await this.emitFailedEvent(data, runId, error);
-      this.metrics.incrementActions('factcheck', 'failed');
-      throw error;
     }
-  }
 
-  private async executeFactcheck(
-    data: ActionRequestedV1,
-    runId: string
-  ): Promise<{ success: boolean; executionId: string }> {
-    const startTime = Date.now();
-    const endActionTimer = this.metrics.startActionTimer('factcheck');
-    this.metrics.incrementActions('factcheck', 'started');
-
-    // Create action execution record
-    const executionId = await this.createActionExecution(data.mentionId, 'factcheck');
-
-    try {
-      // Build thread context
-      logger.debug('Building thread context for factcheck', {
-        mentionId: data.mentionId,
-        postId: data.postId,
-        runId
-      });
-
-      const threadContext = await this.threadService.buildThreadContext(data.postId, {
+    if (claims.length === 0) {
+      logger.debug('No verifiable claims found', {
         mentionId: data.mentionId
       });
 
-      // Extract claims from thread
-      logger.debug('Extracting claims for verification', {
-        mentionId: data.mentionId,
-        postCount: threadContext.posts.length
-      });
-
-      const extraction = await this.factcheckService.extractClaimsWithUsage(threadContext);
-      const claims = extraction.claims;
-
-      if (claims.length === 0) {
-        logger.debug('No verifiable claims found', {
-          mentionId: data.mentionId
-        });
-
-        // Still send a helpful response
-        const replyText = "I couldn't identify specific factual claims to verify in this content. If you have specific statements you'd like me to fact-check, please let me know!";
-
-        let replyRef = null;
-        if (data.parentUri) {
-          replyRef = await this.replyService.publish(
-            data.parentUri,
-            replyText,
-            data.mentionId
-          );
-        }
-
-        await this.completeActionExecution(executionId, {
-          durationMs: Date.now() - startTime,
-          claimsProcessed: 0
-        });
-
-        await this.emitCompletedEvent(data, executionId, replyRef, {
+      // Still send a helpful response
+      return {
+        reply: "I couldn't identify specific factual claims to verify in this content. If you have specific statements you'd like me to fact-check, please let me know!",
+        artifacts: {
           type: 'factcheck',
           claims: [],
           message: 'No claims found'
-        });
-
-        endActionTimer();
-        this.metrics.incrementActions('factcheck', 'completed');
-        return { success: true, executionId };
-      }
+        },
+        usage,
+        metrics: { claimsProcessed: 0 }
+      };
+    }
 
-      // Verify claims using search
-      logger.debug('Verifying claims', {
+    // Claims checked before are answered with their previous verdict
+    const previous = await this.findPreviousVerdicts(claims, data);
+    if (previous) {
+      logger.debug('Reusing previous verdicts', {
         mentionId: data.mentionId,
-        claimCount: claims.length
+        claimCount: previous.length
       });
 
-      const factcheckResult = await this.factcheckService.verify(claims);
-
-      // Record token usage (extraction + verification)
-      try {
-        const authorId = await budgetService.getAuthorByMentionId(data.mentionId);
-        if (authorId) {
-          const extractTokens = (extraction.usage as any)?.totalTokens || 0;
-          const verifyTokens = (factcheckResult.metrics as any)?.aiTokensUsedVerify || 0;
-
-          if (extractTokens > 0) {
-            await budgetService.recordUsage({
-              mentionId: data.mentionId,
-              publicKey: authorId,
-              phase: 'factcheck_extract',
-              provider: extraction.provider,
-              model: extraction.model,
-              totalTokens: extractTokens,
-              inputTokens: (extraction.usage as any)?.inputTokens ?? null,
-              outputTokens: (extraction.usage as any)?.outputTokens ?? null,
-              meta: { source: 'factcheckService.extractClaims' }
-            });
-          }
-
-          if (verifyTokens > 0) {
-            await budgetService.recordUsage({
-              mentionId: data.mentionId,
-              publicKey: authorId,
-              phase: 'factcheck_verify',
-              // provider/model come from OpenAI web search path; not surfaced explicitly here
-              provider: 'openai',
-              model: 'responses:gpt-4o-mini',
-              totalTokens: verifyTokens,
-              meta: { source: 'factcheckService.verifyWithWebSearch' }
-            });
-          }
-        }
-      } catch (e) {
-        logger.debug('Non-fatal: failed to record factcheck token usage', {
-          mentionId: data.mentionId,
-          error: e instanceof Error ? e.message : String(e)
-        });
-      }
+      return {
+        reply: this.formatPreviousVerdictsReply(previous),
+        artifacts: {
+          type: 'factcheck',
+          verifiedClaims: [],
+          reusedFrom: previous.map(verdict => verdict.id),
+          previousVerdicts: previous
+        },
+        usage,
+        metrics: { claimsProcessed: claims.length, claimsReused: previous.length }
+      };
+    }
 
-      // Format reply
-      const replyContent = this.formatFactcheckReply(factcheckResult);
-      const replyText = this.replyService.compose(replyContent);
-
-      // Publish reply (safety check handled by ReplyService)
-      let replyRef = null;
-      if (data.parentUri) {
-        replyRef = await this.replyService.publish(
-          data.parentUri,
-          replyText,
-          data.mentionId
-        );
-
-        this.metrics.incrementReplies('factcheck');
-        logger.info('Factcheck reply published', {
-          mentionId: data.mentionId,
-          replyId: replyRef.id,
-          verdict: factcheckResult.overallAssessment.verdict
-        });
-      }
+    // Verify claims using search
+    logger.debug('Verifying claims', {
+      mentionId: data.mentionId,
+      claimCount: claims.length,
+      sourceDomains: data.options?.sourceDomains
+    });
 
-      // Store artifacts
-      const artifacts = this.formatArtifacts(factcheckResult);
-      await this.storeArtifacts(executionId, artifacts);
+    // Users may restrict sources ("only from .gov") or ask for another language
+    const factcheckResult = await this.factcheckService.verify(claims, {
+      sourceDomains: data.options?.sourceDomains,
+      language: data.options?.language
+    });
+
+    const verifyTokens = factcheckResult.metrics.aiTokensUsedVerify || 0;
+    if (verifyTokens > 0) {
+      usage.push({
+        phase: 'factcheck_verify',
+        provider: factcheckResult.aiMeta?.provider,
+        model: factcheckResult.aiMeta?.model,
+        totalTokens: verifyTokens,
+        meta: { source: 'factcheckService.verify', searchProvider: factcheckResult.aiMeta?.searchProvider }
+      });
+    }
+
+    logger.debug('Claims verified', {
+      mentionId: data.mentionId,
+      verdict: factcheckResult.overallAssessment.verdict
+    });
 
-      // Complete action execution
-      await this.completeActionExecution(executionId, {
+    return {
+      reply: this.formatFactcheckReply(factcheckResult),
+      artifacts: this.formatArtifacts(factcheckResult, data.options?.sourceDomains),
+      usage,
+      metrics: {
         durationMs: factcheckResult.metrics.processingTimeMs,
         claimsProcessed: factcheckResult.metrics.claimsProcessed,
         sourcesFound: factcheckResult.metrics.sourcesFound
-      });
-
-      // Emit completion event
-      await this.emitCompletedEvent(data, executionId, replyRef, artifacts);
-
-      endActionTimer();
-      this.metrics.incrementActions('factcheck', 'completed');
-
-      return { success: true, executionId };
-
-    } catch (error: any) {
-      // Check if the error is due to a confirmed deleted post (404)
-      if (error?.code === 'POST_DELETED') {
-        logger.info('Post confirmed deleted (404), marking mention accordingly', {
-          mentionId: data.mentionId,
-          postId: data.postId
-        });
-
-        // Update mention status to indicate post was deleted
-        try {
-          await db.query(
-            `UPDATE mentions
-             SET status = 'failed',
-                 error_type = 'post_deleted',
-                 last_error = $2
-             WHERE mention_id = $1`,
-            [data.mentionId, 'Post deleted (404)']
-          );
-        } catch (updateError) {
-          logger.error('Failed to update mention status for deleted post:', updateError);
-        }
-      } else {
-        // Check if the error is due to a post not being available (other errors)
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const isPostUnavailable = errorMessage.includes('Post not available');
-
-        if (isPostUnavailable) {
-          logger.warn('Post not available (temporary error, not 404)', {
-            mentionId: data.mentionId,
-            postId: data.postId
-          });
-
-          // Update mention status to indicate post fetch failed
-          // Do NOT use 'post_deleted' error type as it's not a 404
-          try {
-            await db.query(
-              `UPDATE mentions
-               SET status = 'failed',
-                   last_error = $2
-               WHERE mention_id = $1`,
-              [data.mentionId, 'Post not available - will retry later']
-            );
-          } catch (updateError) {
-            logger.error('Failed to update mention status:', updateError);
-          }
-        }
       }
-
-      // Update execution with error
-      await this.failActionExecution(executionId, error);
-      endActionTimer();
-      throw error;
-    }
+    };
   }
 
   private formatFactcheckReply(result: any): ReplyContent {
@@ -337,124 +187,118 @@ export class FactcheckWorker {
 
     const replyContent: ReplyContent = {
       verdict: narrativeText,
-      sources: topSources
+      sources: topSources,
+      claims: (verifiedClaims as VerifiedClaim[]).map(claim => ({
+        claim: claim.claim,
+        label: claim.label || 'unverifiable',
+        confidence: this.toConfidenceLevel(claim.confidence),
+        summary: claim.reasoning,
+        source: bestSource(claim)
+      }))
     };
 
     return replyContent;
   }
 
-  private formatArtifacts(result: any): Record<string, any> {
-    return {
-      type: 'factcheck',
-      verifiedClaims: result.verifiedClaims,
-      sources: result.sources,
-      overallAssessment: result.overallAssessment,
-      metrics: result.metrics
-    };
+  private toConfidenceLevel(confidence: number): 'high' | 'medium' | 'low' {
+    if (confidence >= 0.75) return 'high';
+    if (confidence >= 0.5) return 'medium';
+    return 'low';
   }
 
-  private async createActionExecution(mentionId: string, actionId: string): Promise<string> {
-    const rows = await db.query<{ id: string }>(
-      `INSERT INTO action_executions (mention_id, action_id, status)
-       VALUES ($1, $2, 'started')
-       RETURNING id`,
-      [mentionId, actionId]
-    );
+  /**
+   * Previous verdicts for every claim, or null when any claim needs checking (new,
+   * stale with claimHistory.reverifyStale, or the user asked to check again)
+   */
+  private async findPreviousVerdicts(claims: Claim[], data: ActionRequestedV1): Promise<PreviousVerdict[] | null> {
+    const options = data.options || {};
 
-    return rows[0].id;
-  }
+    // Restricted sources or another reply language need their own check
+    if (!appConfig.claimHistory.enabled || options.recheck || options.sourceDomains?.length || options.language) {
+      return null;
+    }
 
-  private async completeActionExecution(
-    executionId: string,
-    metrics: { durationMs: number; claimsProcessed?: number; sourcesFound?: number }
-  ): Promise<void> {
-    await db.query(
-      `UPDATE action_executions
-       SET status = 'completed', completed_at = now(), metrics_json = $2
-       WHERE id = $1`,
-      [executionId, JSON.stringify(metrics)]
-    );
-  }
+    try {
+      const previous: PreviousVerdict[] = [];
 
-  private async failActionExecution(executionId: string, error: any): Promise<void> {
-    const errorData = {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      code: error.code || 'FACTCHECK_ERROR',
-      stack: error instanceof Error ? error.stack : undefined
-    };
+      for (const claim of claims) {
+        const verdict = await claimHistoryService.findPrevious(claim.text);
+        if (!verdict || (verdict.stale && appConfig.claimHistory.reverifyStale)) {
+          return null;
+        }
+        previous.push(verdict);
+      }
 
-    await db.query(
-      `UPDATE action_executions
-       SET status = 'failed', completed_at = now(), error_json = $2
-       WHERE id = $1`,
-      [executionId, JSON.stringify(errorData)]
-    );
+      return previous;
+    } catch (error) {
+      logger.warn('Claim history lookup failed, verifying claims', {
+        mentionId: data.mentionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
   }
 
-  private async storeArtifacts(executionId: string, artifacts: any): Promise<void> {
-    await db.query(
-      `INSERT INTO artifacts (action_execution_id, type, payload_json)
-       VALUES ($1, 'factcheck', $2)`,
-      [executionId, JSON.stringify(artifacts)]
-    );
-  }
+  private formatPreviousVerdictsReply(previous: PreviousVerdict[]): ReplyContent {
+    const first = previous[0];
 
-  private async emitCompletedEvent(
-    data: ActionRequestedV1,
-    executionId: string,
-    replyRef: any,
-    artifacts: any
-  ): Promise<void> {
-    const completedData: ActionCompletedV1 = {
-      mentionId: data.mentionId,
-      actionId: 'factcheck',
-      executionId,
-      reply: replyRef ? {
-        text: replyRef.content,
-        parentUri: replyRef.parentUri,
-        replyUri: replyRef.uri
-      } : undefined,
-      artifacts
+    return {
+      verdict: previous.length === 1 ? first.verdict : "I've checked these claims before.",
+      sources: previous.length === 1 && first.source ? [first.source] : [],
+      claims: previous.map(verdict => ({
+        claim: verdict.claim,
+        label: verdict.label,
+        confidence: this.toConfidenceLevel(verdict.confidence),
+        summary: verdict.verdict,
+        source: verdict.source,
+        checkedAt: verdict.checkedAt
+      }))
     };
+  }
 
-    await this.eventBus.emit('action.factcheck.completed.v1', completedData, {
-      correlationId: data.mentionId
-    });
+  private formatArtifacts(result: any, sourceDomains?: string[]): Record<string, any> {
+    return {
+      type: 'factcheck',
+      verifiedClaims: result.verifiedClaims,
+      sources: result.sources,
+      overallAssessment: result.overallAssessment,
+      metrics: result.metrics,
+      ...(sourceDomains?.length ? { sourceDomains } : {})
+    };
   }
 
-  private async emitFailedEvent(
+  /**
+   * Index verified claims for later reuse. Reused verdicts, domain-restricted
+   * checks and evidence cache hits stay out of the registry.
+   */
+  protected override async onCompleted(
+    executionId: string,
     data: ActionRequestedV1,
-    runId: string,
-    error: any
+    artifacts: Record<string, any>
   ): Promise<void> {
-    const failedData: ActionFailedV1 = {
-      mentionId: data.mentionId,
-      actionId: 'factcheck',
-      executionId: runId,
-      error: {
-        code: error.code || 'FACTCHECK_ERROR',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      },
-      retryable: true
-    };
+    if (!appConfig.claimHistory.enabled || artifacts.reusedFrom || artifacts.sourceDomains || !artifacts.verifiedClaims?.length) {
+      return;
+    }
 
-    await this.eventBus.emit('action.factcheck.failed.v1', failedData, {
-      correlationId: data.mentionId
-    });
+    await claimHistoryService.record(executionId, data.mentionId, artifacts.verifiedClaims);
   }
 
   async healthCheck(): Promise<boolean> {
     try {
       // Test claim extraction
+      const testPost = {
+        id: 'test',
+        uri: 'test',
+        content: 'The population of Tokyo is 14 million people.',
+        authorId: 'system',
+        createdAt: new Date().toISOString()
+      };
       const testContext = {
-        rootPost: {
-          id: 'test',
-          uri: 'test',
-          content: 'The population of Tokyo is 14 million people.',
-          authorId: 'system',
-          createdAt: new Date().toISOString()
-        },
-        posts: [],
+        rootPost: testPost,
+        mentionPost: testPost,
+        posts: [testPost],
+        tree: { post: testPost, depth: 0, branchId: 'main', children: [] },
+        branches: [{ id: 'main', startUri: testPost.uri, postUris: [testPost.uri] }],
         participants: ['system'],
         participantProfiles: [{
           publicKey: 'system',
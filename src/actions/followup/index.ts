@@ -0,0 +1,23 @@
+import { ActionDefinition } from '@/actions/registry';
+
+// Chosen by the router when a mention replies to one of the bot's replies, never by the classifier
+export const followupAction: ActionDefinition = {
+  id: 'followup',
+  buildRequest: (mention, request) => {
+    request.params.priorReplyUri = mention.inReplyTo;
+  },
+  createWorker: async (services) => {
+    const [{ FollowUpService }, { FollowUpWorker }] = await Promise.all([import('@/services/followup'), import('./worker')]);
+
+    return new FollowUpWorker(
+      services.eventBus,
+      services.idempotency,
+      new FollowUpService(services.aiService),
+      services.conversationService,
+      services.threadService,
+      services.replyService,
+      services.safetyService,
+      services.metrics
+    );
+  }
+};
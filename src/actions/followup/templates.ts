@@ -0,0 +1,34 @@
+import { FollowUpResult } from '@/services/followup';
+import { PriorExchange } from '@/services/conversation';
+import { ReplyContent } from '@/services/reply';
+
+export class FollowUpTemplates {
+  static formatReply(result: FollowUpResult): ReplyContent {
+    return {
+      summary: result.answer
+    };
+  }
+
+  /**
+   * Carries the session forward so the next follow-up sees the original
+   * action's reply and artifacts plus every turn so far
+   */
+  static formatArtifacts(result: FollowUpResult, prior: PriorExchange, replyText: string): Record<string, any> {
+    return {
+      question: result.question,
+      answer: replyText,
+      priorReplyUri: prior.reply.replyUri,
+      rootActionId: prior.actionId,
+      rootReply: prior.originalReply,
+      rootArtifacts: prior.artifacts,
+      turns: [...prior.turns, { question: result.question, answer: replyText }],
+      metrics: result.metrics
+    };
+  }
+
+  static formatErrorFallback(): ReplyContent {
+    return {
+      summary: "I'm unable to answer that right now due to a technical issue. Please try again later."
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { EventBus } from '@/core/event-bus';
+import { ActionRequestedV1 } from '@/core/events';
+import { IdempotencyService } from '@/core/idempotency';
+import { FollowUpService } from '@/services/followup';
+import { ConversationService } from '@/services/conversation';
+import { ThreadService } from '@/services/thread';
+import { ReplyService } from '@/services/reply';
+import { SafetyService } from '@/services/safety';
+import { MetricsService } from '@/services/metrics';
+import { ThreadContext } from '@/types/thread';
+import { BaseActionWorker, ActionRunResult } from '../base-worker';
+import { FollowUpTemplates } from './templates';
+import logger from '@/utils/logger';
+
+export class FollowUpWorker extends BaseActionWorker {
+  protected readonly actionId = 'followup';
+  protected readonly label = 'Follow-up';
+  protected readonly artifactType = 'followup';
+
+  // Only the mention itself is needed; the context comes from the prior exchange
+  protected override readonly contextOptions = { maxDepth: 1, includeReplies: false };
+
+  constructor(
+    eventBus: EventBus,
+    idempotency: IdempotencyService,
+    private followUpService: FollowUpService,
+    private conversationService: ConversationService,
+    threadService: ThreadService,
+    replyService: ReplyService,
+    safetyService: SafetyService,
+    metrics: MetricsService
+  ) {
+    super(eventBus, idempotency, threadService, replyService, safetyService, metrics);
+  }
+
+  protected async run(data: ActionRequestedV1, threadContext: ThreadContext, runId: string): Promise<ActionRunResult> {
+    const priorReplyUri = data.params.priorReplyUri as string | undefined;
+    const prior = priorReplyUri
+      ? await this.conversationService.loadPriorExchange(priorReplyUri)
+      : null;
+
+    if (!prior) {
+      const missingError = new Error(`No bot reply recorded for ${priorReplyUri || '(missing priorReplyUri)'}`);
+      (missingError as any).code = 'PRIOR_REPLY_NOT_FOUND';
+      (missingError as any).retryable = false;
+      throw missingError;
+    }
+
+    const question = threadContext.mentionPost.content;
+
+    logger.debug('Answering follow-up question', {
+      mentionId: data.mentionId,
+      priorMentionId: prior.reply.mentionId,
+      actionId: prior.actionId,
+      turns: prior.turns.length,
+      runId
+    });
+
+    const followUpResult = await this.followUpService.answer(question, prior);
+    const aiTokens = followUpResult.metrics.aiTokensUsed;
+
+    const replyContent = FollowUpTemplates.formatReply(followUpResult);
+    const replyText = this.replyService.compose(replyContent);
+
+    return {
+      reply: replyText,
+      // The next follow-up continues from these
+      artifacts: FollowUpTemplates.formatArtifacts(followUpResult, prior, replyText),
+      usage: typeof aiTokens === 'number' ? [{
+        phase: 'followup',
+        provider: followUpResult.aiMeta?.provider,
+        model: followUpResult.aiMeta?.model,
+        inputTokens: followUpResult.aiMeta?.usage?.inputTokens ?? null,
+        outputTokens: followUpResult.aiMeta?.usage?.outputTokens ?? null,
+        totalTokens: aiTokens,
+        meta: { source: 'followUpService', priorMentionId: prior.reply.mentionId }
+      }] : [],
+      metrics: { tokensUsed: aiTokens }
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.followUpService.answer('What was the main point?', {
+        reply: { mentionId: 'health-check', replyUri: 'test', content: 'The thread discusses testing.' },
+        actionId: 'summary',
+        originalReply: 'The thread discusses testing.',
+        artifacts: null,
+        turns: []
+      });
+      return true;
+
+    } catch (error) {
+      logger.error('Follow-up worker health check failed:', error);
+      return false;
+    }
+  }
+}
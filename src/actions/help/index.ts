@@ -0,0 +1,28 @@
+import { ActionDefinition, actionRegistry } from '@/actions/registry';
+import { parseCommand } from '@/utils/commands';
+
+// Chosen by the router for /help and unknown commands, never by the classifier
+export const helpAction: ActionDefinition = {
+  id: 'help',
+  description: 'Lists these commands',
+  command: true,
+  budgetExempt: true,
+  buildRequest: (mention, request) => {
+    const command = parseCommand(mention.content);
+    if (command && !actionRegistry.findCommand(command.name)) {
+      request.params.unknownCommand = command.name;
+    }
+  },
+  createWorker: async (services) => {
+    const { HelpWorker } = await import('./worker');
+
+    return new HelpWorker(
+      services.eventBus,
+      services.idempotency,
+      services.threadService,
+      services.replyService,
+      services.safetyService,
+      services.metrics
+    );
+  }
+};
@@ -0,0 +1,45 @@
+import { ActionDefinition } from '@/actions/registry';
+import { truncateText } from '@/utils/text';
+
+export interface HelpCommand {
+  name: string;
+  aliases: string[];
+  description: string;
+}
+
+export class HelpTemplates {
+  static listCommands(actions: ActionDefinition[]): HelpCommand[] {
+    return actions.map(action => ({
+      name: action.id,
+      aliases: action.aliases || [],
+      description: action.description || action.classifier?.description || ''
+    }));
+  }
+
+  static formatReply(commands: HelpCommand[], unknownCommand?: string): string {
+    const lines: string[] = [];
+
+    if (unknownCommand) {
+      lines.push(`I don't know the command /${unknownCommand}.`, '');
+    }
+
+    lines.push('Commands:');
+    for (const command of commands) {
+      const aliases = command.aliases.length > 0
+        ? ` (also ${command.aliases.map(alias => `/${alias}`).join(', ')})`
+        : '';
+      lines.push(`/${command.name}${aliases} – ${command.description}`);
+    }
+
+    lines.push('', 'Or just ask in plain words, e.g. "summarize this thread".');
+
+    return truncateText(lines.join('\n'), 1200);
+  }
+
+  static formatArtifacts(commands: HelpCommand[], unknownCommand?: string): Record<string, any> {
+    return {
+      unknownCommand: unknownCommand || null,
+      commands: commands.map(command => command.name)
+    };
+  }
+}
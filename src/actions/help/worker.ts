@@ -0,0 +1,61 @@
+import { EventBus } from '@/core/event-bus';
+import { ActionRequestedV1 } from '@/core/events';
+import { IdempotencyService } from '@/core/idempotency';
+import { ThreadService } from '@/services/thread';
+import { ReplyService } from '@/services/reply';
+import { SafetyService } from '@/services/safety';
+import { MetricsService } from '@/services/metrics';
+import { actionRegistry } from '@/actions';
+import { BaseActionWorker, ActionRunResult } from '../base-worker';
+import { HelpTemplates } from './templates';
+import logger from '@/utils/logger';
+
+/**
+ * Replies with the available commands; no AI calls.
+ */
+export class HelpWorker extends BaseActionWorker {
+  protected readonly actionId = 'help';
+  protected readonly label = 'Help';
+  protected readonly artifactType = 'help';
+
+  // The reply doesn't depend on the thread; fetching the mention still catches deleted posts
+  protected override readonly contextOptions = { maxDepth: 1, includeReplies: false };
+
+  constructor(
+    eventBus: EventBus,
+    idempotency: IdempotencyService,
+    threadService: ThreadService,
+    replyService: ReplyService,
+    safetyService: SafetyService,
+    metrics: MetricsService
+  ) {
+    super(eventBus, idempotency, threadService, replyService, safetyService, metrics);
+  }
+
+  protected async run(data: ActionRequestedV1): Promise<ActionRunResult> {
+    const commands = HelpTemplates.listCommands(actionRegistry.commands());
+    const unknownCommand = data.params.unknownCommand as string | undefined;
+
+    logger.debug('Listing commands', {
+      mentionId: data.mentionId,
+      unknownCommand,
+      commands: commands.length
+    });
+
+    return {
+      reply: HelpTemplates.formatReply(commands, unknownCommand),
+      artifacts: HelpTemplates.formatArtifacts(commands, unknownCommand)
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      HelpTemplates.formatReply(HelpTemplates.listCommands(actionRegistry.commands()));
+      return true;
+
+    } catch (error) {
+      logger.error('Help worker health check failed:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { ActionDefinition } from '@/actions/registry';
+
+export const imageAction: ActionDefinition = {
+  id: 'image',
+  aliases: ['alt'],
+  classifier: {
+    description: 'Describes images (alt text) or answers questions about an image',
+    rules: `User wants an image described or has a question about what an image shows
+  Examples: "alt text please", "describe this image", "what breed is the dog in this photo?"`,
+    heuristic: {
+      keywords: [
+        'alt text', 'alt-text', 'alttext',
+        'describe this image', 'describe the image', 'describe this picture', 'describe the picture',
+        'describe this photo', 'describe the photo', 'image description',
+        "what's in this image", 'what is in this image', "what's in this picture", 'what is in this picture',
+        "what's in this photo", 'what is in this photo'
+      ],
+      baseConfidence: 0.5,
+      priority: 50
+    }
+  },
+  createWorker: async (services) => {
+    const [{ ImageService }, { ImageWorker }] = await Promise.all([import('@/services/image'), import('./worker')]);
+
+    return new ImageWorker(
+      services.eventBus,
+      services.idempotency,
+      new ImageService(services.aiService, services.pubkyService),
+      services.threadService,
+      services.replyService,
+      services.safetyService,
+      services.metrics
+    );
+  }
+};
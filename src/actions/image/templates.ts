@@ -0,0 +1,33 @@
+import { ImageDescriptionResult } from '@/services/image';
+import { ReplyContent } from '@/services/reply';
+
+export class ImageTemplates {
+  static formatReply(result: ImageDescriptionResult): ReplyContent {
+    if (result.imageCount === 0) {
+      return {
+        summary: result.skippedCount > 0
+          ? "I couldn't read the images on this post (unsupported format or too large)."
+          : "I couldn't find an image on this post."
+      };
+    }
+
+    return {
+      image: {
+        text: result.text,
+        isAnswer: !!result.question
+      }
+    };
+  }
+
+  static formatArtifacts(result: ImageDescriptionResult, imagePostUri: string): Record<string, any> {
+    return {
+      description: result.text,
+      question: result.question,
+      imagePostUri,
+      attachmentUris: result.attachmentUris,
+      imageCount: result.imageCount,
+      skippedCount: result.skippedCount,
+      metrics: result.metrics
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { EventBus } from '@/core/event-bus';
+import { ActionRequestedV1 } from '@/core/events';
+import { IdempotencyService } from '@/core/idempotency';
+import { ImageService } from '@/services/image';
+import { ThreadService } from '@/services/thread';
+import { ReplyService } from '@/services/reply';
+import { SafetyService } from '@/services/safety';
+import { MetricsService } from '@/services/metrics';
+import { ThreadContext } from '@/types/thread';
+import { BaseActionWorker, ActionRunResult } from '../base-worker';
+import { ImageTemplates } from './templates';
+import logger from '@/utils/logger';
+
+export class ImageWorker extends BaseActionWorker {
+  protected readonly actionId = 'image';
+  protected readonly label = 'Image';
+  protected readonly artifactType = 'image_description';
+
+  // Only the mention and the post it replies to are needed
+  protected override readonly contextOptions = { maxDepth: 1, includeReplies: false };
+
+  constructor(
+    eventBus: EventBus,
+    idempotency: IdempotencyService,
+    private imageService: ImageService,
+    threadService: ThreadService,
+    replyService: ReplyService,
+    safetyService: SafetyService,
+    metrics: MetricsService
+  ) {
+    super(eventBus, idempotency, threadService, replyService, safetyService, metrics);
+  }
+
+  protected async run(data: ActionRequestedV1, threadContext: ThreadContext, runId: string): Promise<ActionRunResult> {
+    const mentionPost = threadContext.mentionPost;
+
+    // Describe images on the mention itself, otherwise on the post it replies to
+    const parentPost = mentionPost.parentUri
+      ? threadContext.posts.find(p => p.uri === mentionPost.parentUri)
+      : undefined;
+    const imagePost = mentionPost.attachments?.length ? mentionPost : (parentPost || mentionPost);
+
+    const question = ImageService.extractQuestion(mentionPost.content);
+
+    logger.debug('Describing post images', {
+      mentionId: data.mentionId,
+      imagePostUri: imagePost.uri,
+      attachments: imagePost.attachments?.length || 0,
+      hasQuestion: !!question,
+      runId
+    });
+
+    const imageResult = await this.imageService.describe(imagePost, question);
+    const aiTokens = imageResult.metrics.aiTokensUsed;
+
+    return {
+      reply: ImageTemplates.formatReply(imageResult),
+      artifacts: ImageTemplates.formatArtifacts(imageResult, imagePost.uri),
+      usage: typeof aiTokens === 'number' ? [{
+        phase: 'image',
+        provider: imageResult.aiMeta?.provider,
+        model: imageResult.aiMeta?.model,
+        inputTokens: imageResult.aiMeta?.usage?.inputTokens ?? null,
+        outputTokens: imageResult.aiMeta?.usage?.outputTokens ?? null,
+        totalTokens: aiTokens,
+        meta: { source: 'imageService', imageCount: imageResult.imageCount }
+      }] : [],
+      metrics: { tokensUsed: aiTokens }
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      // Describing a post without attachments exercises the pipeline without an AI call
+      await this.imageService.describe({
+        id: 'test',
+        uri: 'test',
+        content: 'Health check',
+        authorId: 'system',
+        createdAt: new Date().toISOString()
+      });
+      return true;
+
+    } catch (error) {
+      logger.error('Image worker health check failed:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { actionRegistry } from './registry';
+import { summaryAction } from './summary';
+import { factcheckAction } from './factcheck';
+import { translateAction } from './translate';
+import { imageAction } from './image';
+import { askAction } from './ask';
+import { followupAction } from './followup';
+import { helpAction } from './help';
+import { usageAction } from './usage';
+
+// Built-in actions, in the order they are listed to the classifier.
+// Additional actions register themselves here the same way.
+for (const action of [summaryAction, factcheckAction, translateAction, imageAction, askAction, followupAction, helpAction, usageAction]) {
+  actionRegistry.register(action);
+}
+
+export { actionRegistry };
+export type { ActionDefinition, ActionServices, ActionWorkerInstance } from './registry';
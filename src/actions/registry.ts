@@ -0,0 +1,136 @@
+import type { EventBus } from '@/core/event-bus';
+import type { IdempotencyService } from '@/core/idempotency';
+import type { ActionId, ActionRequestedV1, MentionReceivedV1 } from '@/core/events';
+import type { AIService } from '@/services/ai';
+import type { PubkyService } from '@/services/pubky';
+import type { ThreadService } from '@/services/thread';
+import type { ReplyService } from '@/services/reply';
+import type { SafetyService } from '@/services/safety';
+import type { MetricsService } from '@/services/metrics';
+import type { ConversationService } from '@/services/conversation';
+import type { RateLimitService } from '@/services/rate-limit';
+import type { McpClientService } from '@/services/mcp/client';
+import appConfig from '@/config';
+
+/**
+ * Shared services handed to every action's worker factory
+ */
+export interface ActionServices {
+  eventBus: EventBus;
+  idempotency: IdempotencyService;
+  metrics: MetricsService;
+  aiService: AIService;
+  pubkyService: PubkyService;
+  threadService: ThreadService;
+  replyService: ReplyService;
+  safetyService: SafetyService;
+  conversationService: ConversationService;
+  rateLimitService: RateLimitService;
+  mcpClient: McpClientService;
+}
+
+export interface ActionWorkerInstance {
+  start(): Promise<void>;
+  healthCheck(): Promise<boolean>;
+}
+
+export interface ActionHeuristic {
+  keywords?: string[];       // matched as substrings of the lowercased mention
+  patterns?: RegExp[];       // matched against the lowercased mention
+  baseConfidence: number;    // confidence = min(0.85, base + 0.1 per match)
+  priority: number;          // higher is checked first; the first action with a match wins
+}
+
+/**
+ * Everything the bot needs to know about an action. Events are derived from
+ * the id: action.<id>.requested.v1 / .completed.v1 / .failed.v1
+ */
+export interface ActionDefinition {
+  id: ActionId;
+  featureFlag?: string;       // key under `features` in config; defaults to id
+  description?: string;       // shown by /help; defaults to classifier.description
+  command?: boolean;          // reachable as /<id>; defaults to true when the action has a classifier
+  aliases?: string[];         // extra command names, e.g. /tldr for /summary
+  classifier?: {
+    description: string;      // one line in the classifier's list of services
+    rules: string;            // classification rule, examples and caveats
+    heuristic?: ActionHeuristic;
+  };                          // omitted: never chosen by the classifier (e.g. followup)
+  usesMcp?: boolean;          // worker may need the MCP client connected (see search.provider)
+  budgetExempt?: boolean;     // makes no AI calls, so /<id> skips the daily token budget check
+  // Fill request.params with action-specific data for the worker
+  buildRequest?: (mention: MentionReceivedV1, request: ActionRequestedV1) => void;
+  // Imports the worker lazily, so reading definitions (e.g. in the classifier)
+  // doesn't load worker dependencies
+  createWorker: (services: ActionServices) => Promise<ActionWorkerInstance>;
+}
+
+export class ActionRegistry {
+  private actions = new Map<ActionId, ActionDefinition>();
+
+  register(definition: ActionDefinition): void {
+    if (!/^[a-z][a-z0-9_]*$/.test(definition.id)) {
+      throw new Error(`Invalid action id "${definition.id}" (lowercase letters, digits and underscores)`);
+    }
+
+    if (this.actions.has(definition.id)) {
+      throw new Error(`Action "${definition.id}" is already registered`);
+    }
+
+    this.actions.set(definition.id, definition);
+  }
+
+  get(id: string): ActionDefinition | undefined {
+    return this.actions.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.actions.has(id);
+  }
+
+  list(): ActionDefinition[] {
+    return [...this.actions.values()];
+  }
+
+  ids(): ActionId[] {
+    return [...this.actions.keys()];
+  }
+
+  /**
+   * Actions the classifier may pick, in registration order
+   */
+  classifiable(): ActionDefinition[] {
+    return this.list().filter(action => !!action.classifier);
+  }
+
+  /**
+   * Enabled actions reachable by an explicit /command
+   */
+  commands(): ActionDefinition[] {
+    return this.list().filter(action =>
+      (action.command ?? !!action.classifier) && this.isEnabled(action.id)
+    );
+  }
+
+  /**
+   * Resolve a command name or alias ("summary", "tldr") to an enabled action
+   */
+  findCommand(name: string): ActionDefinition | undefined {
+    const command = name.toLowerCase();
+    return this.commands().find(action =>
+      action.id === command || (action.aliases || []).includes(command)
+    );
+  }
+
+  isEnabled(id: string): boolean {
+    const action = this.actions.get(id);
+    if (!action) {
+      return false;
+    }
+
+    const features = appConfig.features as Record<string, boolean | undefined>;
+    return features[action.featureFlag || action.id] === true;
+  }
+}
+
+export const actionRegistry = new ActionRegistry();
@@ -0,0 +1,28 @@
+import { ActionDefinition } from '@/actions/registry';
+
+export const summaryAction: ActionDefinition = {
+  id: 'summary',
+  aliases: ['tldr'],
+  classifier: {
+    description: 'Summarizes long threads or conversations into key points',
+    rules: 'User wants a summary, recap, overview, or tl;dr of content',
+    heuristic: {
+      keywords: ['summary', 'summarize', 'tl;dr', 'tldr', 'sum up', 'recap', 'overview'],
+      baseConfidence: 0.4,
+      priority: 10
+    }
+  },
+  createWorker: async (services) => {
+    const [{ SummaryService }, { SummaryWorker }] = await Promise.all([import('@/services/summary'), import('./worker')]);
+
+    return new SummaryWorker(
+      services.eventBus,
+      services.idempotency,
+      new SummaryService(services.aiService),
+      services.threadService,
+      services.replyService,
+      services.safetyService,
+      services.metrics
+    );
+  }
+};
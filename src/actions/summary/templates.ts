@@ -1,24 +1,38 @@
-import { SummaryResult } from '@/services/summary';
+import { SummaryResult, SummaryOptions } from '@/services/summary';
 import { ReplyContent } from '@/services/reply';
 
 export class SummaryTemplates {
-  static formatReply(result: SummaryResult): ReplyContent {
+  static formatReply(result: SummaryResult, options: SummaryOptions = {}): ReplyContent {
     const { summary, keyPoints, metrics } = result;
+    const detailed = options.style === 'detailed';
 
-    // Build the summary text (without participant names)
+    // Participant names and topics only when asked for
     let formattedSummary = summary;
+    if (options.includeParticipants && result.participantNames.length > 0) {
+      formattedSummary += `\nParticipants: ${result.participantNames.join(', ')}`;
+    }
+    if (options.includeTopics && result.topics.length > 0) {
+      formattedSummary += `\nTopics: ${result.topics.slice(0, 5).join(', ')}`;
+    }
 
     // Determine if we should include key points based on space and quality
     const shouldIncludeKeyPoints =
       keyPoints.length > 0 &&
       metrics.confidence !== 'low' &&
-      formattedSummary.length < 300; // Leave room for key points
+      formattedSummary.length < (detailed ? 800 : 300); // Leave room for key points
 
     const replyContent: ReplyContent = {
       summary: formattedSummary
     };
 
-    if (shouldIncludeKeyPoints) {
+    if (detailed) {
+      replyContent.detailed = true;
+    }
+
+    // A forked thread is better served by one line per sub-discussion
+    if (result.branchSummaries && result.branchSummaries.length >= 2) {
+      replyContent.branches = result.branchSummaries.map(branch => branch.summary);
+    } else if (shouldIncludeKeyPoints) {
       replyContent.keyPoints = keyPoints;
     }
 
@@ -35,7 +49,8 @@ export class SummaryTemplates {
       confidence: result.metrics.confidence,
       keyPointsCount: result.keyPoints.length,
       participantsCount: result.participants.length,
-      topicsCount: result.topics.length
+      topicsCount: result.topics.length,
+      branchCount: result.branchSummaries?.length || 0
     };
   }
 
@@ -46,6 +61,7 @@ export class SummaryTemplates {
       participants: result.participants,
       participantNames: result.participantNames, // Include resolved usernames
       topics: result.topics,
+      branchSummaries: result.branchSummaries,
       metrics: result.metrics
     };
   }
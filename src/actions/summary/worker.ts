@@ -1,350 +1,99 @@
 import { EventBus } from '@/core/event-bus';
-import { ActionRequestedV1, ActionCompletedV1, ActionFailedV1 } from '@/core/events';
+import { ActionRequestedV1 } from '@/core/events';
 import { IdempotencyService } from '@/core/idempotency';
-import { SummaryService } from '@/services/summary';
+import { SummaryService, SummaryOptions } from '@/services/summary';
 import { ThreadService } from '@/services/thread';
 import { ReplyService } from '@/services/reply';
 import { SafetyService } from '@/services/safety';
 import { MetricsService } from '@/services/metrics';
+import { ThreadContext } from '@/types/thread';
+import { BaseActionWorker, ActionRunResult } from '../base-worker';
 import { SummaryTemplates } from './templates';
-import { db } from '@/infrastructure/database/connection';
-import { generateId, generateRunId } from '@/utils/ids';
-import { budgetService } from '@/services/budget';
-import { getCurrentTimestamp } from '@/utils/time';
 import logger from '@/utils/logger';
 
-export class SummaryWorker {
+export class SummaryWorker extends BaseActionWorker {
+  protected readonly actionId = 'summary';
+  protected readonly label = 'Summary';
+  protected readonly artifactType = 'summary';
+
   constructor(
-    private eventBus: EventBus,
-    private idempotency: IdempotencyService,
+    eventBus: EventBus,
+    idempotency: IdempotencyService,
     private summaryService: SummaryService,
-    private threadService: ThreadService,
-    private replyService: ReplyService,
-    private safetyService: SafetyService,
-    private metrics: MetricsService
-  ) {}
-
-  async start(): Promise<void> {
-    await this.eventBus.subscribe(
-      'action.summary.requested.v1',
-      'summary-workers',
-      'summary-worker-001',
-      this.handleSummaryRequest.bind(this)
-    );
-
-    logger.info('Summary worker started and listening for requests');
+    threadService: ThreadService,
+    replyService: ReplyService,
+    safetyService: SafetyService,
+    metrics: MetricsService
+  ) {
+    super(eventBus, idempotency, threadService, replyService, safetyService, metrics);
   }
 
-  private async handleSummaryRequest(event: any): Promise<void> {
-    const data = event.data as ActionRequestedV1;
-    const runId = generateRunId();
-
-    logger.debug('Processing summary request', {
-      mentionId: data.mentionId,
-      postId: data.postId,
-      runId,
-      eventId: event.id
-    });
-
-    const idempotencyKey = `action:summary:${data.mentionId}`;
-
-    try {
-      const result = await this.idempotency.guard(
-        idempotencyKey,
-        async () => {
-          return this.executeSummarization(data, runId);
-        }
-      );
-
-      if (!result.executed) {
-        logger.debug('Summary action already processed', {
-          mentionId: data.mentionId,
-          runId
-        });
-        return;
-      }
-
-      logger.debug('Summary action completed', {
+  protected async run(data: ActionRequestedV1, threadContext: ThreadContext): Promise<ActionRunResult> {
+    // Validate thread
+    const validation = this.threadService.validate(threadContext);
+    if (!validation.isComplete) {
+      logger.warn('Thread validation issues detected', {
         mentionId: data.mentionId,
-        runId,
-        success: result.result?.success
-      });
-
-    } catch (error) {
-      logger.error('Failed to process summary request:', error);
-
-      await this.emitFailedEvent(data, runId, error);
-      this.metrics.incrementActions('summary', 'failed');
-      throw error;
-    }
-  }
-
-  private async executeSummarization(
-    data: ActionRequestedV1,
-    runId: string
-  ): Promise<{ success: boolean; executionId: string }> {
-    const startTime = Date.now();
-    const endActionTimer = this.metrics.startActionTimer('summary');
-    this.metrics.incrementActions('summary', 'started');
-
-    // Create action execution record
-    const executionId = await this.createActionExecution(data.mentionId, 'summary');
-
-    try {
-      // Build thread context
-      logger.debug('Building thread context for summarization', {
-        mentionId: data.mentionId,
-        postId: data.postId,
-        runId
-      });
-
-      const threadContext = await this.threadService.buildThreadContext(data.postId, {
-        mentionId: data.mentionId
-      });
-
-      // Validate thread
-      const validation = this.threadService.validate(threadContext);
-      if (!validation.isComplete) {
-        logger.warn('Thread validation issues detected', {
-          mentionId: data.mentionId,
-          issues: validation.issues,
-          warnings: validation.warnings
-        });
-      }
-
-      // Generate summary
-      logger.debug('Generating summary', {
-        mentionId: data.mentionId,
-        postCount: threadContext.posts.length,
-        totalTokens: threadContext.totalTokens
-      });
-
-      const summaryResult = await this.summaryService.generate(threadContext, {
-        maxKeyPoints: 3,
-        includeParticipants: false,
-        style: 'brief'
-      });
-
-      // Record token usage attributed to the author pubkey
-      try {
-        const authorId = await budgetService.getAuthorByMentionId(data.mentionId);
-        const aiTokens = summaryResult.metrics.aiTokensUsed;
-        if (authorId && typeof aiTokens === 'number') {
-          await budgetService.recordUsage({
-            mentionId: data.mentionId,
-            publicKey: authorId,
-            phase: 'summary',
-            provider: summaryResult.aiMeta?.provider,
-            model: summaryResult.aiMeta?.model,
-            inputTokens: summaryResult.aiMeta?.usage?.inputTokens ?? null,
-            outputTokens: summaryResult.aiMeta?.usage?.outputTokens ?? null,
-            totalTokens: aiTokens,
-            meta: { source: 'summaryService' }
-          });
-        }
-      } catch (e) {
-        logger.debug('Non-fatal: failed to record summary token usage', {
-          mentionId: data.mentionId,
-          error: e instanceof Error ? e.message : String(e)
-        });
-      }
-
-      // Format reply
-      const replyContent = SummaryTemplates.formatReply(summaryResult);
-      const replyText = this.replyService.compose(replyContent);
-
-      // Publish reply (safety check handled by ReplyService)
-      let replyRef = null;
-      if (data.parentUri) {
-        replyRef = await this.replyService.publish(
-          data.parentUri,
-          replyText,
-          data.mentionId
-        );
-
-        this.metrics.incrementReplies('summary');
-        logger.info('Summary reply published', {
-          mentionId: data.mentionId,
-          replyId: replyRef.id,
-          contentLength: replyText.length
-        });
-      }
-
-      // Store artifacts
-      const artifacts = SummaryTemplates.formatArtifacts(summaryResult);
-      await this.storeArtifacts(executionId, artifacts);
-
-      // Complete action execution
-      await this.completeActionExecution(executionId, {
-        durationMs: Date.now() - startTime,
-        tokensUsed: summaryResult.metrics.aiTokensUsed ?? summaryResult.metrics.summaryTokens
+        issues: validation.issues,
+        warnings: validation.warnings
       });
-
-      // Emit completion event
-      await this.emitCompletedEvent(data, executionId, replyRef, artifacts);
-
-      endActionTimer();
-      this.metrics.incrementActions('summary', 'completed');
-
-      return { success: true, executionId };
-
-    } catch (error: any) {
-      // Check if the error is due to a confirmed deleted post (404)
-      if (error?.code === 'POST_DELETED') {
-        logger.info('Post confirmed deleted (404), marking mention accordingly', {
-          mentionId: data.mentionId,
-          postId: data.postId
-        });
-
-        // Update mention status to indicate post was deleted
-        try {
-          await db.query(
-            `UPDATE mentions
-             SET status = 'failed',
-                 error_type = 'post_deleted',
-                 last_error = $2
-             WHERE mention_id = $1`,
-            [data.mentionId, 'Post deleted (404)']
-          );
-        } catch (updateError) {
-          logger.error('Failed to update mention status for deleted post:', updateError);
-        }
-      } else {
-        // Check if the error is due to a post not being available (other errors)
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const isPostUnavailable = errorMessage.includes('Post not available');
-
-        if (isPostUnavailable) {
-          logger.warn('Post not available (temporary error, not 404)', {
-            mentionId: data.mentionId,
-            postId: data.postId
-          });
-
-          // Update mention status to indicate post fetch failed
-          // Do NOT use 'post_deleted' error type as it's not a 404
-          try {
-            await db.query(
-              `UPDATE mentions
-               SET status = 'failed',
-                   last_error = $2
-               WHERE mention_id = $1`,
-              [data.mentionId, 'Post not available - will retry later']
-            );
-          } catch (updateError) {
-            logger.error('Failed to update mention status:', updateError);
-          }
-        }
-      }
-
-      // Update execution with error
-      await this.failActionExecution(executionId, error);
-      endActionTimer();
-      throw error;
     }
-  }
 
-  private async createActionExecution(mentionId: string, actionId: string): Promise<string> {
-    const rows = await db.query<{ id: string }>(
-      `INSERT INTO action_executions (mention_id, action_id, status)
-       VALUES ($1, $2, 'started')
-       RETURNING id`,
-      [mentionId, actionId]
-    );
-
-    return rows[0].id;
-  }
-
-  private async completeActionExecution(
-    executionId: string,
-    metrics: { durationMs: number; tokensUsed?: number }
-  ): Promise<void> {
-    await db.query(
-      `UPDATE action_executions
-       SET status = 'completed', completed_at = now(), metrics_json = $2
-       WHERE id = $1`,
-      [executionId, JSON.stringify(metrics)]
-    );
-  }
-
-  private async failActionExecution(executionId: string, error: any): Promise<void> {
-    const errorData = {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      code: error.code || 'SUMMARY_ERROR',
-      stack: error instanceof Error ? error.stack : undefined
-    };
-
-    await db.query(
-      `UPDATE action_executions
-       SET status = 'failed', completed_at = now(), error_json = $2
-       WHERE id = $1`,
-      [executionId, JSON.stringify(errorData)]
-    );
-  }
-
-  private async storeArtifacts(executionId: string, artifacts: any): Promise<void> {
-    await db.query(
-      `INSERT INTO artifacts (action_execution_id, type, payload_json)
-       VALUES ($1, 'summary', $2)`,
-      [executionId, JSON.stringify(artifacts)]
-    );
-  }
-
-  private async emitCompletedEvent(
-    data: ActionRequestedV1,
-    executionId: string,
-    replyRef: any,
-    artifacts: any
-  ): Promise<void> {
-    const completedData: ActionCompletedV1 = {
+    // Generate summary
+    logger.debug('Generating summary', {
       mentionId: data.mentionId,
-      actionId: 'summary',
-      executionId,
-      reply: replyRef ? {
-        text: replyRef.content,
-        parentUri: replyRef.parentUri,
-        replyUri: replyRef.uri
-      } : undefined,
-      artifacts
-    };
-
-    await this.eventBus.emit('action.summary.completed.v1', completedData, {
-      correlationId: data.mentionId
+      postCount: threadContext.posts.length,
+      totalTokens: threadContext.totalTokens
     });
-  }
 
-  private async emitFailedEvent(
-    data: ActionRequestedV1,
-    runId: string,
-    error: any
-  ): Promise<void> {
-    const failedData: ActionFailedV1 = {
-      mentionId: data.mentionId,
-      actionId: 'summary',
-      executionId: runId,
-      error: {
-        code: error.code || 'SUMMARY_ERROR',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      },
-      retryable: true
+    // Users may ask for a detailed summary, a number of bullets or another language
+    const requested = data.options || {};
+    const summaryOptions: SummaryOptions = {
+      maxKeyPoints: requested.maxKeyPoints ?? (requested.style === 'detailed' ? 5 : 3),
+      includeParticipants: requested.includeParticipants ?? false,
+      includeTopics: requested.includeTopics ?? false,
+      style: requested.style || 'brief',
+      language: requested.language
     };
 
-    await this.eventBus.emit('action.summary.failed.v1', failedData, {
-      correlationId: data.mentionId
-    });
+    const summaryResult = await this.summaryService.generate(threadContext, summaryOptions);
+
+    const aiTokens = summaryResult.metrics.aiTokensUsed;
+
+    return {
+      reply: SummaryTemplates.formatReply(summaryResult, summaryOptions),
+      artifacts: SummaryTemplates.formatArtifacts(summaryResult),
+      usage: typeof aiTokens === 'number' ? [{
+        phase: 'summary',
+        provider: summaryResult.aiMeta?.provider,
+        model: summaryResult.aiMeta?.model,
+        inputTokens: summaryResult.aiMeta?.usage?.inputTokens ?? null,
+        outputTokens: summaryResult.aiMeta?.usage?.outputTokens ?? null,
+        totalTokens: aiTokens,
+        meta: { source: 'summaryService' }
+      }] : [],
+      metrics: {
+        tokensUsed: aiTokens ?? summaryResult.metrics.summaryTokens
+      }
+    };
   }
 
   async healthCheck(): Promise<boolean> {
     try {
       // Simple check to ensure services are available
+      const testPost = {
+        id: 'test',
+        uri: 'test',
+        content: 'Test content for health check',
+        authorId: 'system',
+        createdAt: new Date().toISOString()
+      };
       const testContext = {
-        rootPost: {
-          id: 'test',
-          uri: 'test',
-          content: 'Test content for health check',
-          authorId: 'system',
-          createdAt: new Date().toISOString()
-        },
-        posts: [],
+        rootPost: testPost,
+        mentionPost: testPost,
+        posts: [testPost],
+        tree: { post: testPost, depth: 0, branchId: 'main', children: [] },
+        branches: [{ id: 'main', startUri: testPost.uri, postUris: [testPost.uri] }],
         participants: ['system'],
         participantProfiles: [{
           publicKey: 'system',
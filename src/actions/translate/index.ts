@@ -0,0 +1,43 @@
+import { ActionDefinition } from '@/actions/registry';
+import { detectTargetLanguage, normalizeLanguage, DEFAULT_TARGET_LANGUAGE } from '@/utils/language';
+import { parseCommand } from '@/utils/commands';
+
+export const translateAction: ActionDefinition = {
+  id: 'translate',
+  classifier: {
+    description: 'Translates a post into another language',
+    rules: `User wants a post translated into another language
+  Examples: "translate this to Spanish", "what does this say in English",
+  "traducir al inglés", "auf Deutsch bitte"`,
+    heuristic: {
+      keywords: [
+        'translate', 'translation',
+
+        // Native-language requests
+        'traduce', 'traducir', 'traduire', 'traduis', 'tradurre', 'traduzir',
+        'übersetze', 'übersetzen', 'vertaal'
+      ],
+      baseConfidence: 0.5,
+      priority: 40
+    }
+  },
+  buildRequest: (mention, request) => {
+    // "/translate spanish" names the language without "to"
+    const commandArg = parseCommand(mention.content)?.args.split(/\s+/)[0];
+    request.params.targetLanguage = (commandArg && normalizeLanguage(commandArg)) ||
+      detectTargetLanguage(mention.content) || DEFAULT_TARGET_LANGUAGE;
+  },
+  createWorker: async (services) => {
+    const [{ TranslationService }, { TranslateWorker }] = await Promise.all([import('@/services/translate'), import('./worker')]);
+
+    return new TranslateWorker(
+      services.eventBus,
+      services.idempotency,
+      new TranslationService(services.aiService),
+      services.threadService,
+      services.replyService,
+      services.safetyService,
+      services.metrics
+    );
+  }
+};
@@ -0,0 +1,36 @@
+import { TranslationResult } from '@/services/translate';
+import { ReplyContent } from '@/services/reply';
+
+export class TranslateTemplates {
+  static formatReply(result: TranslationResult): ReplyContent {
+    if (result.alreadyInTargetLanguage) {
+      return {
+        summary: `This post is already in ${result.targetLanguage}.`
+      };
+    }
+
+    return {
+      translation: {
+        text: result.translation,
+        sourceLanguage: result.sourceLanguage,
+        targetLanguage: result.targetLanguage
+      }
+    };
+  }
+
+  static formatArtifacts(result: TranslationResult, sourcePostUri: string): Record<string, any> {
+    return {
+      translation: result.translation,
+      sourceLanguage: result.sourceLanguage,
+      targetLanguage: result.targetLanguage,
+      sourcePostUri,
+      metrics: result.metrics
+    };
+  }
+
+  static formatErrorFallback(): ReplyContent {
+    return {
+      summary: "I'm unable to translate this post right now due to a technical issue. Please try again later."
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { EventBus } from '@/core/event-bus';
+import { ActionRequestedV1 } from '@/core/events';
+import { IdempotencyService } from '@/core/idempotency';
+import { TranslationService } from '@/services/translate';
+import { ThreadService } from '@/services/thread';
+import { ReplyService } from '@/services/reply';
+import { SafetyService } from '@/services/safety';
+import { MetricsService } from '@/services/metrics';
+import { ThreadContext } from '@/types/thread';
+import { BaseActionWorker, ActionRunResult } from '../base-worker';
+import { TranslateTemplates } from './templates';
+import { DEFAULT_TARGET_LANGUAGE } from '@/utils/language';
+import logger from '@/utils/logger';
+
+export class TranslateWorker extends BaseActionWorker {
+  protected readonly actionId = 'translate';
+  protected readonly label = 'Translate';
+  protected readonly artifactType = 'translation';
+
+  // Only the mention and the post it replies to are needed
+  protected override readonly contextOptions = { maxDepth: 1, includeReplies: false };
+
+  constructor(
+    eventBus: EventBus,
+    idempotency: IdempotencyService,
+    private translationService: TranslationService,
+    threadService: ThreadService,
+    replyService: ReplyService,
+    safetyService: SafetyService,
+    metrics: MetricsService
+  ) {
+    super(eventBus, idempotency, threadService, replyService, safetyService, metrics);
+  }
+
+  protected async run(data: ActionRequestedV1, threadContext: ThreadContext, runId: string): Promise<ActionRunResult> {
+    const mentionPost = threadContext.mentionPost;
+
+    // Translate the post the user replied to; a top-level mention translates itself
+    const sourcePost = (mentionPost.parentUri &&
+      threadContext.posts.find(p => p.uri === mentionPost.parentUri)) || mentionPost;
+
+    const targetLanguage = (data.params.targetLanguage as string) || DEFAULT_TARGET_LANGUAGE;
+
+    logger.debug('Translating post', {
+      mentionId: data.mentionId,
+      sourcePostUri: sourcePost.uri,
+      targetLanguage,
+      runId
+    });
+
+    const translationResult = await this.translationService.translate(sourcePost, targetLanguage);
+    const aiTokens = translationResult.metrics.aiTokensUsed;
+
+    return {
+      reply: TranslateTemplates.formatReply(translationResult),
+      artifacts: TranslateTemplates.formatArtifacts(translationResult, sourcePost.uri),
+      usage: typeof aiTokens === 'number' ? [{
+        phase: 'translate',
+        provider: translationResult.aiMeta?.provider,
+        model: translationResult.aiMeta?.model,
+        inputTokens: translationResult.aiMeta?.usage?.inputTokens ?? null,
+        outputTokens: translationResult.aiMeta?.usage?.outputTokens ?? null,
+        totalTokens: aiTokens,
+        meta: { source: 'translationService', targetLanguage }
+      }] : [],
+      metrics: { tokensUsed: aiTokens }
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.translationService.translate({
+        id: 'test',
+        uri: 'test',
+        content: 'Hola mundo',
+        authorId: 'system',
+        createdAt: new Date().toISOString()
+      }, DEFAULT_TARGET_LANGUAGE);
+      return true;
+
+    } catch (error) {
+      logger.error('Translate worker health check failed:', error);
+      return false;
+    }
+  }
+}
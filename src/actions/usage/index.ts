@@ -0,0 +1,21 @@
+import { ActionDefinition } from '@/actions/registry';
+
+export const usageAction: ActionDefinition = {
+  id: 'usage',
+  description: 'Shows your request count and remaining token budget',
+  command: true,
+  budgetExempt: true,
+  createWorker: async (services) => {
+    const { UsageWorker } = await import('./worker');
+
+    return new UsageWorker(
+      services.eventBus,
+      services.idempotency,
+      services.rateLimitService,
+      services.threadService,
+      services.replyService,
+      services.safetyService,
+      services.metrics
+    );
+  }
+};
@@ -0,0 +1,62 @@
+import { RateLimitStatus } from '@/services/rate-limit';
+import { BudgetCheckResult } from '@/services/budget';
+import { DEFAULT_TIER } from '@/services/rate-limit';
+
+export class UsageTemplates {
+  /**
+   * @param budget - Omitted when daily budgets aren't enforced
+   */
+  static formatReply(rateLimit: RateLimitStatus, budget: BudgetCheckResult | null): string {
+    const lines = [rateLimit.tier === DEFAULT_TIER ? 'Your usage:' : `Your usage (${rateLimit.tier} tier):`];
+
+    // Expensive actions (e.g. factcheck) count as several requests
+    let requests = `Requests: ${rateLimit.used}/${rateLimit.limit} in the last ${formatMinutes(rateLimit.windowMinutes, false)}`;
+    if (rateLimit.retryAfterSeconds !== undefined) {
+      requests += ` (limit reached, next request in ${formatMinutes(Math.ceil(rateLimit.retryAfterSeconds / 60))})`;
+    }
+    lines.push(requests);
+
+    if (budget) {
+      lines.push(
+        `AI tokens today: ${budget.usedTokens.toLocaleString('en-US')}/${budget.dailyLimit.toLocaleString('en-US')} ` +
+        `(${budget.remainingTokens.toLocaleString('en-US')} left, resets at 00:00 UTC)`
+      );
+    } else {
+      lines.push('AI tokens today: no daily limit');
+    }
+
+    return lines.join('\n');
+  }
+
+  static formatArtifacts(rateLimit: RateLimitStatus, budget: BudgetCheckResult | null): Record<string, any> {
+    return {
+      rateLimit: {
+        tier: rateLimit.tier,
+        requestCount: rateLimit.requestCount,
+        used: rateLimit.used,
+        limit: rateLimit.limit,
+        windowMinutes: rateLimit.windowMinutes
+      },
+      budget: budget ? {
+        usedTokens: budget.usedTokens,
+        dailyLimit: budget.dailyLimit,
+        remainingTokens: budget.remainingTokens
+      } : null
+    };
+  }
+}
+
+/**
+ * "15 minutes", "2 hours"; a single hour is "1 hour", or "hour" after "the last"
+ */
+function formatMinutes(minutes: number, countSingle = true): string {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    if (hours === 1) {
+      return countSingle ? '1 hour' : 'hour';
+    }
+    return `${hours} hours`;
+  }
+
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+}
@@ -0,0 +1,66 @@
+import { EventBus } from '@/core/event-bus';
+import { ActionRequestedV1 } from '@/core/events';
+import { IdempotencyService } from '@/core/idempotency';
+import { ThreadService } from '@/services/thread';
+import { ReplyService } from '@/services/reply';
+import { SafetyService } from '@/services/safety';
+import { MetricsService } from '@/services/metrics';
+import { RateLimitService } from '@/services/rate-limit';
+import { budgetService } from '@/services/budget';
+import { ThreadContext } from '@/types/thread';
+import { BaseActionWorker, ActionRunResult } from '../base-worker';
+import { UsageTemplates } from './templates';
+import appConfig from '@/config';
+import logger from '@/utils/logger';
+
+/**
+ * Replies with the author's rate limit window and remaining daily token budget; no AI calls.
+ */
+export class UsageWorker extends BaseActionWorker {
+  protected readonly actionId = 'usage';
+  protected readonly label = 'Usage';
+  protected readonly artifactType = 'usage';
+
+  // Only the mention itself is needed, for its author
+  protected override readonly contextOptions = { maxDepth: 1, includeReplies: false };
+
+  constructor(
+    eventBus: EventBus,
+    idempotency: IdempotencyService,
+    private rateLimit: RateLimitService,
+    threadService: ThreadService,
+    replyService: ReplyService,
+    safetyService: SafetyService,
+    metrics: MetricsService
+  ) {
+    super(eventBus, idempotency, threadService, replyService, safetyService, metrics);
+  }
+
+  protected async run(data: ActionRequestedV1, threadContext: ThreadContext): Promise<ActionRunResult> {
+    // Budgets and rate limits are keyed by the stored mention author
+    const publicKey = await budgetService.getAuthorByMentionId(data.mentionId) ||
+      threadContext.mentionPost.authorId;
+
+    const [rateLimit, budget] = await Promise.all([
+      this.rateLimit.getRateLimitStatus(publicKey),
+      appConfig.budget.enabled ? budgetService.checkBudget(publicKey) : Promise.resolve(null)
+    ]);
+
+    logger.debug('Reporting usage', {
+      mentionId: data.mentionId,
+      publicKey,
+      requestCount: rateLimit.requestCount,
+      usedTokens: budget?.usedTokens
+    });
+
+    return {
+      reply: UsageTemplates.formatReply(rateLimit, budget),
+      artifacts: UsageTemplates.formatArtifacts(rateLimit, budget)
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    // Both lookups fail open, so there is nothing that can leave the worker unhealthy
+    return true;
+  }
+}
@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { sendErrorResponse } from '@/api/error-handler';
+import logger from '@/utils/logger';
+import appConfig from '@/config';
+
+/**
+ * Bearer-token authentication for admin endpoints.
+ * Admin endpoints are disabled entirely unless ADMIN_API_KEY is configured.
+ */
+export function requireAdminAuth(req: Request, res: Response, next: NextFunction): void {
+  const apiKey = appConfig.admin.apiKey;
+
+  if (!apiKey) {
+    sendErrorResponse(req, res, 503, 'Admin API is disabled (ADMIN_API_KEY not configured)');
+    return;
+  }
+
+  const header = req.get('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+
+  if (!token || !safeEqual(token, apiKey)) {
+    logger.warn('Rejected admin API request', {
+      method: req.method,
+      path: req.path,
+      ip: req.ip
+    });
+    sendErrorResponse(req, res, 401, 'Unauthorized');
+    return;
+  }
+
+  next();
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
@@ -0,0 +1,69 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { CatchUpOptions, CatchUpService, validateCatchUpWindow } from '@/services/catch-up';
+import { asyncHandler, sendErrorResponse } from '@/api/error-handler';
+import { requireAdminAuth } from '@/api/auth';
+
+const booleanFlag = z.preprocess(
+  (val) => (typeof val === 'string' ? val === 'true' || val === '1' : val),
+  z.boolean()
+);
+
+const CatchUpSchema = z.object({
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  hours: z.coerce.number().positive().optional(),   // shorthand for since = now - hours
+  dedupePerUser: booleanFlag.optional(),
+  dryRun: booleanFlag.optional(),
+  limit: z.coerce.number().int().min(1).optional()
+});
+
+export function createCatchUpRouter(catchUp: CatchUpService) {
+  const router = Router();
+
+  router.use('/admin/catch-up', requireAdminAuth);
+
+  // Dry run: list the skipped_old mentions a run would pick up
+  router.get('/admin/catch-up', asyncHandler(async (req, res) => {
+    const options = parseOptions(req.query, req, res);
+    if (!options) return;
+
+    const result = await catchUp.run({ ...options, dryRun: true });
+    res.status(200).json(result);
+  }));
+
+  router.post('/admin/catch-up', asyncHandler(async (req, res) => {
+    const options = parseOptions(req.body || {}, req, res);
+    if (!options) return;
+
+    const result = await catchUp.run(options);
+    res.status(200).json(result);
+  }));
+
+  return router;
+}
+
+function parseOptions(input: unknown, req: Request, res: Response): CatchUpOptions | null {
+  const parsed = CatchUpSchema.safeParse(input);
+  if (!parsed.success) {
+    sendErrorResponse(req, res, 400, `Invalid catch-up options: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', ')}`);
+    return null;
+  }
+
+  const { hours, ...rest } = parsed.data;
+  const until = rest.until || new Date();
+  const since = rest.since || (hours ? new Date(until.getTime() - hours * 60 * 60 * 1000) : undefined);
+
+  if (!since) {
+    sendErrorResponse(req, res, 400, 'Either since or hours is required');
+    return null;
+  }
+
+  const windowError = validateCatchUpWindow(since, until);
+  if (windowError) {
+    sendErrorResponse(req, res, 400, windowError);
+    return null;
+  }
+
+  return { ...rest, since, until };
+}
@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ClaimHistoryService } from '@/services/claim-history';
+import { asyncHandler, sendErrorResponse } from '@/api/error-handler';
+import { requireAdminAuth } from '@/api/auth';
+
+const SearchSchema = z.object({
+  q: z.string().trim().min(1).optional(),
+  label: z.enum(['true', 'false', 'misleading', 'unverifiable']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional()
+});
+
+const BackfillSchema = z.object({
+  limit: z.number().int().min(1).max(5000).optional()
+});
+
+export function createClaimsRouter(claimHistory: ClaimHistoryService) {
+  const router = Router();
+
+  router.use('/admin/claims', requireAdminAuth);
+
+  // Previously checked claims, newest first: ?q=<text>&label=false&limit=20&offset=0
+  router.get('/admin/claims', asyncHandler(async (req, res) => {
+    const parsed = SearchSchema.safeParse(req.query);
+    if (!parsed.success) {
+      sendErrorResponse(req, res, 400, 'Invalid query: q (text), label (true|false|misleading|unverifiable), limit (1-100), offset');
+      return;
+    }
+
+    const result = await claimHistory.search(parsed.data);
+    res.status(200).json({
+      ...result,
+      limit: parsed.data.limit || 20,
+      offset: parsed.data.offset || 0
+    });
+  }));
+
+  // Index factcheck artifacts stored before the claim history existed
+  router.post('/admin/claims/backfill', asyncHandler(async (req, res) => {
+    const parsed = BackfillSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      sendErrorResponse(req, res, 400, 'limit must be an integer between 1 and 5000');
+      return;
+    }
+
+    const indexed = await claimHistory.backfill(parsed.data.limit);
+    res.status(200).json({ indexed });
+  }));
+
+  return router;
+}
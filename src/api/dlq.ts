@@ -0,0 +1,91 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { DeadLetterQueue, DlqFilter } from '@/core/dlq';
+import { asyncHandler, sendErrorResponse } from '@/api/error-handler';
+import { requireAdminAuth } from '@/api/auth';
+
+const FilterSchema = z.object({
+  stream: z.string().min(1).optional(),
+  eventType: z.string().min(1).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional()
+});
+
+const PurgeSchema = z.object({
+  olderThanHours: z.coerce.number().min(1)
+});
+
+export function createDlqRouter(dlq: DeadLetterQueue) {
+  const router = Router();
+
+  router.use('/admin/dlq', requireAdminAuth);
+
+  // List DLQ entries (newest first)
+  router.get('/admin/dlq', asyncHandler(async (req, res) => {
+    const filter = parseFilter(req.query, req, res);
+    if (!filter) return;
+
+    const entries = await dlq.list(filter);
+    res.status(200).json({ count: entries.length, entries });
+  }));
+
+  // Replay a filtered batch onto the original streams
+  router.post('/admin/dlq/replay', asyncHandler(async (req, res) => {
+    const filter = parseFilter(req.body || {}, req, res);
+    if (!filter) return;
+
+    const results = await dlq.replayBatch(filter);
+    res.status(200).json({
+      matched: results.length,
+      replayed: results.filter(r => r.replayed).length,
+      results
+    });
+  }));
+
+  router.get('/admin/dlq/:id', asyncHandler(async (req, res) => {
+    const entry = await dlq.get(req.params.id);
+    if (!entry) {
+      sendErrorResponse(req, res, 404, 'DLQ entry not found');
+      return;
+    }
+
+    res.status(200).json(entry);
+  }));
+
+  router.post('/admin/dlq/:id/replay', asyncHandler(async (req, res) => {
+    const result = await dlq.replay(req.params.id);
+    if (!result.replayed) {
+      sendErrorResponse(req, res, result.reason === 'Entry not found' ? 404 : 409, result.reason || 'Replay failed');
+      return;
+    }
+
+    res.status(200).json(result);
+  }));
+
+  // Purge entries older than N hours
+  router.delete('/admin/dlq', asyncHandler(async (req, res) => {
+    const parsed = PurgeSchema.safeParse(req.query);
+    if (!parsed.success) {
+      sendErrorResponse(req, res, 400, 'olderThanHours query parameter is required (>= 1)');
+      return;
+    }
+
+    const before = new Date(Date.now() - parsed.data.olderThanHours * 60 * 60 * 1000);
+    const purged = await dlq.purge(before);
+    res.status(200).json({ purged, before: before.toISOString() });
+  }));
+
+  return router;
+}
+
+function parseFilter(input: unknown, req: Request, res: Response): DlqFilter | null {
+  const parsed = FilterSchema.safeParse(input);
+  if (!parsed.success) {
+    sendErrorResponse(req, res, 400, `Invalid filter: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', ')}`);
+    return null;
+  }
+
+  const { stream, ...rest } = parsed.data;
+  return { ...rest, sourceStream: stream };
+}
@@ -65,6 +65,26 @@ export function notFoundHandler(req: Request, res: Response): void {
   res.status(404).json(errorResponse);
 }
 
+/**
+ * Send an error response in the same shape as errorHandler
+ * For expected client errors (validation, auth) that should not be logged as failures
+ */
+export function sendErrorResponse(
+  req: Request,
+  res: Response,
+  status: number,
+  message: string
+): void {
+  res.status(status).json({
+    error: {
+      message,
+      status,
+      timestamp: new Date().toISOString(),
+      path: req.path
+    }
+  });
+}
+
 export function asyncHandler<T extends Request, U extends Response>(
   fn: (req: T, res: U, next: NextFunction) => Promise<any>
 ) {
@@ -2,16 +2,23 @@ import { Router } from 'express';
 import { asyncHandler } from '@/api/error-handler';
 import logger from '@/utils/logger';
 import appConfig from '@/config';
+import type { LeadershipStatus } from '@/core/leader-election';
 
+interface HealthCheckable {
+  healthCheck: () => Promise<boolean>;
+}
+
+// Optional components are omitted when the process's role doesn't run them
 interface HealthServices {
-  db: { healthCheck: () => Promise<boolean> };
-  redis: { healthCheck: () => Promise<boolean> };
-  pubky: { healthCheck: () => Promise<boolean> };
-  mcp?: { healthCheck: () => Promise<boolean> };
-  router?: { healthCheck: () => Promise<boolean> };
-  summaryWorker?: { healthCheck: () => Promise<boolean> };
-  factcheckWorker?: { healthCheck: () => Promise<boolean> };
-  poller?: { healthCheck: () => Promise<boolean> };
+  roles: string[];
+  db: HealthCheckable;
+  redis: HealthCheckable;
+  pubky: HealthCheckable;
+  mcp?: HealthCheckable;
+  router?: HealthCheckable;
+  actionWorkers?: Array<[string, HealthCheckable]>; // [action id, worker]
+  poller?: HealthCheckable;
+  leaderElections?: Array<{ getStatus: () => Promise<LeadershipStatus> }>;
 }
 
 export function createHealthRouter(services: HealthServices) {
@@ -20,26 +27,29 @@ export function createHealthRouter(services: HealthServices) {
   router.get('/health', asyncHandler(async (req, res) => {
     const startTime = Date.now();
 
-    // Check individual service health
-    const checks = await Promise.allSettled([
-      checkService('database', services.db),
-      checkService('redis', services.redis),
-      checkService('pubky', services.pubky),
-      services.mcp ? checkService('mcp', services.mcp) : Promise.resolve({ service: 'mcp', status: 'disabled', healthy: true }),
-      services.router ? checkService('router', services.router) : Promise.resolve({ service: 'router', status: 'not_started', healthy: true }),
-      services.summaryWorker ? checkService('summary_worker', services.summaryWorker) : Promise.resolve({ service: 'summary_worker', status: 'not_started', healthy: true }),
-      services.factcheckWorker ? checkService('factcheck_worker', services.factcheckWorker) : Promise.resolve({ service: 'factcheck_worker', status: 'not_started', healthy: true }),
-      services.poller ? checkService('poller', services.poller) : Promise.resolve({ service: 'poller', status: 'not_started', healthy: true })
-    ]);
+    // Check only the components this process runs (see WORKER_TYPE)
+    const components: Array<[string, HealthCheckable | undefined]> = [
+      ['database', services.db],
+      ['redis', services.redis],
+      ['pubky', services.pubky],
+      ['mcp', services.mcp],
+      ['router', services.router],
+      ...(services.actionWorkers || []).map(([id, worker]): [string, HealthCheckable] => [`${id}_worker`, worker]),
+      ['poller', services.poller]
+    ];
+    const active = components.filter(([, service]) => service !== undefined);
+
+    const checks = await Promise.allSettled(
+      active.map(([name, service]) => checkService(name, service!))
+    );
 
     // Process results
     const serviceChecks = checks.map((result, index) => {
       if (result.status === 'fulfilled') {
         return result.value;
       } else {
-        const serviceNames = ['database', 'redis', 'pubky', 'mcp', 'router', 'summary_worker', 'factcheck_worker', 'poller'];
         return {
-          service: serviceNames[index] || 'unknown',
+          service: active[index][0],
           status: 'error',
           healthy: false,
           error: result.reason instanceof Error ? result.reason.message : 'Unknown error'
@@ -47,6 +57,11 @@ export function createHealthRouter(services: HealthServices) {
       }
     });
 
+    // Who holds each leader lease (informational, doesn't affect health)
+    const leadershipStatuses = await Promise.all(
+      (services.leaderElections || []).map(election => election.getStatus())
+    );
+
     // Determine overall health
     const allHealthy = serviceChecks.every(check => check.healthy);
     const overallStatus = allHealthy ? 'healthy' : 'unhealthy';
@@ -57,6 +72,16 @@ export function createHealthRouter(services: HealthServices) {
       version: process.env.npm_package_version || '1.0.0',
       uptime: process.uptime(),
       responseTime: Date.now() - startTime,
+      roles: services.roles,
+      leadership: leadershipStatuses.reduce((acc, status) => {
+        acc[status.name] = {
+          leader: status.leader,
+          isLeader: status.isLeader,
+          instanceId: status.instanceId,
+          ...(status.leaderSince && { leaderSince: status.leaderSince })
+        };
+        return acc;
+      }, {} as Record<string, any>),
       pubky: {
         network: appConfig.pubky.network || 'testnet'
       },
@@ -128,7 +153,7 @@ export function createHealthRouter(services: HealthServices) {
 
 async function checkService(
   name: string,
-  service: { healthCheck: () => Promise<boolean> }
+  service: HealthCheckable
 ): Promise<{
   service: string;
   status: string;
@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { RateLimitService } from '@/services/rate-limit';
+import { asyncHandler, sendErrorResponse } from '@/api/error-handler';
+import { requireAdminAuth } from '@/api/auth';
+
+const TierSchema = z.object({
+  tier: z.string().min(1)
+});
+
+export function createRateLimitRouter(rateLimit: RateLimitService) {
+  const router = Router();
+
+  router.use('/admin/rate-limit', requireAdminAuth);
+
+  // Configured tiers and action costs
+  router.get('/admin/rate-limit', asyncHandler(async (req, res) => {
+    res.status(200).json({
+      tiers: rateLimit.listTiers(),
+      actionCosts: rateLimit.listActionCosts()
+    });
+  }));
+
+  // A user's tier and current window usage
+  router.get('/admin/rate-limit/:publicKey', asyncHandler(async (req, res) => {
+    const status = await rateLimit.getRateLimitStatus(req.params.publicKey);
+    res.status(200).json(status);
+  }));
+
+  // Assign a tier; "default" removes the assignment
+  router.put('/admin/rate-limit/:publicKey/tier', asyncHandler(async (req, res) => {
+    const parsed = TierSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      sendErrorResponse(req, res, 400, 'tier is required');
+      return;
+    }
+
+    const tiers = rateLimit.listTiers();
+    if (!tiers[parsed.data.tier]) {
+      sendErrorResponse(req, res, 400, `Unknown tier "${parsed.data.tier}" (available: ${Object.keys(tiers).join(', ')})`);
+      return;
+    }
+
+    await rateLimit.setTier(req.params.publicKey, parsed.data.tier);
+    res.status(200).json(await rateLimit.getRateLimitStatus(req.params.publicKey));
+  }));
+
+  // Reset the user's current window (keeps their tier)
+  router.delete('/admin/rate-limit/:publicKey', asyncHandler(async (req, res) => {
+    await rateLimit.clearRateLimit(req.params.publicKey);
+    res.status(200).json(await rateLimit.getRateLimitStatus(req.params.publicKey));
+  }));
+
+  return router;
+}
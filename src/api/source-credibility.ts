@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { SourceCredibilityService, normalizeSourcePattern } from '@/services/source-credibility';
+import { asyncHandler, sendErrorResponse } from '@/api/error-handler';
+import { requireAdminAuth } from '@/api/auth';
+
+const RuleSchema = z.object({
+  score: z.number().min(0).max(1).optional(),
+  category: z.string().trim().min(1).max(50).optional(),
+  tier: z.string().trim().min(1).max(50).nullable().optional(),
+  perspective: z.string().trim().max(200).nullable().optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+  actor: z.string().trim().max(100).optional(),   // moderator making the change, for the audit log
+  reason: z.string().trim().max(500).optional()
+});
+
+const AuditSchema = z.object({
+  actor: z.string().trim().max(100).optional(),
+  reason: z.string().trim().max(500).optional()
+});
+
+export function createSourceCredibilityRouter(sourceCredibility: SourceCredibilityService) {
+  const router = Router();
+
+  router.use('/admin/sources', requireAdminAuth);
+
+  // Rules, by pattern: ?q=<pattern or notes text>&category=news
+  router.get('/admin/sources', asyncHandler(async (req, res) => {
+    const q = typeof req.query.q === 'string' ? req.query.q : undefined;
+    const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+
+    const rules = await sourceCredibility.list({ q, category });
+    res.status(200).json({ rules, count: rules.length });
+  }));
+
+  // Which rule a host or URL gets, as workers see it
+  router.get('/admin/sources/lookup/:host', asyncHandler(async (req, res) => {
+    res.status(200).json(sourceCredibility.assess(`https://${req.params.host}`));
+  }));
+
+  // A rule and its change history
+  router.get('/admin/sources/:pattern', asyncHandler(async (req, res) => {
+    const pattern = normalizeSourcePattern(req.params.pattern);
+    if (!pattern) {
+      sendErrorResponse(req, res, 400, 'Invalid pattern (host like "reuters.com" or wildcard like "*.blogspot.com")');
+      return;
+    }
+
+    const rule = await sourceCredibility.get(pattern);
+    const history = await sourceCredibility.history(pattern);
+    if (!rule && history.length === 0) {
+      sendErrorResponse(req, res, 404, `No rule for "${pattern}"`);
+      return;
+    }
+
+    res.status(200).json({ rule, history });
+  }));
+
+  // Create a rule (score required) or change some of its fields
+  router.put('/admin/sources/:pattern', asyncHandler(async (req, res) => {
+    const pattern = normalizeSourcePattern(req.params.pattern);
+    if (!pattern) {
+      sendErrorResponse(req, res, 400, 'Invalid pattern (host like "reuters.com" or wildcard like "*.blogspot.com")');
+      return;
+    }
+
+    const parsed = RuleSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      sendErrorResponse(req, res, 400, 'Invalid rule: score (0-1), category, tier, perspective, notes, actor, reason');
+      return;
+    }
+
+    const { actor, reason, ...change } = parsed.data;
+    const result = await sourceCredibility.upsert(pattern, change, { actor, reason });
+    if (!result) {
+      sendErrorResponse(req, res, 400, 'score is required to create a rule');
+      return;
+    }
+
+    res.status(result.created ? 201 : 200).json(result.rule);
+  }));
+
+  router.delete('/admin/sources/:pattern', asyncHandler(async (req, res) => {
+    const pattern = normalizeSourcePattern(req.params.pattern);
+    const parsed = AuditSchema.safeParse(req.body || {});
+    if (!pattern || !parsed.success) {
+      sendErrorResponse(req, res, 400, 'Invalid pattern or audit fields (actor, reason)');
+      return;
+    }
+
+    const removed = await sourceCredibility.remove(pattern, parsed.data);
+    if (!removed) {
+      sendErrorResponse(req, res, 404, `No rule for "${pattern}"`);
+      return;
+    }
+
+    res.status(200).json({ removed: pattern });
+  }));
+
+  return router;
+}
@@ -0,0 +1,46 @@
+export interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  options: Record<string, string | boolean>;
+}
+
+/**
+ * Minimal `<command> [positional...] [--flag] [--name value]` parser shared by the admin CLIs
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const [command, ...rest] = argv;
+  const positional: string[] = [];
+  const options: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    const next = rest[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      options[name] = next;
+      i++;
+    } else {
+      options[name] = true;
+    }
+  }
+
+  return { command, positional, options };
+}
+
+export function parseDate(value: string | boolean | undefined, name: string): Date | undefined {
+  if (typeof value !== 'string') return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --${name} date: ${value}`);
+  }
+  return date;
+}
+
+export function print(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+}
@@ -0,0 +1,83 @@
+import { redis } from '@/infrastructure/redis/connection';
+import { db } from '@/infrastructure/database/connection';
+import { EventBus } from '@/core/event-bus';
+import { CatchUpOptions, CatchUpService, validateCatchUpWindow } from '@/services/catch-up';
+import { ParsedArgs, parseArgs, parseDate, print } from './args';
+import logger from '@/utils/logger';
+
+const USAGE = `Usage: npm run catch-up -- <command> [options]
+
+Commands:
+  list [window]     Dry run: show the skipped_old mentions a run would process
+  run [window]      Re-process skipped_old mentions; replies apologise for the delay
+
+Window (either --hours or --since is required):
+  --hours <n>             Look back n hours from --until
+  --since <iso-date>      Start of the window
+  --until <iso-date>      End of the window (default now)
+
+Options:
+  --dedupe-per-user       Only answer each user's most recent mention in the window
+  --limit <n>             Maximum mentions to pick up (capped by catchUp.maxMentions)`;
+
+function buildOptions(options: ParsedArgs['options']): CatchUpOptions | null {
+  const until = parseDate(options.until, 'until') || new Date();
+  const hours = typeof options.hours === 'string' ? Number(options.hours) : undefined;
+  const since = parseDate(options.since, 'since') ||
+    (hours && hours > 0 ? new Date(until.getTime() - hours * 60 * 60 * 1000) : undefined);
+
+  if (!since) {
+    return null;
+  }
+
+  const windowError = validateCatchUpWindow(since, until);
+  if (windowError) {
+    throw new Error(windowError);
+  }
+
+  const limit = typeof options.limit === 'string' ? parseInt(options.limit, 10) : undefined;
+
+  return {
+    since,
+    until,
+    dedupePerUser: options['dedupe-per-user'] === true,
+    limit: limit && limit > 0 ? limit : undefined
+  };
+}
+
+export async function runCatchUpCommand(argv: string[]): Promise<number> {
+  const { command, options } = parseArgs(argv);
+
+  if (command === 'list' || command === 'run') {
+    const catchUpOptions = buildOptions(options);
+    if (catchUpOptions) {
+      const catchUp = new CatchUpService(new EventBus());
+      const result = await catchUp.run({ ...catchUpOptions, dryRun: command === 'list' });
+      print(result);
+      return result.failed.length === 0 ? 0 : 1;
+    }
+  }
+
+  process.stderr.write(USAGE + '\n');
+  return 2;
+}
+
+// CLI runner
+if (require.main === module) {
+  const shutdown = async () => {
+    await redis.disconnect().catch(() => undefined);
+    await db.close().catch(() => undefined);
+  };
+
+  redis.connect()
+    .then(() => runCatchUpCommand(process.argv.slice(2)))
+    .then(async (code) => {
+      await shutdown();
+      process.exit(code);
+    })
+    .catch(async (error) => {
+      logger.error('Catch-up command failed:', error);
+      await shutdown();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,100 @@
+import { redis } from '@/infrastructure/redis/connection';
+import { DeadLetterQueue, DlqFilter } from '@/core/dlq';
+import { ParsedArgs, parseArgs, parseDate, print } from './args';
+import logger from '@/utils/logger';
+
+const USAGE = `Usage: npm run dlq -- <command> [options]
+
+Commands:
+  list [filters]                   List dead-lettered events (newest first)
+  show <id>                        Show a single DLQ entry
+  replay <id>                      Replay one entry onto its original stream
+  replay --all [filters]           Replay all entries matching the filters
+  purge --older-than-hours <n>     Delete entries older than n hours
+
+Filters:
+  --stream <key>        Source stream (e.g. pubky:action_summary)
+  --event <type>        Event type (e.g. action.summary.requested.v1)
+  --since <iso-date>    Only entries dead-lettered at or after this time
+  --until <iso-date>    Only entries dead-lettered at or before this time
+  --limit <n>           Maximum entries (default 50, max 500)`;
+
+function buildFilter(options: ParsedArgs['options']): DlqFilter {
+  const limit = typeof options.limit === 'string' ? parseInt(options.limit, 10) : undefined;
+
+  return {
+    sourceStream: typeof options.stream === 'string' ? options.stream : undefined,
+    eventType: typeof options.event === 'string' ? options.event : undefined,
+    since: parseDate(options.since, 'since'),
+    until: parseDate(options.until, 'until'),
+    limit: limit && limit > 0 ? limit : undefined
+  };
+}
+
+export async function runDlqCommand(argv: string[]): Promise<number> {
+  const { command, positional, options } = parseArgs(argv);
+  const dlq = new DeadLetterQueue();
+
+  switch (command) {
+    case 'list': {
+      const entries = await dlq.list(buildFilter(options));
+      print({ count: entries.length, entries });
+      return 0;
+    }
+
+    case 'show': {
+      if (!positional[0]) break;
+      const entry = await dlq.get(positional[0]);
+      if (!entry) {
+        process.stderr.write(`DLQ entry ${positional[0]} not found\n`);
+        return 1;
+      }
+      print(entry);
+      return 0;
+    }
+
+    case 'replay': {
+      if (options.all) {
+        const results = await dlq.replayBatch(buildFilter(options));
+        print({
+          matched: results.length,
+          replayed: results.filter(r => r.replayed).length,
+          results
+        });
+        return results.every(r => r.replayed) ? 0 : 1;
+      }
+
+      if (!positional[0]) break;
+      const result = await dlq.replay(positional[0]);
+      print(result);
+      return result.replayed ? 0 : 1;
+    }
+
+    case 'purge': {
+      const hours = Number(options['older-than-hours']);
+      if (!hours || hours < 1) break;
+      const before = new Date(Date.now() - hours * 60 * 60 * 1000);
+      const purged = await dlq.purge(before);
+      print({ purged, before: before.toISOString() });
+      return 0;
+    }
+  }
+
+  process.stderr.write(USAGE + '\n');
+  return 2;
+}
+
+// CLI runner
+if (require.main === module) {
+  redis.connect()
+    .then(() => runDlqCommand(process.argv.slice(2)))
+    .then(async (code) => {
+      await redis.disconnect();
+      process.exit(code);
+    })
+    .catch(async (error) => {
+      logger.error('DLQ command failed:', error);
+      await redis.disconnect().catch(() => undefined);
+      process.exit(1);
+    });
+}
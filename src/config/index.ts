@@ -44,7 +44,10 @@ function resolveEnvVars(obj: any): any {
         'AI_CLASSIFIER_TEMPERATURE': '0.1',
         'RATE_LIMIT_MAX_REQUESTS': '10',
         'RATE_LIMIT_WINDOW_MINUTES': '120',
-        'BLACKLIST_PUBLIC_KEYS': ''
+        'RATE_LIMIT_NOTICE': 'silent',
+        'SEARCH_PROVIDER': 'openai',
+        'BLACKLIST_PUBLIC_KEYS': '',
+        'WORKER_TYPE': 'all'
       };
 
       return fallbacks[varName] || match;
@@ -98,8 +101,9 @@ function processSpecialValues(obj: any): any {
   if (typeof obj === 'string') {
     // Handle unresolved environment variables (optional fields)
     if (obj.startsWith('${') && obj.endsWith('}')) {
-      // For AI fallback providers, return undefined if not set
-      if (obj === '${AI_FALLBACK_PROVIDERS}') {
+      // Optional settings resolve to undefined if not set
+      // (AI fallback providers, dedicated vision model)
+      if (obj === '${AI_FALLBACK_PROVIDERS}' || obj === '${AI_MODEL_IMAGE}') {
         return undefined;
       }
       // For LOG_LEVEL, return a default based on NODE_ENV if not set
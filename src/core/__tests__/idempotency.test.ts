@@ -0,0 +1,89 @@
+import { IdempotencyService } from '../idempotency';
+import { redis } from '@/infrastructure/redis/connection';
+
+jest.mock('@/infrastructure/redis/connection', () => {
+  // Minimal Redis: string keys with second-based expiry on Date.now()
+  const store = new Map<string, { value: string; expiresAt: number }>();
+  const live = (key: string) => {
+    const entry = store.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const client = {
+    store,
+    set: jest.fn(async (key: string, value: string, options: { NX?: boolean; EX: number }) => {
+      if (options.NX && live(key)) {
+        return null;
+      }
+      store.set(key, { value, expiresAt: Date.now() + options.EX * 1000 });
+      return 'OK';
+    }),
+    get: jest.fn(async (key: string) => live(key)?.value ?? null),
+    del: jest.fn(async (key: string) => (store.delete(key) ? 1 : 0)),
+    eval: jest.fn(async (_script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) => {
+      const entry = live(keys[0]);
+      if (entry?.value !== 'processing') {
+        return 0;
+      }
+      entry.expiresAt = Date.now() + Number(args[0]) * 1000;
+      return 1;
+    })
+  };
+  return { redis: { getClient: () => client } };
+});
+
+const client = redis.getClient() as unknown as { store: Map<string, unknown> };
+
+describe('IdempotencyService', () => {
+  const service = new IdempotencyService();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    client.store.clear();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should rerun a reclaimed message whose handler crashed mid-run', async () => {
+    // First delivery: the worker dies while the handler runs
+    void service.guard('action:factcheck:m1', () => new Promise(() => {}));
+    await Promise.resolve();
+    jest.clearAllTimers();  // the crashed process stops renewing its marker
+
+    const operation = jest.fn().mockResolvedValue({ success: true });
+
+    // Still marked in progress right after the crash
+    expect(await service.guard('action:factcheck:m1', operation)).toEqual({ executed: false });
+
+    // Stream reclaim happens after reclaim.minIdleMs (default 5 minutes)
+    jest.setSystemTime(Date.now() + 5 * 60 * 1000);
+    expect(await service.guard('action:factcheck:m1', operation)).toEqual({
+      executed: true,
+      result: { success: true }
+    });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the marker alive while a slow handler is still running', async () => {
+    let finish: (value: string) => void = () => {};
+    const running = service.guard('action:summary:m2', () => new Promise<string>(resolve => { finish = resolve; }));
+    await Promise.resolve();
+
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+    const duplicate = jest.fn();
+    expect(await service.guard('action:summary:m2', duplicate)).toEqual({ executed: false });
+    expect(duplicate).not.toHaveBeenCalled();
+
+    finish('done');
+    expect(await running).toEqual({ executed: true, result: 'done' });
+    expect(await service.getResult('action:summary:m2')).toBe('done');
+  });
+});
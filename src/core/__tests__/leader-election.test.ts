@@ -0,0 +1,81 @@
+import { LeaderElection } from '../leader-election';
+import { redis } from '@/infrastructure/redis/connection';
+
+jest.mock('@/infrastructure/redis/connection', () => {
+  const client = {
+    set: jest.fn(),
+    get: jest.fn(),
+    eval: jest.fn()
+  };
+  return { redis: { getClient: () => client } };
+});
+
+const client = redis.getClient() as unknown as {
+  set: jest.Mock;
+  get: jest.Mock;
+  eval: jest.Mock;
+};
+
+describe('LeaderElection', () => {
+  const options = { leaseMs: 3000, renewIntervalMs: 1000 };
+  let election: LeaderElection;
+
+  beforeEach(() => {
+    client.set.mockReset();
+    client.get.mockReset();
+    client.eval.mockReset();
+    election = new LeaderElection('test', options, 'instance-a');
+  });
+
+  afterEach(async () => {
+    client.eval.mockResolvedValue(1);
+    await election.stop();
+  });
+
+  it('should become leader when the lock is free', async () => {
+    client.set.mockResolvedValue('OK');
+
+    await election.start();
+
+    expect(election.isLeader()).toBe(true);
+    expect(client.set).toHaveBeenCalledWith('leader:test', 'instance-a', { NX: true, PX: 3000 });
+  });
+
+  it('should stay follower while another instance holds the lock', async () => {
+    client.set.mockResolvedValue(null);
+    client.get.mockResolvedValue('instance-b');
+
+    await election.start();
+    const status = await election.getStatus();
+
+    expect(election.isLeader()).toBe(false);
+    expect(status).toEqual({
+      name: 'test',
+      instanceId: 'instance-a',
+      isLeader: false,
+      leader: 'instance-b'
+    });
+  });
+
+  it('should step down once its lease expires without renewal', async () => {
+    jest.useFakeTimers();
+    try {
+      client.set.mockResolvedValue('OK');
+      await election.start();
+      expect(election.isLeader()).toBe(true);
+
+      // Redis unreachable: renewals fail until the lease runs out
+      client.eval.mockRejectedValue(new Error('connection lost'));
+      jest.advanceTimersByTime(options.leaseMs);
+
+      expect(election.isLeader()).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject a renew interval that is not shorter than the lease', () => {
+    expect(() => new LeaderElection('test', { leaseMs: 1000, renewIntervalMs: 1000 }))
+      .toThrow('renewIntervalMs must be shorter than leaseMs');
+  });
+});
@@ -0,0 +1,73 @@
+import { computeBackoffMs, getRetryPolicy, isRetryableError } from '../retry';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    eventBus: {
+      retry: {
+        maxAttempts: 3,
+        baseDelayMs: 1000,
+        maxDelayMs: 5000,
+        perEvent: {
+          'action.factcheck.requested.v1': { maxAttempts: 2 }
+        }
+      }
+    }
+  }
+}));
+
+describe('retry', () => {
+  describe('isRetryableError', () => {
+    it('should treat generic errors as retryable', () => {
+      expect(isRetryableError(new Error('Request timed out'))).toBe(true);
+    });
+
+    it('should respect an explicit retryable flag', () => {
+      const error = Object.assign(new Error('Quota exhausted'), { retryable: false });
+      expect(isRetryableError(error)).toBe(false);
+    });
+
+    it('should treat known terminal codes as terminal', () => {
+      const error = Object.assign(new Error('Post deleted'), { code: 'POST_DELETED' });
+      expect(isRetryableError(error)).toBe(false);
+    });
+
+    it('should treat malformed envelopes as terminal', () => {
+      let parseError: unknown;
+      try {
+        JSON.parse('{not json');
+      } catch (error) {
+        parseError = error;
+      }
+      expect(isRetryableError(parseError)).toBe(false);
+    });
+  });
+
+  describe('getRetryPolicy', () => {
+    it('should return defaults for events without overrides', () => {
+      expect(getRetryPolicy('action.summary.requested.v1')).toEqual({
+        maxAttempts: 3,
+        baseDelayMs: 1000,
+        maxDelayMs: 5000
+      });
+    });
+
+    it('should merge per-event overrides over the defaults', () => {
+      expect(getRetryPolicy('action.factcheck.requested.v1')).toEqual({
+        maxAttempts: 2,
+        baseDelayMs: 1000,
+        maxDelayMs: 5000
+      });
+    });
+  });
+
+  describe('computeBackoffMs', () => {
+    it('should double the delay per attempt up to the cap', () => {
+      const policy = getRetryPolicy();
+      expect(computeBackoffMs(1, policy)).toBe(1000);
+      expect(computeBackoffMs(2, policy)).toBe(2000);
+      expect(computeBackoffMs(3, policy)).toBe(4000);
+      expect(computeBackoffMs(4, policy)).toBe(5000);
+    });
+  });
+});
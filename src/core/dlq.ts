@@ -0,0 +1,193 @@
+import { EventEnvelope } from './events';
+import { EventBus } from './event-bus';
+import { RedisStreams, StreamMessage } from '@/infrastructure/redis/streams';
+import logger from '@/utils/logger';
+
+export interface DlqEntry {
+  id: string;                  // DLQ stream message id
+  originalMessageId: string;
+  sourceStream: string;
+  groupName?: string;
+  error: Record<string, any>;
+  movedAt: string;
+  envelope: EventEnvelope | null; // null for entries dead-lettered before envelopes were stored
+}
+
+export interface DlqFilter {
+  sourceStream?: string;
+  eventType?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface DlqReplayResult {
+  id: string;
+  replayed: boolean;
+  newMessageId?: string;
+  reason?: string;
+}
+
+/**
+ * Dead letter queue inspection and replay.
+ *
+ * Entries are read from the DLQ stream newest first. Stream ids are millisecond
+ * timestamps, so since/until filters map directly onto XREVRANGE bounds.
+ * Replaying re-adds the original envelope to its source stream and deletes the
+ * DLQ entry; workers' idempotency keys are cleared on failure, so the event is
+ * processed again from scratch.
+ */
+export class DeadLetterQueue {
+  private readonly SCAN_BATCH_SIZE = 100;
+  private readonly DEFAULT_LIMIT = 50;
+  private readonly MAX_LIMIT = 500;
+
+  constructor(private streams: RedisStreams = new RedisStreams()) {}
+
+  async list(filter: DlqFilter = {}): Promise<DlqEntry[]> {
+    const limit = Math.min(filter.limit || this.DEFAULT_LIMIT, this.MAX_LIMIT);
+    const start = filter.since ? String(filter.since.getTime()) : '-';
+    let end = filter.until ? String(filter.until.getTime()) : '+';
+
+    const entries: DlqEntry[] = [];
+
+    // Scan backwards in batches until we have enough matching entries
+    while (entries.length < limit) {
+      const batch = await this.streams.readRange(EventBus.DLQ_STREAM, {
+        start,
+        end,
+        count: this.SCAN_BATCH_SIZE,
+        reverse: true
+      });
+
+      for (const message of batch) {
+        const entry = this.parseEntry(message);
+        if (this.matches(entry, filter)) {
+          entries.push(entry);
+          if (entries.length >= limit) break;
+        }
+      }
+
+      if (batch.length < this.SCAN_BATCH_SIZE) break;
+
+      // Continue just below the oldest id seen (exclusive range)
+      end = `(${batch[batch.length - 1].id}`;
+    }
+
+    return entries;
+  }
+
+  async get(id: string): Promise<DlqEntry | null> {
+    const messages = await this.streams.readRange(EventBus.DLQ_STREAM, {
+      start: id,
+      end: id,
+      count: 1
+    });
+
+    return messages.length > 0 ? this.parseEntry(messages[0]) : null;
+  }
+
+  async replay(id: string): Promise<DlqReplayResult> {
+    const entry = await this.get(id);
+    if (!entry) {
+      return { id, replayed: false, reason: 'Entry not found' };
+    }
+
+    return this.replayEntry(entry);
+  }
+
+  async replayBatch(filter: DlqFilter): Promise<DlqReplayResult[]> {
+    const entries = await this.list(filter);
+    const results: DlqReplayResult[] = [];
+
+    // Replay oldest first to preserve the original ordering
+    for (const entry of entries.reverse()) {
+      results.push(await this.replayEntry(entry));
+    }
+
+    logger.info('DLQ batch replay finished', {
+      matched: entries.length,
+      replayed: results.filter(r => r.replayed).length,
+      filter
+    });
+
+    return results;
+  }
+
+  /**
+   * Delete all DLQ entries dead-lettered before the given date
+   */
+  async purge(before: Date): Promise<number> {
+    const purged = await this.streams.trimOlderThan(EventBus.DLQ_STREAM, before);
+
+    logger.info('DLQ purged', {
+      before: before.toISOString(),
+      purged
+    });
+
+    return purged;
+  }
+
+  private async replayEntry(entry: DlqEntry): Promise<DlqReplayResult> {
+    if (!entry.envelope) {
+      return { id: entry.id, replayed: false, reason: 'Entry has no stored envelope' };
+    }
+
+    try {
+      const newMessageId = await this.streams.addToStream(entry.sourceStream, {
+        envelope: JSON.stringify(entry.envelope)
+      });
+      await this.streams.deleteMessages(EventBus.DLQ_STREAM, [entry.id]);
+
+      logger.info('Replayed DLQ entry', {
+        dlqId: entry.id,
+        sourceStream: entry.sourceStream,
+        eventType: entry.envelope.type,
+        correlationId: entry.envelope.correlationId,
+        newMessageId
+      });
+
+      return { id: entry.id, replayed: true, newMessageId };
+    } catch (error) {
+      logger.error(`Failed to replay DLQ entry ${entry.id}:`, error);
+      return {
+        id: entry.id,
+        replayed: false,
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private matches(entry: DlqEntry, filter: DlqFilter): boolean {
+    if (filter.sourceStream && entry.sourceStream !== filter.sourceStream) {
+      return false;
+    }
+    if (filter.eventType && entry.envelope?.type !== filter.eventType) {
+      return false;
+    }
+    return true;
+  }
+
+  private parseEntry(message: StreamMessage): DlqEntry {
+    const { fields } = message;
+
+    return {
+      id: message.id,
+      originalMessageId: fields.originalMessageId,
+      sourceStream: fields.sourceStream,
+      groupName: fields.groupName,
+      error: this.parseJson(fields.errorData) || {},
+      movedAt: fields.movedAt,
+      envelope: this.parseJson(fields.envelope)
+    };
+  }
+
+  private parseJson(value: string | undefined): any {
+    if (!value) return null;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+}
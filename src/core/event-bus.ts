@@ -1,15 +1,25 @@
 import { EventEnvelope, EventName } from './events';
-import { RedisStreams } from '@/infrastructure/redis/streams';
+import { RedisStreams, StreamMessage } from '@/infrastructure/redis/streams';
+import { RetryPolicy, computeBackoffMs, getRetryPolicy, isRetryableError } from './retry';
+import { MetricsService } from '@/services/metrics';
 import { generateId, generateCorrelationId } from '@/utils/ids';
 import { getCurrentTimestamp } from '@/utils/time';
 import logger from '@/utils/logger';
+import appConfig from '@/config';
+
+export interface SubscribeOptions<T> {
+  // Called once a message is given up on (terminal error, retries or deliveries exhausted)
+  onDeadLetter?: (envelope: EventEnvelope<T>, error: unknown) => Promise<void>;
+}
 
 export class EventBus {
   private streams: RedisStreams;
   private readonly STREAM_PREFIX = 'pubky';
-  private readonly DLQ_STREAM = 'pubky:dlq';
+  private readonly RETRY_CHECK_INTERVAL_MS = 1000;
+  private readonly RETRY_BATCH_SIZE = 10;
+  static readonly DLQ_STREAM = 'pubky:dlq';
 
-  constructor() {
+  constructor(private metrics?: MetricsService) {
     this.streams = new RedisStreams();
   }
 
@@ -49,7 +59,8 @@ export class EventBus {
     eventType: EventName,
     groupName: string,
     consumerName: string,
-    handler: (envelope: EventEnvelope<T>) => Promise<void>
+    handler: (envelope: EventEnvelope<T>) => Promise<void>,
+    options: SubscribeOptions<T> = {}
   ): Promise<void> {
     const streamKey = this.getStreamKey(eventType);
 
@@ -59,17 +70,39 @@ export class EventBus {
     logger.info(`Subscribed to ${eventType} with group ${groupName}, consumer ${consumerName}`);
 
     // Start consuming
-    this.consumeLoop(streamKey, groupName, consumerName, handler);
+    this.consumeLoop(eventType, streamKey, groupName, consumerName, handler, options);
   }
 
   private async consumeLoop<T>(
+    eventType: EventName,
     streamKey: string,
     groupName: string,
     consumerName: string,
-    handler: (envelope: EventEnvelope<T>) => Promise<void>
+    handler: (envelope: EventEnvelope<T>) => Promise<void>,
+    options: SubscribeOptions<T>
   ): Promise<void> {
+    const policy = getRetryPolicy(eventType);
+    const reclaim = appConfig.eventBus.reclaim;
+    let lastRetryCheck = 0;
+    let lastReclaim = 0;
+
     while (true) {
       try {
+        // Take over messages stuck with consumers that died mid-handler
+        if (reclaim.enabled && Date.now() - lastReclaim >= reclaim.intervalMs) {
+          lastReclaim = Date.now();
+          await this.reclaimStaleMessages(streamKey, groupName, consumerName, policy, handler, options);
+        }
+
+        // Redeliver our own failed messages once their backoff has elapsed
+        if (Date.now() - lastRetryCheck >= this.RETRY_CHECK_INTERVAL_MS) {
+          lastRetryCheck = Date.now();
+          const retries = await this.claimDueRetries(streamKey, groupName, consumerName, policy);
+          for (const message of retries) {
+            await this.processMessage(streamKey, groupName, message, handler, options);
+          }
+        }
+
         const messages = await this.streams.readFromGroup(streamKey, {
           groupName,
           consumerName,
@@ -78,35 +111,7 @@ export class EventBus {
         });
 
         for (const message of messages) {
-          try {
-            const envelope = JSON.parse(message.fields.envelope) as EventEnvelope<T>;
-
-            logger.debug(`Processing event ${envelope.type}`, {
-              eventId: envelope.id,
-              correlationId: envelope.correlationId,
-              messageId: message.id
-            });
-
-            await handler(envelope);
-            await this.streams.acknowledgMessage(streamKey, groupName, message.id);
-
-            logger.debug(`Completed event ${envelope.type}`, {
-              eventId: envelope.id,
-              messageId: message.id
-            });
-
-          } catch (error) {
-            logger.error(`Error processing message ${message.id}:`, error);
-
-            // Move to DLQ after 3 retries (simplified - in production would track retry count)
-            await this.streams.moveToDLQ(
-              streamKey,
-              this.DLQ_STREAM,
-              groupName,
-              message.id,
-              { error: error instanceof Error ? error.message : 'Unknown error' }
-            );
-          }
+          await this.processMessage(streamKey, groupName, message, handler, options);
         }
       } catch (error) {
         logger.error(`Error in consume loop for ${streamKey}:`, error);
@@ -116,9 +121,247 @@ export class EventBus {
     }
   }
 
+  private async processMessage<T>(
+    streamKey: string,
+    groupName: string,
+    message: StreamMessage,
+    handler: (envelope: EventEnvelope<T>) => Promise<void>,
+    options: SubscribeOptions<T>
+  ): Promise<void> {
+    let envelope: EventEnvelope<T> | undefined;
+
+    try {
+      envelope = JSON.parse(message.fields.envelope) as EventEnvelope<T>;
+
+      logger.debug(`Processing event ${envelope.type}`, {
+        eventId: envelope.id,
+        correlationId: envelope.correlationId,
+        messageId: message.id
+      });
+
+      await handler(envelope);
+      await this.streams.acknowledgMessage(streamKey, groupName, message.id);
+
+      logger.debug(`Completed event ${envelope.type}`, {
+        eventId: envelope.id,
+        messageId: message.id
+      });
+
+    } catch (error) {
+      await this.handleFailure(streamKey, groupName, message, envelope, error, options);
+    }
+  }
+
+  /**
+   * Failed messages stay unacknowledged in the pending-entries list so they can be
+   * redelivered with backoff. Terminal errors and exhausted retries go to the DLQ.
+   */
+  private async handleFailure<T>(
+    streamKey: string,
+    groupName: string,
+    message: StreamMessage,
+    envelope: EventEnvelope<T> | undefined,
+    error: unknown,
+    options: SubscribeOptions<T>
+  ): Promise<void> {
+    const policy = getRetryPolicy(envelope?.type);
+    const retryable = isRetryableError(error);
+    const attempts = await this.getDeliveryCount(streamKey, groupName, message.id);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (retryable && attempts < policy.maxAttempts) {
+      logger.warn(`Error processing message ${message.id}, will retry`, {
+        eventType: envelope?.type,
+        correlationId: envelope?.correlationId,
+        attempt: attempts,
+        maxAttempts: policy.maxAttempts,
+        retryInMs: computeBackoffMs(attempts, policy),
+        error: errorMessage
+      });
+      return;
+    }
+
+    logger.error(`Error processing message ${message.id}, moving to DLQ:`, {
+      eventType: envelope?.type,
+      correlationId: envelope?.correlationId,
+      attempts,
+      retryable,
+      error: errorMessage
+    });
+
+    const deadLettered = await this.deadLetter(streamKey, groupName, message, {
+      error: errorMessage,
+      code: (error as any)?.code,
+      attempts,
+      retryable
+    });
+    if (deadLettered) {
+      await this.notifyDeadLetter(envelope, error, options);
+    }
+  }
+
+  private async notifyDeadLetter<T>(
+    envelope: EventEnvelope<T> | undefined,
+    error: unknown,
+    options: SubscribeOptions<T>
+  ): Promise<void> {
+    if (!envelope || !options.onDeadLetter) {
+      return;
+    }
+
+    try {
+      await options.onDeadLetter(envelope, error);
+    } catch (callbackError) {
+      logger.error(`Dead-letter callback failed for event ${envelope.id}:`, callbackError);
+    }
+  }
+
+  private async deadLetter(
+    streamKey: string,
+    groupName: string,
+    message: StreamMessage,
+    errorData: Record<string, any>
+  ): Promise<boolean> {
+    try {
+      await this.streams.moveToDLQ(
+        streamKey,
+        EventBus.DLQ_STREAM,
+        groupName,
+        message.id,
+        errorData,
+        message.fields
+      );
+      return true;
+    } catch (dlqError) {
+      // Message stays pending and will be picked up again by the retry check
+      logger.error(`Failed to dead-letter message ${message.id}:`, dlqError);
+      return false;
+    }
+  }
+
+  /**
+   * Claim messages that have been pending longer than reclaim.minIdleMs with any
+   * consumer in the group and process them here. minIdleMs must exceed both the
+   * slowest handler and the retry backoff cap, otherwise live consumers lose
+   * in-flight or backing-off messages. It must also exceed the idempotency
+   * 'processing' TTL (60s): until a crashed handler's marker lapses, a reclaimed
+   * message is acknowledged as already in progress without running.
+   */
+  private async reclaimStaleMessages<T>(
+    streamKey: string,
+    groupName: string,
+    consumerName: string,
+    policy: RetryPolicy,
+    handler: (envelope: EventEnvelope<T>) => Promise<void>,
+    options: SubscribeOptions<T>
+  ): Promise<void> {
+    const { minIdleMs, batchSize } = appConfig.eventBus.reclaim;
+    const { messages } = await this.streams.autoClaim(streamKey, groupName, consumerName, minIdleMs, {
+      count: batchSize
+    });
+
+    if (messages.length === 0) {
+      return;
+    }
+
+    this.metrics?.incrementReclaimedMessages(streamKey, groupName, messages.length);
+    logger.warn(`Reclaimed ${messages.length} stale pending messages on ${streamKey}`, {
+      groupName,
+      consumerName,
+      messageIds: messages.map(m => m.id)
+    });
+
+    for (const message of messages) {
+      // A message that keeps killing its consumer never reaches handleFailure
+      const deliveries = await this.getDeliveryCount(streamKey, groupName, message.id);
+      if (deliveries > policy.maxAttempts) {
+        logger.error(`Message ${message.id} exceeded ${policy.maxAttempts} deliveries, moving to DLQ`, {
+          streamKey,
+          deliveries
+        });
+        const error = Object.assign(
+          new Error('Exceeded max deliveries without completing (consumer crashed or stalled)'),
+          { code: 'MAX_DELIVERIES_EXCEEDED', retryable: false }
+        );
+        const deadLettered = await this.deadLetter(streamKey, groupName, message, {
+          error: error.message,
+          code: error.code,
+          attempts: deliveries,
+          retryable: false
+        });
+        if (deadLettered) {
+          await this.notifyDeadLetter(this.parseEnvelope<T>(message), error, options);
+        }
+        continue;
+      }
+
+      await this.processMessage(streamKey, groupName, message, handler, options);
+    }
+  }
+
+  private parseEnvelope<T>(message: StreamMessage): EventEnvelope<T> | undefined {
+    try {
+      return JSON.parse(message.fields.envelope) as EventEnvelope<T>;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async getDeliveryCount(streamKey: string, groupName: string, messageId: string): Promise<number> {
+    try {
+      const [entry] = await this.streams.getPendingEntries(streamKey, groupName, {
+        start: messageId,
+        end: messageId,
+        count: 1
+      });
+      return entry?.deliveries ?? 1;
+    } catch (error) {
+      // Assume first delivery; the message will be retried rather than lost
+      logger.warn(`Could not read delivery count for message ${messageId}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return 1;
+    }
+  }
+
+  private async claimDueRetries(
+    streamKey: string,
+    groupName: string,
+    consumerName: string,
+    policy: RetryPolicy
+  ): Promise<StreamMessage[]> {
+    const pending = await this.streams.getPendingEntries(streamKey, groupName, {
+      consumerName,
+      count: this.RETRY_BATCH_SIZE
+    });
+
+    const due = pending.filter(entry => entry.idleMs >= computeBackoffMs(entry.deliveries, policy));
+    if (due.length === 0) {
+      return [];
+    }
+
+    // Claiming bumps the delivery count, which drives the next backoff step
+    const minIdleMs = Math.min(...due.map(entry => computeBackoffMs(entry.deliveries, policy)));
+    const claimed = await this.streams.claimMessages(
+      streamKey,
+      groupName,
+      consumerName,
+      minIdleMs,
+      due.map(entry => entry.id)
+    );
+
+    if (claimed.length > 0) {
+      logger.debug(`Retrying ${claimed.length} pending messages on ${streamKey}`, {
+        messageIds: claimed.map(m => m.id)
+      });
+    }
+
+    return claimed;
+  }
+
   async initializeStreams(): Promise<void> {
     // Create DLQ stream
-    await this.streams.createConsumerGroup(this.DLQ_STREAM, 'dlq-processors', '0');
+    await this.streams.createConsumerGroup(EventBus.DLQ_STREAM, 'dlq-processors', '0');
     logger.info('Event bus initialized');
   }
 }
\ No newline at end of file
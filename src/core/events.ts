@@ -1,11 +1,13 @@
+import type { MentionOptions } from '@/utils/mention-options';
+
+// Actions are registered at runtime (see src/actions/registry.ts)
+export type ActionId = string;
+
+export type ActionEventName = `action.${ActionId}.${'requested' | 'completed' | 'failed'}.v1`;
+
 export type EventName =
   | 'mention.received.v1'
-  | 'action.summary.requested.v1'
-  | 'action.summary.completed.v1'
-  | 'action.summary.failed.v1'
-  | 'action.factcheck.requested.v1'
-  | 'action.factcheck.completed.v1'
-  | 'action.factcheck.failed.v1';
+  | ActionEventName;
 
 export interface EventEnvelope<T = any> {
   id: string;
@@ -24,13 +26,18 @@ export interface MentionReceivedV1 {
   url?: string;
   ts: string;
   metadata?: Record<string, any>;
+  inReplyTo?: string; // URI of the post the mention replies to
+  delayed?: boolean;  // re-emitted by catch-up after being skipped as too old
 }
 
 export interface ActionRequestedV1 {
   mentionId: string;
   postId: string;
   parentUri?: string;
-  intent: 'summary' | 'factcheck';
+  intent: ActionId;
+  delayed?: boolean;        // reply should apologise for the delay
+  options?: MentionOptions; // style, length, language, sources requested in the mention
+  params: Record<string, unknown>; // action-specific data filled by the action's buildRequest
 }
 
 export interface ActionCompletedV1 {
@@ -6,8 +6,19 @@ export interface IdempotencyResult<T> {
   result?: T;
 }
 
+// Only extend the marker while the operation is still running
+const HEARTBEAT_SCRIPT = `
+if redis.call('GET', KEYS[1]) == 'processing' then
+  return redis.call('EXPIRE', KEYS[1], ARGV[1])
+end
+return 0`;
+
 export class IdempotencyService {
   private readonly TTL_SECONDS = 86400; // 24 hours
+  // The 'processing' marker expires quickly unless its owner keeps renewing it, so an
+  // operation whose worker crashed can run again (stream reclaim, DLQ replay)
+  private readonly PROCESSING_TTL_SECONDS = 60;
+  private readonly HEARTBEAT_INTERVAL_MS = 20000;
   private readonly KEY_PREFIX = 'idempotent';
 
   async guard<T>(
@@ -17,13 +28,14 @@ export class IdempotencyService {
   ): Promise<IdempotencyResult<T>> {
     const fullKey = `${this.KEY_PREFIX}:${key}`;
     const ttl = ttlSeconds || this.TTL_SECONDS;
+    let heartbeat: NodeJS.Timeout | null = null;
 
     try {
       // Try to set the key if it doesn't exist
       const client = redis.getClient();
       const wasSet = await client.set(fullKey, 'processing', {
         NX: true, // Only set if key doesn't exist
-        EX: ttl
+        EX: this.PROCESSING_TTL_SECONDS
       });
 
       if (!wasSet) {
@@ -44,16 +56,30 @@ export class IdempotencyService {
         }
       }
 
+      heartbeat = setInterval(() => {
+        client.eval(HEARTBEAT_SCRIPT, {
+          keys: [fullKey],
+          arguments: [String(this.PROCESSING_TTL_SECONDS)]
+        }).catch(error => logger.warn(`Failed to renew idempotency key ${key}:`, error));
+      }, this.HEARTBEAT_INTERVAL_MS);
+
       // Execute the operation
       logger.debug(`Executing operation with idempotency key ${key}`);
       const result = await operation();
 
+      clearInterval(heartbeat);
+      heartbeat = null;
+
       // Store the result
       await client.set(fullKey, JSON.stringify(result), { EX: ttl });
 
       return { executed: true, result };
 
     } catch (error) {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+      }
+
       // Clean up the processing lock on error
       try {
         await redis.getClient().del(fullKey);
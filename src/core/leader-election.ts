@@ -0,0 +1,191 @@
+import { redis } from '@/infrastructure/redis/connection';
+import { getInstanceId } from '@/utils/ids';
+import logger from '@/utils/logger';
+
+export interface LeaderElectionOptions {
+  leaseMs: number;          // lock TTL; a dead leader is replaced after at most this long
+  renewIntervalMs: number;  // how often the leader renews / followers try to acquire
+}
+
+const DEFAULT_OPTIONS: LeaderElectionOptions = {
+  leaseMs: 30000,
+  renewIntervalMs: 10000
+};
+
+export interface LeadershipStatus {
+  name: string;
+  instanceId: string;
+  isLeader: boolean;
+  leader: string | null;    // instance currently holding the lease, if any
+  leaderSince?: string;     // when this instance acquired leadership
+}
+
+// Only touch the lock if we still own it
+const RENEW_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+/**
+ * Lease-based leader election on a Redis key (SET NX PX).
+ *
+ * The leader renews its lease every renewIntervalMs; followers try to acquire on
+ * the same schedule, so failover happens once a crashed leader's lease expires.
+ * If renewals fail (e.g. Redis unreachable) the instance considers itself a
+ * follower as soon as its last confirmed lease runs out.
+ */
+export class LeaderElection {
+  private readonly KEY_PREFIX = 'leader';
+  private leader = false;
+  private leaseExpiresAt = 0;
+  private leaderSince: Date | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly options: LeaderElectionOptions;
+
+  constructor(
+    private name: string,
+    options: Partial<LeaderElectionOptions> = {},
+    private instanceId: string = getInstanceId()
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    if (this.options.renewIntervalMs >= this.options.leaseMs) {
+      throw new Error(`Leader election renewIntervalMs must be shorter than leaseMs (${name})`);
+    }
+  }
+
+  private get key(): string {
+    return `${this.KEY_PREFIX}:${this.name}`;
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    await this.tick();
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error(`Leader election tick failed for ${this.name}:`, error));
+    }, this.options.renewIntervalMs);
+
+    logger.info(`Leader election started for ${this.name}`, {
+      instanceId: this.instanceId,
+      isLeader: this.isLeader()
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (!this.leader) {
+      return;
+    }
+
+    // Release explicitly so a follower can take over without waiting for the lease
+    try {
+      await redis.getClient().eval(RELEASE_SCRIPT, {
+        keys: [this.key],
+        arguments: [this.instanceId]
+      });
+      logger.info(`Released leadership for ${this.name}`, { instanceId: this.instanceId });
+    } catch (error) {
+      logger.warn(`Failed to release leadership for ${this.name}; lease will expire`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    this.setLeader(false);
+  }
+
+  isLeader(): boolean {
+    return this.leader && Date.now() < this.leaseExpiresAt;
+  }
+
+  async getLeader(): Promise<string | null> {
+    return redis.getClient().get(this.key);
+  }
+
+  async getStatus(): Promise<LeadershipStatus> {
+    let leader: string | null = null;
+    try {
+      leader = await this.getLeader();
+    } catch (error) {
+      logger.debug(`Failed to read leader for ${this.name}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    return {
+      name: this.name,
+      instanceId: this.instanceId,
+      isLeader: this.isLeader(),
+      leader,
+      ...(this.leaderSince && this.isLeader() && { leaderSince: this.leaderSince.toISOString() })
+    };
+  }
+
+  private async tick(): Promise<void> {
+    const client = redis.getClient();
+    const attemptedAt = Date.now();
+
+    try {
+      if (this.leader) {
+        const renewed = await client.eval(RENEW_SCRIPT, {
+          keys: [this.key],
+          arguments: [this.instanceId, String(this.options.leaseMs)]
+        });
+
+        if (renewed === 1) {
+          this.leaseExpiresAt = attemptedAt + this.options.leaseMs;
+          return;
+        }
+
+        logger.warn(`Lost leadership for ${this.name}`, { instanceId: this.instanceId });
+        this.setLeader(false);
+      }
+
+      const acquired = await client.set(this.key, this.instanceId, {
+        NX: true,
+        PX: this.options.leaseMs
+      });
+
+      if (acquired) {
+        this.leaseExpiresAt = attemptedAt + this.options.leaseMs;
+        this.setLeader(true);
+      }
+    } catch (error) {
+      // Keep the current state until the confirmed lease expires (see isLeader)
+      logger.warn(`Leader election for ${this.name} could not reach Redis`, {
+        instanceId: this.instanceId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      if (this.leader && Date.now() >= this.leaseExpiresAt) {
+        this.setLeader(false);
+      }
+    }
+  }
+
+  private setLeader(leader: boolean): void {
+    if (leader === this.leader) {
+      return;
+    }
+
+    this.leader = leader;
+    this.leaderSince = leader ? new Date() : null;
+
+    if (leader) {
+      logger.info(`Acquired leadership for ${this.name}`, { instanceId: this.instanceId });
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import appConfig from '@/config';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Error codes that will fail the same way on every attempt
+const TERMINAL_ERROR_CODES = new Set([
+  'POST_DELETED',
+  'INVALID_EVENT'
+]);
+
+/**
+ * Decide whether a failed event is worth redelivering.
+ *
+ * An explicit `retryable` flag on the error wins (same meaning as
+ * ActionFailedV1.retryable). Otherwise known terminal codes, malformed
+ * envelopes and schema validation errors are terminal; everything else
+ * (timeouts, provider outages, network errors) is retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return true;
+  }
+
+  const err = error as { retryable?: unknown; code?: unknown; name?: unknown };
+
+  if (typeof err.retryable === 'boolean') {
+    return err.retryable;
+  }
+
+  if (typeof err.code === 'string' && TERMINAL_ERROR_CODES.has(err.code)) {
+    return false;
+  }
+
+  if (error instanceof SyntaxError || err.name === 'ZodError') {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Retry policy for an event type: per-event overrides on top of the defaults
+ */
+export function getRetryPolicy(eventType?: string): RetryPolicy {
+  const { maxAttempts, baseDelayMs, maxDelayMs, perEvent } = appConfig.eventBus.retry;
+  const override = (eventType && perEvent[eventType]) || {};
+
+  return {
+    maxAttempts: override.maxAttempts ?? maxAttempts,
+    baseDelayMs: override.baseDelayMs ?? baseDelayMs,
+    maxDelayMs: override.maxDelayMs ?? maxDelayMs
+  };
+}
+
+/**
+ * Exponential backoff before the next delivery: base * 2^(attempt - 1), capped at maxDelayMs.
+ * `attempt` is the number of deliveries that have already failed (1-based).
+ */
+export function computeBackoffMs(attempt: number, policy: RetryPolicy): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(policy.baseDelayMs * Math.pow(2, exponent), policy.maxDelayMs);
+}
@@ -0,0 +1,17 @@
+import appConfig from '@/config';
+import { INFRASTRUCTURE_ROLES, WorkerRole } from '@/types/config';
+
+/**
+ * Whether this process runs the given component (WORKER_TYPE, comma-separated)
+ */
+export function runsRole(role: WorkerRole, roles: WorkerRole[] = appConfig.worker.roles): boolean {
+  return roles.includes('all') || roles.includes(role);
+}
+
+/**
+ * Roles that are neither infrastructure roles nor known action ids
+ */
+export function findUnknownRoles(actionIds: string[], roles: WorkerRole[] = appConfig.worker.roles): string[] {
+  const known = new Set<string>([...INFRASTRUCTURE_ROLES, ...actionIds]);
+  return roles.filter(role => !known.has(role));
+}
@@ -0,0 +1,10 @@
+-- Per-user daily token budget overrides
+-- Users without a row here fall back to budget.defaultDailyTokens from config
+
+CREATE TABLE IF NOT EXISTS budget_overrides (
+  public_key      TEXT PRIMARY KEY,
+  daily_tokens    INTEGER NOT NULL CHECK (daily_tokens >= 0),  -- 0 blocks all AI work for the user
+  reason          TEXT,  -- Why the override exists (trusted user, abuse, etc.)
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
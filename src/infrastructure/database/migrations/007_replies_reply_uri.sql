@@ -0,0 +1,4 @@
+-- Look up the bot's own replies by URI
+-- The router checks every mention's parent against this to detect follow-up questions
+
+CREATE INDEX IF NOT EXISTS idx_replies_reply_uri ON replies(reply_uri);
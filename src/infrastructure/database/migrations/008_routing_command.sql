@@ -0,0 +1,4 @@
+-- Record the /command a mention started with, if any
+-- NULL for mentions routed by heuristics, the classifier or follow-up detection
+
+ALTER TABLE routing_decisions ADD COLUMN IF NOT EXISTS command TEXT;
@@ -0,0 +1,18 @@
+-- Fact-check search results shared by every worker replica and kept across restarts
+-- Keyed by normalised claim text; tokens are the claim's content words for near-duplicate lookup
+
+CREATE TABLE IF NOT EXISTS evidence_cache (
+  claim_key       TEXT PRIMARY KEY,
+  claim_text      TEXT NOT NULL,
+  tokens          TEXT[] NOT NULL,
+  results_json    JSONB NOT NULL,
+  label           TEXT,  -- verdict reached from unrestricted results; NULL after a domain-restricted search
+  verdict         TEXT,  -- assessment that reached the label; NULL whenever label is NULL
+  category        TEXT,  -- most short-lived source category among the results, which set the TTL
+  hits            INTEGER NOT NULL DEFAULT 0,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at      TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_evidence_cache_tokens ON evidence_cache USING GIN (tokens);
+CREATE INDEX IF NOT EXISTS idx_evidence_cache_expires_at ON evidence_cache(expires_at);
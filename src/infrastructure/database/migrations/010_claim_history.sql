@@ -0,0 +1,20 @@
+-- Claims verified by completed fact-checks, one row per claim, indexed from factcheck artifacts
+-- Lets a repeated claim be answered with its previous verdict and makes past checks searchable
+
+CREATE TABLE IF NOT EXISTS claim_history (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  execution_id    UUID NOT NULL REFERENCES action_executions(id) ON DELETE CASCADE,
+  mention_id      TEXT NOT NULL,
+  claim_text      TEXT NOT NULL,
+  claim_key       TEXT NOT NULL,   -- normalised claim text
+  label           TEXT NOT NULL,   -- true|false|misleading|unverifiable
+  verdict         TEXT NOT NULL,
+  confidence      REAL NOT NULL,
+  source_url      TEXT,
+  source_title    TEXT,
+  checked_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_history_key ON claim_history(claim_key);
+CREATE INDEX IF NOT EXISTS idx_claim_history_checked_at ON claim_history(checked_at);
+CREATE INDEX IF NOT EXISTS idx_claim_history_execution ON claim_history(execution_id);
@@ -0,0 +1,27 @@
+-- Source credibility registry, editable through the admin API
+-- Seeded from config/source-credibility.json on first start; workers reload it when the audit log grows
+
+CREATE TABLE IF NOT EXISTS source_credibility (
+  pattern         TEXT PRIMARY KEY,  -- host ("reuters.com") or wildcard ("*.blogspot.com", "*.gov")
+  score           REAL NOT NULL CHECK (score >= 0 AND score <= 1),
+  category        TEXT NOT NULL DEFAULT 'unknown',  -- news|scientific|health|factcheck|government|content_farm|...
+  tier            TEXT,  -- premium|standard|low|...
+  perspective     TEXT,
+  notes           TEXT,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Every create, update and delete, with the previous and new rule
+CREATE TABLE IF NOT EXISTS source_credibility_audit (
+  id              BIGSERIAL PRIMARY KEY,  -- highest id is the registry version
+  pattern         TEXT NOT NULL,
+  action          TEXT NOT NULL,  -- create|update|delete
+  before_json     JSONB,
+  after_json      JSONB,
+  actor           TEXT,
+  reason          TEXT,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_credibility_audit_pattern ON source_credibility_audit(pattern, created_at);
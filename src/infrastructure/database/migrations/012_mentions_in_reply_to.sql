@@ -0,0 +1,4 @@
+-- Record the post a mention replies to, so re-processed mentions (catch-up) still
+-- reach follow-up routing when they answer one of the bot's replies
+
+ALTER TABLE mentions ADD COLUMN IF NOT EXISTS in_reply_to TEXT;
@@ -0,0 +1,4 @@
+-- Tell action replies apart from notices (e.g. rate-limit notices)
+-- Follow-up detection only treats action replies as something to continue
+
+ALTER TABLE replies ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'action';  -- action|notice
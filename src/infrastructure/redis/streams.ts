@@ -7,6 +7,13 @@ export interface StreamMessage {
   fields: Record<string, string>;
 }
 
+export interface PendingEntry {
+  id: string;
+  consumer: string;
+  idleMs: number;     // time since last delivery
+  deliveries: number; // delivery count, incremented on every read/claim
+}
+
 export interface ConsumerGroupOptions {
   groupName: string;
   consumerName: string;
@@ -91,33 +98,197 @@ export class RedisStreams {
     }
   }
 
+  /**
+   * Entries from the group's pending-entries list (PEL), with delivery counts
+   */
+  async getPendingEntries(
+    streamKey: string,
+    groupName: string,
+    options: {
+      consumerName?: string;
+      start?: string;
+      end?: string;
+      count?: number;
+      minIdleMs?: number;
+    } = {}
+  ): Promise<PendingEntry[]> {
+    try {
+      const entries = await this.client.xPendingRange(
+        streamKey,
+        groupName,
+        options.start || '-',
+        options.end || '+',
+        options.count || 10,
+        {
+          ...(options.consumerName && { consumer: options.consumerName }),
+          ...(options.minIdleMs && { IDLE: options.minIdleMs })
+        }
+      );
+
+      return entries.map(entry => ({
+        id: String(entry.id),
+        consumer: String(entry.owner),
+        idleMs: entry.millisecondsSinceLastDelivery,
+        deliveries: entry.deliveriesCounter
+      }));
+    } catch (error) {
+      logger.error(`Failed to read pending entries for group ${groupName} on stream ${streamKey}:`, error);
+      throw error;
+    }
+  }
+
   async getPendingMessages(
     streamKey: string,
     groupName: string,
     consumerName: string
   ): Promise<StreamMessage[]> {
     try {
-      const pending = await this.client.xPending(streamKey, groupName) as any;
+      const pending = await this.getPendingEntries(streamKey, groupName, {
+        consumerName,
+        count: 100
+      });
 
-      if (!pending || !pending.consumers) {
+      if (pending.length === 0) {
         return [];
       }
 
-      const consumerPending = pending.consumers.filter((p: any) => p.name === consumerName);
+      const pendingIds = new Set(pending.map(p => p.id));
+      const messages = await this.client.xRange(streamKey, pending[0].id, pending[pending.length - 1].id);
 
-      if (consumerPending.length === 0) {
-        return [];
-      }
+      return messages
+        .filter(msg => pendingIds.has(msg.id))
+        .map(msg => ({
+          id: msg.id,
+          fields: msg.message as Record<string, string>
+        }));
+    } catch (error) {
+      logger.error(`Failed to get pending messages for ${consumerName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take ownership of pending messages idle for at least minIdleMs (XCLAIM).
+   * Each claim increments the message's delivery count. Messages deleted from
+   * the stream while pending are dropped from the result.
+   */
+  async claimMessages(
+    streamKey: string,
+    groupName: string,
+    consumerName: string,
+    minIdleMs: number,
+    messageIds: string[]
+  ): Promise<StreamMessage[]> {
+    if (messageIds.length === 0) {
+      return [];
+    }
 
-      const messageIds = consumerPending.map((p: any) => p.name);
-      const messages = await this.client.xRange(streamKey, messageIds[0], messageIds[messageIds.length - 1]);
+    try {
+      const messages = await this.client.xClaim(streamKey, groupName, consumerName, minIdleMs, messageIds);
+
+      return messages
+        .filter((msg): msg is NonNullable<typeof msg> => msg !== null)
+        .map(msg => ({
+          id: msg.id,
+          fields: msg.message as Record<string, string>
+        }));
+    } catch (error) {
+      logger.error(`Failed to claim messages on stream ${streamKey}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim pending messages idle for at least minIdleMs from any consumer in the
+   * group (XAUTOCLAIM). Returns the cursor for the next scan; '0-0' means the
+   * whole pending list has been scanned.
+   */
+  async autoClaim(
+    streamKey: string,
+    groupName: string,
+    consumerName: string,
+    minIdleMs: number,
+    options: { start?: string; count?: number } = {}
+  ): Promise<{ nextId: string; messages: StreamMessage[] }> {
+    try {
+      const result = await this.client.xAutoClaim(
+        streamKey,
+        groupName,
+        consumerName,
+        minIdleMs,
+        options.start || '0-0',
+        { COUNT: options.count || 10 }
+      );
+
+      return {
+        nextId: String(result.nextId),
+        messages: result.messages
+          .filter((msg): msg is NonNullable<typeof msg> => msg !== null)
+          .map(msg => ({
+            id: msg.id,
+            fields: msg.message as Record<string, string>
+          }))
+      };
+    } catch (error) {
+      logger.error(`Failed to auto-claim messages on stream ${streamKey}:`, error);
+      throw error;
+    }
+  }
+
+  async readRange(
+    streamKey: string,
+    options: {
+      start?: string;
+      end?: string;
+      count?: number;
+      reverse?: boolean;
+    } = {}
+  ): Promise<StreamMessage[]> {
+    try {
+      const start = options.start || '-';
+      const end = options.end || '+';
+      const rangeOptions = options.count ? { COUNT: options.count } : undefined;
+
+      // XREVRANGE takes (end, start) - newest first
+      const messages = options.reverse
+        ? await this.client.xRevRange(streamKey, end, start, rangeOptions)
+        : await this.client.xRange(streamKey, start, end, rangeOptions);
 
       return messages.map(msg => ({
         id: msg.id,
         fields: msg.message as Record<string, string>
       }));
     } catch (error) {
-      logger.error(`Failed to get pending messages for ${consumerName}:`, error);
+      logger.error(`Failed to read range from stream ${streamKey}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteMessages(streamKey: string, messageIds: string[]): Promise<number> {
+    if (messageIds.length === 0) {
+      return 0;
+    }
+
+    try {
+      const deleted = await this.client.xDel(streamKey, messageIds);
+      logger.debug(`Deleted ${deleted} messages from stream ${streamKey}`);
+      return deleted;
+    } catch (error) {
+      logger.error(`Failed to delete messages from stream ${streamKey}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove all entries older than the given timestamp (XTRIM MINID)
+   */
+  async trimOlderThan(streamKey: string, before: Date): Promise<number> {
+    try {
+      const trimmed = await this.client.xTrim(streamKey, 'MINID', before.getTime());
+      logger.debug(`Trimmed ${trimmed} messages from stream ${streamKey}`);
+      return trimmed;
+    } catch (error) {
+      logger.error(`Failed to trim stream ${streamKey}:`, error);
       throw error;
     }
   }
@@ -127,15 +298,18 @@ export class RedisStreams {
     dlqStream: string,
     groupName: string,
     messageId: string,
-    errorData: any
+    errorData: any,
+    originalFields?: Record<string, string>
   ): Promise<void> {
     try {
-      // Add to DLQ with error context
+      // Add to DLQ with error context and the original envelope (needed for replay)
       await this.addToStream(dlqStream, {
         originalMessageId: messageId,
         sourceStream,
+        groupName,
         errorData: JSON.stringify(errorData),
-        movedAt: new Date().toISOString()
+        movedAt: new Date().toISOString(),
+        ...(originalFields?.envelope && { envelope: originalFields.envelope })
       });
 
       // Acknowledge the original message
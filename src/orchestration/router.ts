@@ -1,13 +1,20 @@
 import { EventBus } from '@/core/event-bus';
-import { MentionReceivedV1, ActionRequestedV1 } from '@/core/events';
+import { MentionReceivedV1, ActionRequestedV1, ActionId } from '@/core/events';
 import { ClassifierService } from '@/services/classifier';
 import { IdempotencyService } from '@/core/idempotency';
 import { MetricsService } from '@/services/metrics';
-import { RateLimitService } from '@/services/rate-limit';
+import { RateLimitService, RateLimitResult } from '@/services/rate-limit';
 import { BlacklistService } from '@/services/blacklist';
+import { BudgetService } from '@/services/budget';
+import { ConversationService } from '@/services/conversation';
+import { ReplyService } from '@/services/reply';
 import { db } from '@/infrastructure/database/connection';
 import { RoutingDecision } from './types';
+import { actionRegistry } from '@/actions';
+import { parseMentionOptions } from '@/utils/mention-options';
+import { parseCommand } from '@/utils/commands';
 import appConfig from '@/config';
+import { generateConsumerName } from '@/utils/ids';
 import logger from '@/utils/logger';
 
 export class Router {
@@ -17,14 +24,17 @@ export class Router {
     private idempotency: IdempotencyService,
     private metrics: MetricsService,
     private rateLimit: RateLimitService,
-    private blacklist: BlacklistService
+    private blacklist: BlacklistService,
+    private budget: BudgetService,
+    private conversation: ConversationService,
+    private replyService: ReplyService
   ) {}
 
   async start(): Promise<void> {
     await this.eventBus.subscribe(
       'mention.received.v1',
       'router',
-      'router-001',
+      generateConsumerName('router'),
       this.handleMentionReceived.bind(this)
     );
 
@@ -68,31 +78,36 @@ export class Router {
             };
           }
 
-          // Check rate limit BEFORE processing (prevents costly AI calls)
-          const rateLimitResult = await this.rateLimit.checkRateLimit(
-            data.mentionedBy,
-            data.mentionId
-          );
+          // Check rate limit BEFORE processing (prevents costly AI calls).
+          // Only a peek: the request is charged its action's cost once routed
+          const rateLimitResult = await this.rateLimit.peekRateLimit(data.mentionedBy);
 
           if (!rateLimitResult.allowed) {
-            logger.warn('Mention rate limited - ignoring request', {
-              mentionId: data.mentionId,
-              publicKey: data.mentionedBy,
-              currentCount: rateLimitResult.currentCount,
-              limit: rateLimitResult.limit,
-              windowMinutes: rateLimitResult.windowMinutes,
-              retryAfterSeconds: rateLimitResult.retryAfterSeconds
-            });
-
-            this.metrics.incrementActions('routing', 'rate_limited');
+            return this.rateLimited(data, rateLimitResult);
+          }
 
-            // Return a special result to indicate rate limiting
-            return {
-              intent: 'rate_limited' as const,
-              confidence: 1.0,
-              reason: `Rate limit exceeded: ${rateLimitResult.currentCount}/${rateLimitResult.limit} requests in ${rateLimitResult.windowMinutes} minutes`,
-              method: 'rate_limit' as const
-            };
+          // Check daily token budget (usage recorded by workers in token_usage).
+          // /help and /usage make no AI calls and must still answer users over budget
+          if (appConfig.budget.enabled && !this.isBudgetExemptCommand(data.content)) {
+            const budgetResult = await this.budget.checkBudget(data.mentionedBy);
+
+            if (!budgetResult.allowed) {
+              logger.warn('Mention over daily token budget - ignoring request', {
+                mentionId: data.mentionId,
+                publicKey: data.mentionedBy,
+                usedTokens: budgetResult.usedTokens,
+                dailyLimit: budgetResult.dailyLimit
+              });
+
+              this.metrics.incrementActions('routing', 'budget_exceeded');
+
+              return {
+                intent: 'budget_exceeded' as const,
+                confidence: 1.0,
+                reason: `Daily token budget exceeded: ${budgetResult.usedTokens}/${budgetResult.dailyLimit} tokens used today`,
+                method: 'budget' as const
+              };
+            }
           }
 
           // Existing processing logic
@@ -126,6 +141,15 @@ export class Router {
         return;
       }
 
+      // Log budget exceeded requests differently
+      if (result.result?.intent === 'budget_exceeded') {
+        logger.info('Mention processed but daily budget exceeded', {
+          mentionId: data.mentionId,
+          reason: result.result.reason
+        });
+        return;
+      }
+
       logger.debug('Mention routing completed', {
         mentionId: data.mentionId,
         runId,
@@ -160,31 +184,49 @@ export class Router {
       status: 'processing' as const
     };
 
-    // Classify intent
-    const decision = await this.classifier.routeMention(mention);
+    // An explicit /command wins; replies to the bot's own replies continue that
+    // conversation; otherwise classify
+    const decision = this.detectCommand(data) ||
+      await this.detectFollowUp(data) ||
+      await this.classifier.routeMention(mention);
 
     // Store routing decision for audit
     await this.storeRoutingDecision(data.mentionId, decision);
 
-    // Route to appropriate action if intent is known
-    if (decision.intent !== 'unknown') {
-      await this.emitActionEvent(data, decision.intent, runId);
-      this.metrics.incrementActions('routing', 'completed');
-    } else {
+    // Actions behind a disabled feature flag have no worker consuming them
+    if (actionRegistry.has(decision.intent) && !actionRegistry.isEnabled(decision.intent)) {
+      logger.info('Intent feature disabled - no action taken', {
+        mentionId: data.mentionId,
+        intent: decision.intent
+      });
+
+      decision.reason = `${decision.reason} (${decision.intent} feature disabled)`;
+      decision.intent = 'unknown';
+    }
+
+    if (!actionRegistry.isEnabled(decision.intent)) {
       logger.debug('Unknown intent, no action taken', {
         mentionId: data.mentionId,
         decision
       });
 
-      // Conservative fallback: Only default to summary if extremely uncertain
-      if (appConfig.features.summary && this.shouldDefaultToSummary(decision)) {
+      // Conservative fallback: a direct question is answered from the thread, not summarised
+      if (actionRegistry.isEnabled('ask') && this.shouldDefaultToAsk(decision, data.content)) {
+        logger.warn('Defaulting unknown intent to ask (question, very low confidence)', {
+          mentionId: data.mentionId,
+          confidence: decision.confidence,
+          reason: decision.reason
+        });
+
+        decision.intent = 'ask';
+        decision.reason = `${decision.reason} (defaulted to ask: mention is a question)`;
+      } else if (actionRegistry.isEnabled('summary') && this.shouldDefaultToSummary(decision)) {
         logger.warn('Defaulting unknown intent to summary (very low confidence)', {
           mentionId: data.mentionId,
           confidence: decision.confidence,
           reason: decision.reason
         });
 
-        await this.emitActionEvent(data, 'summary', runId);
         decision.intent = 'summary';
         decision.reason = `${decision.reason} (defaulted to summary due to extreme uncertainty)`;
       } else {
@@ -193,22 +235,186 @@ export class Router {
           confidence: decision.confidence
         });
       }
+    }
+
+    // Charge the action's cost now that it is known; unknown intents still cost 1
+    // since classifying them wasn't free
+    const rateLimitResult = await this.rateLimit.checkRateLimit(
+      data.mentionedBy,
+      data.mentionId,
+      this.rateLimit.getActionCost(decision.intent)
+    );
 
-      this.metrics.incrementActions('routing', 'completed');
+    if (!rateLimitResult.allowed) {
+      return this.rateLimited(data, rateLimitResult);
+    }
+
+    // Route to appropriate action if intent is known
+    if (actionRegistry.isEnabled(decision.intent)) {
+      await this.emitActionEvent(data, decision.intent, runId);
     }
 
+    this.metrics.incrementActions('routing', 'completed');
+
     return decision;
   }
 
+  private async rateLimited(data: MentionReceivedV1, result: RateLimitResult): Promise<RoutingDecision> {
+    logger.warn('Mention rate limited - ignoring request', {
+      mentionId: data.mentionId,
+      publicKey: data.mentionedBy,
+      tier: result.tier,
+      limitedBy: result.limitedBy,
+      currentCount: result.currentCount,
+      limit: result.limit,
+      windowMinutes: result.windowMinutes,
+      retryAfterSeconds: result.retryAfterSeconds
+    });
+
+    this.metrics.incrementActions('routing', 'rate_limited');
+
+    if (appConfig.rateLimit.notice === 'reply') {
+      await this.notifyRateLimited(data, result);
+    }
+
+    // Return a special result to indicate rate limiting
+    return {
+      intent: 'rate_limited',
+      confidence: 1.0,
+      reason: `Rate limit exceeded: ${result.currentCount}/${result.limit} cost units in ${result.windowMinutes} minutes`,
+      method: 'rate_limit'
+    };
+  }
+
+  /**
+   * A mention starting with "/name" asks for that action directly. Unknown
+   * names get the command list instead of falling through to the classifier.
+   */
+  private detectCommand(data: MentionReceivedV1): RoutingDecision | null {
+    const command = parseCommand(data.content);
+    if (!command) {
+      return null;
+    }
+
+    const action = actionRegistry.findCommand(command.name);
+    if (action) {
+      return {
+        intent: action.id,
+        confidence: 1.0,
+        reason: `Command /${command.name}`,
+        method: 'command',
+        command: command.name
+      };
+    }
+
+    logger.info('Unknown command in mention', {
+      mentionId: data.mentionId,
+      command: command.name
+    });
+
+    return {
+      intent: actionRegistry.isEnabled('help') ? 'help' : 'unknown',
+      confidence: 1.0,
+      reason: `Unknown command /${command.name}`,
+      method: 'command',
+      command: command.name
+    };
+  }
+
+  /**
+   * Tell a rate-limited user when to retry. The marker lasts until their
+   * window frees up, so repeated mentions get a single notice.
+   * Never fails routing.
+   */
+  private async notifyRateLimited(data: MentionReceivedV1, result: RateLimitResult): Promise<void> {
+    const retryAfterSeconds = result.retryAfterSeconds ?? result.windowMinutes * 60;
+
+    try {
+      const shouldNotify = await this.rateLimit.markNotified(data.mentionedBy, retryAfterSeconds);
+      if (!shouldNotify) {
+        logger.debug('Rate limit notice already sent this window', {
+          mentionId: data.mentionId,
+          publicKey: data.mentionedBy
+        });
+        return;
+      }
+
+      await this.replyService.publish(
+        data.url,
+        `You've used all ${result.limit} request credits for this ${formatDuration(result.windowMinutes * 60)} window` +
+        `${describeActionCosts(this.rateLimit.listActionCosts())}. ` +
+        `Please try again in ${formatDuration(retryAfterSeconds)}.`,
+        data.mentionId,
+        { kind: 'notice' }
+      );
+
+      this.metrics.incrementReplies('rate_limit_notice');
+      logger.info('Rate limit notice published', {
+        mentionId: data.mentionId,
+        publicKey: data.mentionedBy,
+        retryAfterSeconds
+      });
+    } catch (error) {
+      logger.warn('Failed to publish rate limit notice', {
+        mentionId: data.mentionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Whether the mention is a command for an action that makes no AI calls.
+   * Unknown commands count as exempt since they are answered by help.
+   */
+  private isBudgetExemptCommand(content: string): boolean {
+    const command = parseCommand(content);
+    if (!command) {
+      return false;
+    }
+
+    const action = actionRegistry.findCommand(command.name) || actionRegistry.get('help');
+    return !!action?.budgetExempt;
+  }
+
+  /**
+   * A mention replying to one of the bot's recorded replies is a follow-up,
+   * whatever keywords it contains ("what about the sources?" is not a factcheck)
+   */
+  private async detectFollowUp(data: MentionReceivedV1): Promise<RoutingDecision | null> {
+    if (!actionRegistry.isEnabled('followup') || !data.inReplyTo) {
+      return null;
+    }
+
+    try {
+      const botReply = await this.conversation.findBotReply(data.inReplyTo);
+      if (!botReply) {
+        return null;
+      }
+
+      return {
+        intent: 'followup',
+        confidence: 1.0,
+        reason: `Reply to bot reply for mention ${botReply.mentionId}`,
+        method: 'conversation'
+      };
+    } catch (error) {
+      logger.warn('Failed to check for bot reply; classifying as a new mention', {
+        mentionId: data.mentionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
   private async storeRoutingDecision(
     mentionId: string,
     decision: RoutingDecision
   ): Promise<void> {
     try {
       await db.query(
-        `INSERT INTO routing_decisions (mention_id, intent, confidence, reason)
-         VALUES ($1, $2, $3, $4)`,
-        [mentionId, decision.intent, decision.confidence, decision.reason]
+        `INSERT INTO routing_decisions (mention_id, intent, confidence, reason, command)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [mentionId, decision.intent, decision.confidence, decision.reason, decision.command || null]
       );
 
       logger.debug('Routing decision stored', {
@@ -225,19 +431,30 @@ export class Router {
 
   private async emitActionEvent(
     data: MentionReceivedV1,
-    intent: 'summary' | 'factcheck',
+    intent: ActionId,
     runId: string
   ): Promise<void> {
     const actionData: ActionRequestedV1 = {
       mentionId: data.mentionId,
       postId: data.postId,
       parentUri: data.url,
-      intent
+      intent,
+      params: {}
     };
 
-    const eventType = intent === 'summary'
-      ? 'action.summary.requested.v1'
-      : 'action.factcheck.requested.v1';
+    if (data.delayed) {
+      actionData.delayed = true;
+    }
+
+    const options = parseMentionOptions(data.content);
+    if (Object.keys(options).length > 0) {
+      actionData.options = options;
+    }
+
+    // Action-specific request params (target language, prior reply, ...)
+    actionRegistry.get(intent)?.buildRequest?.(data, actionData);
+
+    const eventType = `action.${intent}.requested.v1` as const;
 
     await this.eventBus.emit(eventType, actionData, {
       correlationId: data.mentionId,
@@ -252,6 +469,13 @@ export class Router {
     });
   }
 
+  private shouldDefaultToAsk(decision: RoutingDecision, content: string): boolean {
+    // Same uncertainty bar as the summary fallback, but only for questions
+    return decision.confidence < 0.15 &&
+           decision.method === 'llm' &&
+           content.trim().endsWith('?');
+  }
+
   private shouldDefaultToSummary(decision: RoutingDecision): boolean {
     // Conservative approach: Only default to summary if extremely uncertain
     // Requirements:
@@ -262,7 +486,7 @@ export class Router {
     // Philosophy: When uncertain, prefer no action over wrong action
     // Only default when LLM gives almost no confidence
 
-    return appConfig.features.summary &&
+    return actionRegistry.isEnabled('summary') &&
            decision.confidence < 0.15 &&
            decision.method === 'llm';
   }
@@ -302,4 +526,38 @@ export class Router {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * "45 seconds", "12 minutes", "2 hours"; rounded up so users never retry too early
+ */
+function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return seconds === 1 ? '1 second' : `${seconds} seconds`;
+  }
+
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60 || minutes % 60 !== 0) {
+    return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+  }
+
+  const hours = minutes / 60;
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+/**
+ * " (a factcheck uses 3 credits, image 2, anything else 1)"; empty when every action costs 1
+ */
+function describeActionCosts(costs: Record<string, number>): string {
+  const expensive = Object.entries(costs)
+    .filter(([, cost]) => cost > 1)
+    .sort(([, a], [, b]) => b - a);
+
+  if (expensive.length === 0) {
+    return '';
+  }
+
+  const [[firstId, firstCost], ...rest] = expensive;
+  const parts = [`a ${firstId} uses ${firstCost} credits`, ...rest.map(([id, cost]) => `${id} ${cost}`)];
+  return ` (${parts.join(', ')}, anything else 1)`;
+}
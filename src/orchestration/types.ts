@@ -1,18 +1,19 @@
-import { EventEnvelope } from '@/core/events';
+import { ActionEventName, ActionId, EventEnvelope } from '@/core/events';
 import { Mention } from '@/types/mention';
 import { ThreadContext } from '@/types/thread';
 import { Logger } from 'winston';
 
 export interface RoutingDecision {
-  intent: 'summary' | 'factcheck' | 'unknown' | 'rate_limited' | 'blacklisted';
+  intent: ActionId | 'unknown' | 'rate_limited' | 'blacklisted' | 'budget_exceeded';
   confidence: number;
   reason?: string;
-  method: 'heuristic' | 'llm' | 'rate_limit' | 'blacklist';
+  method: 'command' | 'heuristic' | 'llm' | 'conversation' | 'rate_limit' | 'blacklist' | 'budget';
+  command?: string;   // the /command the mention started with, known or not
 }
 
 export interface ActionWorker {
-  id: 'summary' | 'factcheck';
-  eventName: 'action.summary.requested.v1' | 'action.factcheck.requested.v1';
+  id: ActionId;
+  eventName: ActionEventName;
   consume(event: EventEnvelope): Promise<void>;
 }
 
@@ -49,7 +50,7 @@ export interface Services {
 }
 
 export interface HeuristicMatch {
-  intent: 'summary' | 'factcheck';
+  intent: ActionId;
   confidence: number;
   matchedKeywords: string[];
   reason: string;
@@ -10,30 +10,40 @@ import { db } from '@/infrastructure/database/connection';
 // Core
 import { EventBus } from '@/core/event-bus';
 import { IdempotencyService } from '@/core/idempotency';
+import { DeadLetterQueue } from '@/core/dlq';
+import { runsRole, findUnknownRoles } from '@/core/roles';
+import { LeaderElection } from '@/core/leader-election';
 
 // Services
 import { AIService } from '@/services/ai';
 import { SafetyService } from '@/services/safety';
 import { MetricsService } from '@/services/metrics';
-import { RateLimitService } from '@/services/rate-limit';
+import { RateLimitService, RateLimitOptions } from '@/services/rate-limit';
 import { BlacklistService } from '@/services/blacklist';
+import { budgetService } from '@/services/budget';
+import { claimHistoryService } from '@/services/claim-history';
+import { sourceCredibilityService } from '@/services/source-credibility';
 import { PubkyService } from '@/services/pubky';
 import { ThreadService } from '@/services/thread';
 import { ReplyService } from '@/services/reply';
 import { ClassifierService } from '@/services/classifier';
-import { SummaryService } from '@/services/summary';
-import { FactcheckWebSearchService } from '@/services/factcheck-websearch';
 import { McpClientService } from '@/services/mcp/client';
 import { MentionPoller } from '@/services/poller';
+import { CatchUpService } from '@/services/catch-up';
+import { ConversationService } from '@/services/conversation';
 
 // Orchestration & Workers
 import { Router } from '@/orchestration/router';
-import { SummaryWorker } from '@/actions/summary/worker';
-import { FactcheckWorker } from '@/actions/factcheck/worker';
+import { actionRegistry, ActionServices, ActionWorkerInstance } from '@/actions';
 
 // API
 import { createHealthRouter } from '@/api/health';
 import { createMetricsRouter } from '@/api/metrics';
+import { createDlqRouter } from '@/api/dlq';
+import { createCatchUpRouter } from '@/api/catch-up';
+import { createRateLimitRouter } from '@/api/rate-limit';
+import { createClaimsRouter } from '@/api/claims';
+import { createSourceCredibilityRouter } from '@/api/source-credibility';
 import { errorHandler, notFoundHandler } from '@/api/error-handler';
 
 // Config & Utils
@@ -47,6 +57,8 @@ class PubkyBot {
   // Infrastructure
   private eventBus: EventBus;
   private idempotency: IdempotencyService;
+  private deadLetterQueue: DeadLetterQueue;
+  private pollerLeaderElection: LeaderElection;
 
   // Services
   private aiService: AIService;
@@ -58,14 +70,13 @@ class PubkyBot {
   private threadService: ThreadService;
   private replyService: ReplyService;
   private classifierService: ClassifierService;
-  private summaryService: SummaryService;
-  private factcheckService: FactcheckWebSearchService;
+  private conversationService: ConversationService;
   private mcpClient: McpClientService;
+  private catchUpService: CatchUpService;
 
   // Orchestration & Workers
   private router: Router;
-  private summaryWorker: SummaryWorker;
-  private factcheckWorker: FactcheckWorker;
+  private workers = new Map<string, ActionWorkerInstance>();
   private poller: MentionPoller;
 
   constructor() {
@@ -95,17 +106,24 @@ class PubkyBot {
 
   private async initializeServices(): Promise<void> {
     // Core infrastructure
-    this.eventBus = new EventBus();
+    this.metricsService = new MetricsService();
+    this.eventBus = new EventBus(this.metricsService);
     this.idempotency = new IdempotencyService();
+    this.deadLetterQueue = new DeadLetterQueue();
+    this.catchUpService = new CatchUpService(this.eventBus);
 
     // Base services
     this.aiService = new AIService();
     this.safetyService = new SafetyService();
-    this.metricsService = new MetricsService();
     this.rateLimitService = new RateLimitService(
       redis.getClient(),
       appConfig.rateLimit.maxRequests,
-      appConfig.rateLimit.windowMinutes
+      appConfig.rateLimit.windowMinutes,
+      {
+        burst: appConfig.rateLimit.burst,
+        tiers: appConfig.rateLimit.tiers,
+        actionCosts: appConfig.rateLimit.actionCosts
+      } as RateLimitOptions
     );
     this.blacklistService = new BlacklistService(
       redis.getClient(),
@@ -118,8 +136,7 @@ class PubkyBot {
     this.threadService = new ThreadService(this.pubkyService);
     this.replyService = new ReplyService(this.pubkyService, this.safetyService);
     this.classifierService = new ClassifierService(this.aiService);
-    this.summaryService = new SummaryService(this.aiService);
-    this.factcheckService = new FactcheckWebSearchService(this.aiService);
+    this.conversationService = new ConversationService();
 
     // Orchestration
     this.router = new Router(
@@ -128,50 +145,64 @@ class PubkyBot {
       this.idempotency,
       this.metricsService,
       this.rateLimitService,
-      this.blacklistService
+      this.blacklistService,
+      budgetService,
+      this.conversationService,
+      this.replyService
     );
 
-    // Workers
-    this.summaryWorker = new SummaryWorker(
-      this.eventBus,
-      this.idempotency,
-      this.summaryService,
-      this.threadService,
-      this.replyService,
-      this.safetyService,
-      this.metricsService
-    );
+    // Workers: only actions this process runs are constructed
+    const actionServices: ActionServices = {
+      eventBus: this.eventBus,
+      idempotency: this.idempotency,
+      metrics: this.metricsService,
+      aiService: this.aiService,
+      pubkyService: this.pubkyService,
+      threadService: this.threadService,
+      replyService: this.replyService,
+      safetyService: this.safetyService,
+      conversationService: this.conversationService,
+      rateLimitService: this.rateLimitService,
+      mcpClient: this.mcpClient
+    };
+
+    for (const action of actionRegistry.list()) {
+      if (this.runsWorker(action.id)) {
+        this.workers.set(action.id, await action.createWorker(actionServices));
+      }
+    }
 
-    this.factcheckWorker = new FactcheckWorker(
-      this.eventBus,
-      this.idempotency,
-      this.factcheckService,
-      this.threadService,
-      this.replyService,
-      this.safetyService,
-      this.metricsService
-    );
+    // The admin API edits the source credibility registry, so load (and seed) it without a factcheck worker too
+    if (runsRole('api')) {
+      await sourceCredibilityService.start();
+    }
 
-    // Poller
+    // Poller (one leader across replicas)
+    this.pollerLeaderElection = new LeaderElection(
+      'mention-poller',
+      appConfig.pubky.mentionPolling.leaderElection
+    );
     this.poller = new MentionPoller(
       this.pubkyService,
       this.eventBus,
       this.idempotency,
-      this.metricsService
+      this.metricsService,
+      this.pollerLeaderElection
     );
   }
 
   private setupRoutes(): void {
     // Health endpoints
     const healthRouter = createHealthRouter({
+      roles: appConfig.worker.roles,
       db,
       redis,
       pubky: this.pubkyService,
-      mcp: this.mcpClient,
-      router: this.router,
-      summaryWorker: this.summaryWorker,
-      factcheckWorker: this.factcheckWorker,
-      poller: this.poller
+      mcp: this.usesMcp() ? this.mcpClient : undefined,
+      router: runsRole('router') ? this.router : undefined,
+      actionWorkers: [...this.workers.entries()],
+      poller: runsRole('poller') ? this.poller : undefined,
+      leaderElections: [this.pollerLeaderElection]
     });
 
     this.app.use('/api', healthRouter);
@@ -180,6 +211,15 @@ class PubkyBot {
     const metricsRouter = createMetricsRouter(this.metricsService);
     this.app.use('/', metricsRouter);
 
+    // Admin endpoints (bearer-token protected), only on api instances
+    if (runsRole('api')) {
+      this.app.use('/api', createDlqRouter(this.deadLetterQueue));
+      this.app.use('/api', createCatchUpRouter(this.catchUpService));
+      this.app.use('/api', createRateLimitRouter(this.rateLimitService));
+      this.app.use('/api', createClaimsRouter(claimHistoryService));
+      this.app.use('/api', createSourceCredibilityRouter(sourceCredibilityService));
+    }
+
     // Root endpoint
     this.app.get('/', (req, res) => {
       res.json({
@@ -206,6 +246,12 @@ class PubkyBot {
     try {
       logger.info('Starting Pubky AI Bot...');
 
+      // Fail fast on a WORKER_TYPE that names no registered action
+      const unknownRoles = findUnknownRoles(actionRegistry.ids());
+      if (unknownRoles.length > 0) {
+        throw new Error(`Unknown WORKER_TYPE role(s): ${unknownRoles.join(', ')}`);
+      }
+
       // Connect to infrastructure
       await this.connectInfrastructure();
 
@@ -221,16 +267,19 @@ class PubkyBot {
       // Initialize event bus
       await this.eventBus.initializeStreams();
 
-      // Connect MCP client if enabled
-      if (appConfig.mcp.brave.enabled) {
+      // Connect MCP client if enabled (only instances running an MCP-backed action use it)
+      if (!this.usesMcp()) {
+        logger.debug('No MCP-backed worker running in this process, skipping MCP client');
+      } else if (appConfig.mcp.brave.enabled) {
         try {
           await this.mcpClient.connect();
         } catch (error) {
-          logger.info('MCP client unavailable, continuing without it. Factcheck will use OpenAI web search instead.');
+          logger.info('MCP client unavailable, continuing without it');
         }
       } else {
-        logger.info('MCP Brave client disabled. Factcheck will use OpenAI web search.');
+        logger.info('MCP Brave client disabled');
       }
+      this.logSearchProvider();
 
       // Start orchestration components
       await this.startOrchestration();
@@ -239,11 +288,15 @@ class PubkyBot {
       await this.startHttpServer();
 
       // Start mention polling
-      await this.poller.start();
+      if (runsRole('poller') && appConfig.pubky.mentionPolling.enabled) {
+        await this.pollerLeaderElection.start();
+        await this.poller.start();
+      }
 
       logger.info('Pubky AI Bot started successfully', {
         port: appConfig.server.port,
         environment: process.env.NODE_ENV,
+        roles: appConfig.worker.roles,
         features: appConfig.features
       });
 
@@ -276,23 +329,57 @@ class PubkyBot {
   }
 
   private async startOrchestration(): Promise<void> {
-    logger.info('Starting orchestration components...');
+    logger.info('Starting orchestration components...', {
+      roles: appConfig.worker.roles
+    });
 
-    // Start router
-    await this.router.start();
+    if (runsRole('router')) {
+      await this.router.start();
+    }
 
-    // Start workers if features are enabled
-    if (appConfig.features.summary) {
-      await this.summaryWorker.start();
+    for (const action of actionRegistry.list()) {
+      if (appConfig.worker.roles.includes(action.id) && !actionRegistry.isEnabled(action.id)) {
+        logger.warn(`WORKER_TYPE includes ${action.id} but features.${action.featureFlag || action.id} is disabled; worker not started`);
+      }
     }
 
-    if (appConfig.features.factcheck) {
-      await this.factcheckWorker.start();
+    // Workers were only created for this process's roles with enabled features
+    for (const worker of this.workers.values()) {
+      await worker.start();
     }
 
     logger.info('Orchestration components started');
   }
 
+  private runsWorker(action: string): boolean {
+    return runsRole(action) && actionRegistry.isEnabled(action);
+  }
+
+  private usesMcp(): boolean {
+    return actionRegistry.list().some(action => action.usesMcp && this.runsWorker(action.id));
+  }
+
+  /**
+   * Say which search provider factchecks use; brave_mcp without a connected MCP
+   * client leaves every claim unverifiable
+   */
+  private logSearchProvider(): void {
+    if (!this.runsWorker('factcheck')) {
+      return;
+    }
+
+    const provider = appConfig.search.provider;
+    if (provider === 'brave_mcp' && !this.mcpClient.isReady()) {
+      logger.warn(
+        `Search provider brave_mcp selected but the MCP client is ${appConfig.mcp.brave.enabled ? 'unavailable' : 'disabled (mcp.brave.enabled)'}. ` +
+        'Factchecks will return unverifiable until the MCP server is reachable and the worker restarts.'
+      );
+      return;
+    }
+
+    logger.info(`Factcheck will use the ${provider} search provider`);
+  }
+
   private async startHttpServer(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.server = this.app.listen(appConfig.server.port, appConfig.server.host, (error?: Error) => {
@@ -320,6 +407,11 @@ class PubkyBot {
         await this.poller.stop();
       }
 
+      // Hand leadership over immediately instead of waiting for the lease to expire
+      if (this.pollerLeaderElection) {
+        await this.pollerLeaderElection.stop();
+      }
+
       // Stop HTTP server
       if (this.server) {
         await new Promise<void>((resolve) => {
@@ -332,6 +424,8 @@ class PubkyBot {
         await this.mcpClient.close();
       }
 
+      sourceCredibilityService.stop();
+
       // Close infrastructure connections
       await redis.disconnect();
       await db.close();
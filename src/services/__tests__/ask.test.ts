@@ -0,0 +1,90 @@
+import { AskService } from '../ask';
+import { AIService } from '../ai';
+import { ThreadContext } from '@/types/thread';
+import { Post } from '@/types/mention';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    ai: { models: { summary: 'test-model' } },
+    limits: { thread: { maxTokensForAI: 15000 } }
+  }
+}));
+
+function post(id: string, authorId: string, content: string): Post {
+  return {
+    id,
+    uri: `pubky://${authorId}/pub/pubky.app/posts/${id}`,
+    content,
+    authorId,
+    createdAt: '2025-01-01T12:00:00Z'
+  };
+}
+
+describe('AskService', () => {
+  const root = post('root', 'alice', 'We should move the release to Friday, QA needs two more days.');
+  const reply = post('reply', 'bob', 'I disagree, marketing already announced Wednesday.');
+  const question = post('question', 'carol', '@bot what did Alice argue?');
+
+  const context: ThreadContext = {
+    rootPost: root,
+    mentionPost: question,
+    posts: [root, reply, question],
+    tree: { post: root, depth: 0, branchId: 'main', children: [] },
+    branches: [{ id: 'main', startUri: root.uri, postUris: [root.uri, reply.uri, question.uri] }],
+    participants: ['alice', 'bob', 'carol'],
+    participantProfiles: [
+      { publicKey: 'alice', username: 'Alice', displayName: 'Alice' },
+      { publicKey: 'bob', username: 'Bob', displayName: 'Bob' }
+    ],
+    depth: 1,
+    totalTokens: 40,
+    isComplete: true
+  };
+
+  let generateText: jest.Mock;
+  let askService: AskService;
+
+  beforeEach(() => {
+    generateText = jest.fn();
+    askService = new AskService({ generateText } as unknown as AIService);
+  });
+
+  it('should number thread posts without the question and map citations to posts', async () => {
+    generateText.mockResolvedValue({
+      text: 'Answer: Alice argued for moving the release to Friday so QA gets two more days [1].',
+      usage: { totalTokens: 120 },
+      provider: 'openai'
+    });
+
+    const result = await askService.answer(question.content, context);
+
+    const prompt = generateText.mock.calls[0][0] as string;
+    expect(prompt).toContain('[1] Alice:');
+    expect(prompt).toContain('[2] Bob:');
+    expect(prompt).not.toMatch(/\[3\] \w+:/);
+
+    expect(result.answered).toBe(true);
+    expect(result.answer).toBe('Alice argued for moving the release to Friday so QA gets two more days [1].');
+    expect(result.citations).toEqual([{ index: 1, postUri: root.uri, author: 'Alice' }]);
+    expect(result.metrics.aiTokensUsed).toBe(120);
+  });
+
+  it('should refuse when the model reports the answer is not in the thread', async () => {
+    generateText.mockResolvedValue({ text: 'NOT_IN_THREAD', provider: 'openai' });
+
+    const result = await askService.answer('@bot what did Dave say?', context);
+
+    expect(result.answered).toBe(false);
+    expect(result.answer).toBe('');
+    expect(result.citations).toEqual([]);
+  });
+
+  it('should refuse answers that cite no post from the thread', async () => {
+    generateText.mockResolvedValue({ text: 'Answer: Alice wants Friday [7].', provider: 'openai' });
+
+    const result = await askService.answer(question.content, context);
+
+    expect(result.answered).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { BudgetService } from '../budget';
+import { db } from '@/infrastructure/database/connection';
+import appConfig from '@/config';
+
+jest.mock('@/infrastructure/database/connection', () => ({
+  db: { query: jest.fn() }
+}));
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    budget: { enabled: true, defaultDailyTokens: 10000 }
+  }
+}));
+
+const mockQuery = db.query as jest.Mock;
+
+describe('BudgetService', () => {
+  let budgetService: BudgetService;
+  const publicKey = 'test-budget-user';
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    budgetService = new BudgetService();
+  });
+
+  /**
+   * Route mocked queries by SQL so Promise.all ordering doesn't matter
+   */
+  function mockBudgetRows(totalTokens: string | null, overrideTokens?: number) {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM token_usage')) {
+        return [{ total: totalTokens }];
+      }
+      if (sql.includes('FROM budget_overrides')) {
+        return overrideTokens === undefined ? [] : [{ daily_tokens: overrideTokens }];
+      }
+      return [];
+    });
+  }
+
+  describe('checkBudget', () => {
+    it('should allow users under the default daily limit', async () => {
+      mockBudgetRows('1000');
+
+      const result = await budgetService.checkBudget(publicKey);
+
+      expect(result.allowed).toBe(true);
+      expect(result.usedTokens).toBe(1000);
+      expect(result.dailyLimit).toBe(appConfig.budget.defaultDailyTokens);
+      expect(result.remainingTokens).toBe(appConfig.budget.defaultDailyTokens - 1000);
+    });
+
+    it('should treat no usage today as zero', async () => {
+      mockBudgetRows(null);
+
+      const result = await budgetService.checkBudget(publicKey);
+
+      expect(result.allowed).toBe(true);
+      expect(result.usedTokens).toBe(0);
+    });
+
+    it('should block users who reached the default daily limit', async () => {
+      mockBudgetRows(String(appConfig.budget.defaultDailyTokens));
+
+      const result = await budgetService.checkBudget(publicKey);
+
+      expect(result.allowed).toBe(false);
+      expect(result.remainingTokens).toBe(0);
+    });
+
+    it('should prefer per-user overrides over the default limit', async () => {
+      mockBudgetRows('6000', 5000);
+
+      const result = await budgetService.checkBudget(publicKey);
+
+      expect(result.allowed).toBe(false);
+      expect(result.dailyLimit).toBe(5000);
+    });
+
+    it('should block all work when the override is zero', async () => {
+      mockBudgetRows(null, 0);
+
+      const result = await budgetService.checkBudget(publicKey);
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should fail open when the database is unavailable', async () => {
+      mockQuery.mockRejectedValue(new Error('connection refused'));
+
+      const result = await budgetService.checkBudget(publicKey);
+
+      expect(result.allowed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { CatchUpService, validateCatchUpWindow } from '../catch-up';
+import { EventBus } from '@/core/event-bus';
+import { db } from '@/infrastructure/database/connection';
+
+jest.mock('@/infrastructure/database/connection', () => ({
+  db: { query: jest.fn() }
+}));
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    catchUp: { maxWindowHours: 72, maxMentions: 200, replyPrefix: 'Sorry for the delay! ' }
+  }
+}));
+
+const mockQuery = db.query as jest.Mock;
+
+function row(mentionId: string, authorId: string, hour: number) {
+  return {
+    mention_id: mentionId,
+    post_id: `post-${mentionId}`,
+    author_id: authorId,
+    content: `@bot summarize ${mentionId}`,
+    url: `pubky://${authorId}/pub/pubky.app/posts/post-${mentionId}`,
+    in_reply_to: mentionId === 'm2' ? 'pubky://bot/pub/pubky.app/posts/reply1' : null,
+    received_at: new Date(Date.UTC(2025, 0, 1, hour))
+  };
+}
+
+describe('CatchUpService', () => {
+  // Newest first, as returned by the query
+  const rows = [row('m3', 'alice', 3), row('m2', 'bob', 2), row('m1', 'alice', 1)];
+  const since = new Date(Date.UTC(2025, 0, 1, 0));
+  const until = new Date(Date.UTC(2025, 0, 1, 12));
+
+  let eventBus: { emit: jest.Mock };
+  let catchUp: CatchUpService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockImplementation(async (sql: string, params: any[]) => {
+      if (sql.includes('SELECT mention_id')) return rows;
+      if (sql.includes('RETURNING mention_id')) return [{ mention_id: params[0] }];
+      return [];
+    });
+
+    eventBus = { emit: jest.fn().mockResolvedValue('1-0') };
+    catchUp = new CatchUpService(eventBus as unknown as EventBus);
+  });
+
+  it('should list candidates without claiming or emitting on a dry run', async () => {
+    const result = await catchUp.run({ since, until, dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.toProcess.map(c => c.mentionId)).toEqual(['m3', 'm2', 'm1']);
+    expect(result.processed).toBe(0);
+    expect(eventBus.emit).not.toHaveBeenCalled();
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep only the most recent mention per user when deduplicating', async () => {
+    const result = await catchUp.run({ since, until, dedupePerUser: true, dryRun: true });
+
+    expect(result.toProcess.map(c => c.mentionId)).toEqual(['m3', 'm2']);
+    expect(result.superseded.map(c => c.mentionId)).toEqual(['m1']);
+  });
+
+  it('should re-emit claimed mentions flagged as delayed', async () => {
+    const result = await catchUp.run({ since, until });
+
+    expect(result.processed).toBe(3);
+    expect(eventBus.emit).toHaveBeenCalledWith(
+      'mention.received.v1',
+      expect.objectContaining({ mentionId: 'm3', mentionedBy: 'alice', delayed: true }),
+      { correlationId: 'm3', key: 'mention:m3' }
+    );
+  });
+
+  it('should keep the replied-to post so follow-ups are still detected', async () => {
+    await catchUp.run({ since, until });
+
+    const [, m2] = eventBus.emit.mock.calls.find(([, data]) => data.mentionId === 'm2');
+    expect(m2.inReplyTo).toBe('pubky://bot/pub/pubky.app/posts/reply1');
+    const [, m3] = eventBus.emit.mock.calls.find(([, data]) => data.mentionId === 'm3');
+    expect(m3.inReplyTo).toBeUndefined();
+  });
+
+  it('should skip mentions already claimed by another run', async () => {
+    mockQuery.mockImplementation(async (sql: string, params: any[]) => {
+      if (sql.includes('SELECT mention_id')) return rows;
+      if (sql.includes('RETURNING mention_id')) return params[0] === 'm2' ? [] : [{ mention_id: params[0] }];
+      return [];
+    });
+
+    const result = await catchUp.run({ since, until });
+
+    expect(result.processed).toBe(2);
+    expect(result.alreadyClaimed).toBe(1);
+    expect(eventBus.emit).toHaveBeenCalledTimes(2);
+  });
+
+  it('should release the claim when emitting fails', async () => {
+    eventBus.emit.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+    const result = await catchUp.run({ since, until });
+
+    expect(result.failed).toEqual([{ mentionId: 'm3', error: 'Redis unavailable' }]);
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.stringContaining("SET status = 'skipped_old'"),
+      ['m3']
+    );
+  });
+
+  describe('validateCatchUpWindow', () => {
+    it('should reject windows longer than the configured maximum', () => {
+      const longAgo = new Date(until.getTime() - 73 * 60 * 60 * 1000);
+      expect(validateCatchUpWindow(longAgo, until)).toBe('Window must not exceed 72 hours');
+    });
+
+    it('should reject an inverted window', () => {
+      expect(validateCatchUpWindow(until, since)).toBe('since must be before until');
+    });
+
+    it('should accept a window within limits', () => {
+      expect(validateCatchUpWindow(since, until)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { ClaimHistoryService } from '../claim-history';
+import { normalizeClaim } from '../evidence-cache';
+import { db } from '@/infrastructure/database/connection';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    claimHistory: { enabled: true, maxAgeDays: 30, reverifyStale: true }
+  }
+}));
+
+jest.mock('@/infrastructure/database/connection', () => ({
+  db: { query: jest.fn() }
+}));
+
+const mockQuery = db.query as jest.Mock;
+
+describe('ClaimHistoryService', () => {
+  const service = new ClaimHistoryService();
+
+  const row = (claim: string, daysAgo: number, label = 'false') => ({
+    id: `id-${daysAgo}`,
+    execution_id: 'exec1',
+    mention_id: 'mention1',
+    claim_text: claim,
+    claim_key: normalizeClaim(claim),
+    label,
+    verdict: 'NASA notes astronauts could not see the wall unaided from low Earth orbit.',
+    confidence: 0.8,
+    source_url: 'https://www.nasa.gov/great-wall',
+    source_title: 'NASA',
+    checked_at: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString()
+  });
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('should index each verified claim with its label and best source', async () => {
+    mockQuery.mockResolvedValue([]);
+
+    const recorded = await service.record('exec1', 'mention1', [{
+      claim: 'The Great Wall is visible from space',
+      label: 'false',
+      verdict: 'Not visible to the naked eye from orbit.',
+      confidence: 0.8,
+      reasoning: 'Not visible to the naked eye from orbit.',
+      evidence: [
+        { source: 'blog.example', title: 'Blog', url: 'https://blog.example/wall', reliability: 0.4, relevance: 0.8 },
+        { source: 'nasa.gov', title: 'NASA', url: 'https://www.nasa.gov/great-wall', reliability: 0.9, relevance: 0.8 }
+      ]
+    }]);
+
+    expect(recorded).toBe(1);
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('INSERT INTO claim_history');
+    expect(params.slice(3, 9)).toEqual([
+      'the great wall is visible from space',
+      'false',
+      'Not visible to the naked eye from orbit.',
+      0.8,
+      'https://www.nasa.gov/great-wall',
+      'NASA'
+    ]);
+  });
+
+  it('should not index claims whose verdict was reused from the evidence cache', async () => {
+    mockQuery.mockResolvedValue([]);
+
+    const recorded = await service.record('exec2', 'mention2', [{
+      claim: 'The Great Wall is visible from space',
+      label: 'unverifiable',
+      verdict: 'Found 1 relevant sources via web search.',
+      confidence: 0.5,
+      reasoning: 'Found 1 relevant sources via web search.',
+      evidence: [],
+      cached: true
+    }]);
+
+    expect(recorded).toBe(0);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should flag verdicts older than maxAgeDays as stale', async () => {
+    mockQuery.mockResolvedValueOnce([row('The Great Wall is visible from space', 45)]);
+
+    const stale = await service.findPrevious('the Great Wall is visible from space!');
+
+    expect(mockQuery.mock.calls[0][1]).toEqual(['the great wall is visible from space']);
+    expect(stale).toMatchObject({
+      label: 'false',
+      stale: true,
+      source: { title: 'NASA', url: 'https://www.nasa.gov/great-wall' }
+    });
+  });
+
+  it('should not reuse the verdict of a reworded claim that says the opposite', async () => {
+    const rose = 'Global average sea levels rose sharply during the last century according to NASA satellite measurements and tide gauge records';
+    const fell = rose.replace('rose', 'fell');
+    const rows = [row(rose, 3, 'true')];
+    mockQuery.mockImplementation(async (_sql: string, params: any[]) => rows.filter(r => r.claim_key === params[0]));
+
+    expect(await service.findPrevious(fell)).toBeNull();
+    expect(await service.findPrevious(rose)).toMatchObject({ label: 'true', stale: false });
+  });
+
+  it('should skip executions without indexable claims and count the claims it records', async () => {
+    mockQuery.mockImplementation(async (sql: string) => sql.includes('FROM artifacts')
+      ? [{
+          execution_id: 'exec3',
+          mention_id: 'mention3',
+          completed_at: '2026-09-01T00:00:00.000Z',
+          claims: [
+            { claim: 'The Great Wall is visible from space', label: 'false', verdict: 'A myth.', confidence: 0.8, reasoning: 'A myth.', evidence: [] },
+            { claim: 'Tokyo has 37 million people', label: 'true', verdict: 'Yes.', confidence: 0.7, reasoning: 'Yes.', evidence: [], cached: true }
+          ]
+        }]
+      : []);
+
+    expect(await service.backfill(10)).toBe(1);
+
+    // All-cached executions record nothing, so selecting them again would stall the backfill
+    expect(mockQuery.mock.calls[0][0]).toContain("c->>'cached'");
+  });
+
+  it('should search claim text with LIKE wildcards escaped', async () => {
+    mockQuery.mockResolvedValue([{ ...row('50% of voters', 1), total: '1' }]);
+
+    const result = await service.search({ q: '50%', label: 'false', limit: 500 });
+
+    expect(mockQuery.mock.calls[0][1]).toEqual(['%50\\%%', 'false', 100, 0]);
+    expect(result.total).toBe(1);
+    expect(result.claims[0]).toMatchObject({ claim: '50% of voters', label: 'false' });
+  });
+});
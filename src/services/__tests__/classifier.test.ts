@@ -1,5 +1,13 @@
 import { ClassifierService } from '../classifier';
 import { AIService } from '../ai';
+import { ActionRegistry } from '@/actions/registry';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    features: { summary: true, factcheck: true, translate: true, image: true, ask: true, followup: true }
+  }
+}));
 
 describe('ClassifierService', () => {
   let classifierService: ClassifierService;
@@ -67,6 +75,99 @@ describe('ClassifierService', () => {
       expect(result?.intent).toBe('factcheck');
     });
 
+    it('should detect translate intent from keywords', () => {
+      const mention = {
+        mentionId: 'test-7',
+        postId: 'post-7',
+        authorId: 'user-7',
+        content: 'Can you translate this to English?',
+        receivedAt: '2023-01-01T00:00:00Z',
+        status: 'received' as const
+      };
+
+      const result = classifierService.heuristicIntent(mention);
+
+      expect(result).toBeTruthy();
+      expect(result?.intent).toBe('translate');
+      expect(result?.confidence).toBeGreaterThanOrEqual(0.6);
+      expect(result?.matchedKeywords).toContain('translate');
+    });
+
+    it('should prioritize translate over factcheck keywords in the text', () => {
+      const mention = {
+        mentionId: 'test-8',
+        postId: 'post-8',
+        authorId: 'user-8',
+        content: 'translate this, is the source legit?',
+        receivedAt: '2023-01-01T00:00:00Z',
+        status: 'received' as const
+      };
+
+      const result = classifierService.heuristicIntent(mention);
+
+      expect(result?.intent).toBe('translate');
+    });
+
+    it('should detect image intent from alt text requests', () => {
+      const mention = {
+        mentionId: 'test-9',
+        postId: 'post-9',
+        authorId: 'user-9',
+        content: 'Could you add alt text for this?',
+        receivedAt: '2023-01-01T00:00:00Z',
+        status: 'received' as const
+      };
+
+      const result = classifierService.heuristicIntent(mention);
+
+      expect(result?.intent).toBe('image');
+      expect(result?.matchedKeywords).toContain('alt text');
+    });
+
+    it('should detect ask intent from questions about the thread', () => {
+      const mention = {
+        mentionId: 'test-10',
+        postId: 'post-10',
+        authorId: 'user-10',
+        content: '@bot what did Alice argue about the release date?',
+        receivedAt: '2023-01-01T00:00:00Z',
+        status: 'received' as const
+      };
+
+      const result = classifierService.heuristicIntent(mention);
+
+      expect(result?.intent).toBe('ask');
+      expect(result?.confidence).toBeGreaterThanOrEqual(0.6);
+    });
+
+    it('should prefer ask over incidental factcheck keywords', () => {
+      const mention = {
+        mentionId: 'test-11',
+        postId: 'post-11',
+        authorId: 'user-11',
+        content: 'Who mentioned the source for that number?',
+        receivedAt: '2023-01-01T00:00:00Z',
+        status: 'received' as const
+      };
+
+      const result = classifierService.heuristicIntent(mention);
+
+      expect(result?.intent).toBe('ask');
+    });
+
+    it('should not treat opinion requests as thread questions', () => {
+      const mention = {
+        mentionId: 'test-12',
+        postId: 'post-12',
+        authorId: 'user-12',
+        content: 'What do you think about this information?',
+        receivedAt: '2023-01-01T00:00:00Z',
+        status: 'received' as const
+      };
+
+      expect(classifierService.heuristicIntent(mention)).toBeNull();
+    });
+
     it('should return null for unrecognized content', () => {
       const mention = {
         mentionId: 'test-4',
@@ -129,4 +230,55 @@ describe('ClassifierService', () => {
       expect(mockAIService.generateObject).toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('registered actions', () => {
+    let registry: ActionRegistry;
+
+    beforeEach(() => {
+      registry = new ActionRegistry();
+      registry.register({
+        id: 'poll',
+        classifier: {
+          description: 'Creates a poll from the options in a post',
+          rules: 'User wants to run a poll',
+          heuristic: { keywords: ['poll'], baseConfidence: 0.6, priority: 10 }
+        },
+        createWorker: jest.fn()
+      });
+      classifierService = new ClassifierService(mockAIService, registry);
+    });
+
+    it('should reject duplicate and malformed action ids', () => {
+      expect(() => registry.register({ id: 'poll', createWorker: jest.fn() })).toThrow('already registered');
+      expect(() => registry.register({ id: 'Poll!', createWorker: jest.fn() })).toThrow('Invalid action id');
+    });
+
+    it('should match heuristics of any registered action', () => {
+      const result = classifierService.heuristicIntent({
+        mentionId: 'test-7',
+        postId: 'post-7',
+        authorId: 'user-7',
+        content: 'Start a poll on these options',
+        receivedAt: '2023-01-01T00:00:00Z',
+        status: 'received' as const
+      });
+
+      expect(result?.intent).toBe('poll');
+      expect(result?.confidence).toBeCloseTo(0.7);
+    });
+
+    it('should list registered actions in the prompt and reject unregistered LLM intents', async () => {
+      mockAIService.generateObject.mockResolvedValue({
+        object: { intent: 'summary', confidence: 0.8 },
+        usage: { totalTokens: 50 }
+      });
+
+      const result = await classifierService.classifyIntent({ content: 'hmm' });
+
+      const prompt = mockAIService.generateObject.mock.calls[0][0];
+      expect(prompt).toContain('1. POLL: Creates a poll from the options in a post');
+      expect(prompt).not.toContain('SUMMARY');
+      expect(result.intent).toBe('unknown');
+    });
+  });
+});
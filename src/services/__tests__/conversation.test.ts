@@ -0,0 +1,81 @@
+import { ConversationService } from '../conversation';
+import { db } from '@/infrastructure/database/connection';
+
+jest.mock('@/infrastructure/database/connection', () => ({
+  db: { query: jest.fn() }
+}));
+
+const mockQuery = db.query as jest.Mock;
+
+describe('ConversationService', () => {
+  const replyUri = 'pubky://bot/pub/pubky.app/posts/reply1';
+  const botReply = { mention_id: 'mention1', reply_uri: replyUri, content: 'The thread is about X.\n\n• A\n• B' };
+
+  let conversation: ConversationService;
+
+  /**
+   * Route mocked queries by table so each test only describes its rows
+   */
+  function mockRows(replies: any[], executions: any[]) {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM replies')) return replies;
+      if (sql.includes('FROM action_executions')) return executions;
+      return [];
+    });
+  }
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    conversation = new ConversationService();
+  });
+
+  it('should return null for posts the bot did not publish', async () => {
+    mockRows([], []);
+
+    expect(await conversation.findBotReply('pubky://alice/pub/pubky.app/posts/x')).toBeNull();
+    expect(await conversation.loadPriorExchange('pubky://alice/pub/pubky.app/posts/x')).toBeNull();
+  });
+
+  it('should only look up action replies, not notices', async () => {
+    mockRows([botReply], []);
+
+    await conversation.findBotReply(replyUri);
+
+    expect(mockQuery.mock.calls[0][0]).toContain("kind = 'action'");
+  });
+
+  it('should load the artifacts of the action that produced the reply', async () => {
+    const artifacts = { summary: 'The thread is about X.', keyPoints: ['A', 'B'] };
+    mockRows([botReply], [{ action_id: 'summary', payload_json: artifacts }]);
+
+    const prior = await conversation.loadPriorExchange(replyUri);
+
+    expect(prior).toEqual({
+      reply: { mentionId: 'mention1', replyUri, content: botReply.content },
+      actionId: 'summary',
+      originalReply: botReply.content,
+      artifacts,
+      turns: []
+    });
+  });
+
+  it('should continue the session from an earlier follow-up', async () => {
+    const rootArtifacts = { summary: 'The thread is about X.' };
+    mockRows([botReply], [{
+      action_id: 'followup',
+      payload_json: {
+        rootActionId: 'summary',
+        rootReply: 'The thread is about X.',
+        rootArtifacts,
+        turns: [{ question: 'what about B?', answer: 'B is ...' }]
+      }
+    }]);
+
+    const prior = await conversation.loadPriorExchange(replyUri);
+
+    expect(prior?.actionId).toBe('summary');
+    expect(prior?.originalReply).toBe('The thread is about X.');
+    expect(prior?.artifacts).toEqual(rootArtifacts);
+    expect(prior?.turns).toEqual([{ question: 'what about B?', answer: 'B is ...' }]);
+  });
+});
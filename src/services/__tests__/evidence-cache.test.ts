@@ -0,0 +1,115 @@
+import { EvidenceCacheService, normalizeClaim, claimTokens, claimSimilarity } from '../evidence-cache';
+import { db } from '@/infrastructure/database/connection';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    search: {
+      cache: {
+        enabled: true,
+        defaultTtlSeconds: 86400,
+        categoryTtlSeconds: { news: 21600, scientific: 604800 },
+        similarity: 0.8
+      }
+    }
+  }
+}));
+
+jest.mock('@/infrastructure/database/connection', () => ({
+  db: { query: jest.fn() }
+}));
+
+const mockQuery = db.query as jest.Mock;
+
+describe('claim matching', () => {
+  it('should normalise case, punctuation and thousands separators', () => {
+    expect(normalizeClaim('The Eiffel Tower is 1,083 ft tall!')).toBe('the eiffel tower is 1083 ft tall');
+  });
+
+  it('should treat reworded claims with the same content words as near-duplicates', () => {
+    const a = claimTokens('The Great Wall of China is visible from space');
+    const b = claimTokens('Great Wall of China: visible from space?');
+
+    expect(claimSimilarity(a, b)).toBe(1);
+  });
+
+  it('should never match claims whose numbers or negations differ', () => {
+    const base = claimTokens('Tokyo metropolitan area population is 37 million people');
+
+    expect(claimSimilarity(base, claimTokens('Tokyo metropolitan area population is 14 million people'))).toBe(0);
+    expect(claimSimilarity(base, claimTokens('Tokyo metropolitan area population is not 37 million people'))).toBe(0);
+  });
+});
+
+describe('EvidenceCacheService', () => {
+  const metrics = { incrementEvidenceCache: jest.fn() };
+  let cache: EvidenceCacheService;
+
+  const row = (claim: string) => ({
+    claim_key: normalizeClaim(claim),
+    claim_text: claim,
+    tokens: claimTokens(claim),
+    results_json: [{ url: 'https://reuters.com/a', title: 'Reuters', snippet: 'Not visible from orbit.' }],
+    label: 'false',
+    verdict: 'Not visible to the naked eye from orbit.',
+    created_at: '2026-10-01T00:00:00.000Z'
+  });
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    metrics.incrementEvidenceCache.mockReset();
+    cache = new EvidenceCacheService(metrics as any);
+  });
+
+  it('should return an exact match and count a hit', async () => {
+    mockQuery.mockResolvedValueOnce([row('The Great Wall is visible from space')]).mockResolvedValue([]);
+
+    const cached = await cache.get('the great wall is visible from space.');
+
+    expect(cached).toMatchObject({
+      match: 'exact', similarity: 1, label: 'false', verdict: 'Not visible to the naked eye from orbit.'
+    });
+    expect(metrics.incrementEvidenceCache).toHaveBeenCalledWith('hit');
+  });
+
+  it('should return a reworded claim above the similarity threshold', async () => {
+    mockQuery.mockResolvedValueOnce([row('The Great Wall is visible from space')]).mockResolvedValue([]);
+
+    const cached = await cache.get('Great Wall visible from space');
+
+    expect(cached).toMatchObject({ match: 'near', claim: 'The Great Wall is visible from space' });
+    expect(metrics.incrementEvidenceCache).toHaveBeenCalledWith('near_hit');
+  });
+
+  it('should count a miss when no candidate is close enough', async () => {
+    mockQuery.mockResolvedValueOnce([row('The Great Wall is visible from the Moon with telescopes')]);
+
+    expect(await cache.get('Great Wall visible from space')).toBeNull();
+    expect(metrics.incrementEvidenceCache).toHaveBeenCalledWith('miss');
+  });
+
+  it('should treat database errors as a miss', async () => {
+    mockQuery.mockRejectedValueOnce(new Error('connection refused'));
+
+    expect(await cache.get('Great Wall visible from space')).toBeNull();
+    expect(metrics.incrementEvidenceCache).toHaveBeenCalledWith('error');
+  });
+
+  it('should expire entries after the shortest TTL among their source categories', async () => {
+    mockQuery.mockResolvedValue([]);
+
+    await cache.set('Great Wall visible from space', [
+      { url: 'https://nature.com/x', title: 'Nature', excerpt: 'Too narrow.', reliability: 0.9, category: 'scientific' },
+      { url: 'https://reuters.com/y', title: 'Reuters', excerpt: 'A myth.', reliability: 0.95, category: 'news' }
+    ] as any, { label: 'false', text: 'Not visible to the naked eye from orbit.' });
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('INSERT INTO evidence_cache');
+    // Credibility is assessed again on every hit, so only the search results are kept
+    expect(JSON.parse(params[3])).toEqual([
+      { url: 'https://nature.com/x', title: 'Nature', snippet: 'Too narrow.' },
+      { url: 'https://reuters.com/y', title: 'Reuters', snippet: 'A myth.' }
+    ]);
+    expect(params.slice(4)).toEqual(['false', 'Not visible to the naked eye from orbit.', 'news', 21600]);
+  });
+});
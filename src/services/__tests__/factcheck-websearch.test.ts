@@ -0,0 +1,135 @@
+import { FactcheckWebSearchService } from '../factcheck-websearch';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    search: { maxResults: 5 },
+    ai: { models: { factcheck: 'test-model' } }
+  }
+}));
+
+describe('FactcheckWebSearchService', () => {
+  const claim = { text: 'The Great Wall is visible from space', confidence: 0.9 };
+  const assessment = 'NASA notes astronauts could not see the wall unaided from low Earth orbit; the claim is a myth.';
+
+  const searchResult = (host: string) => ({
+    url: `https://${host}/great-wall`,
+    title: `${host} article`,
+    snippet: 'The wall is too narrow to see from orbit.'
+  });
+
+  let evidenceCache: { get: jest.Mock; set: jest.Mock };
+  let searchProvider: { name: string; isAvailable: jest.Mock; search: jest.Mock };
+  let sourceCredibility: { assess: jest.Mock };
+  let aiService: { generateText: jest.Mock };
+  let service: FactcheckWebSearchService;
+
+  beforeEach(() => {
+    evidenceCache = { get: jest.fn(), set: jest.fn() };
+    searchProvider = { name: 'fixture', isAvailable: jest.fn().mockReturnValue(true), search: jest.fn() };
+    sourceCredibility = {
+      assess: jest.fn().mockReturnValue({
+        score: 0.9, rating: 'highly reliable', explanation: 'Space agency', perspective: 'government', category: 'government'
+      })
+    };
+    aiService = { generateText: jest.fn() };
+    service = new FactcheckWebSearchService(aiService as any, searchProvider as any, evidenceCache as any, sourceCredibility as any);
+  });
+
+  it('should reply to a cache hit with the assessment that reached the cached label', async () => {
+    evidenceCache.get.mockResolvedValue({
+      claim: claim.text,
+      results: [searchResult('nasa.gov')],
+      label: 'false',
+      verdict: assessment,
+      match: 'exact',
+      similarity: 1,
+      cachedAt: '2026-10-01T00:00:00.000Z'
+    });
+
+    const result = await service.verify([claim]);
+
+    expect(searchProvider.search).not.toHaveBeenCalled();
+    expect(result.verifiedClaims[0]).toMatchObject({
+      label: 'false', verdict: assessment, reasoning: assessment, cached: true
+    });
+  });
+
+  it('should assess a reworded claim again instead of reusing its verdict', async () => {
+    const rose = 'Global average sea levels rose sharply during the last century according to NASA satellite measurements and tide gauge records';
+    const fell = rose.replace('rose', 'fell');
+    // Similarity 0.88, above search.cache.similarity: the words match but the claims contradict
+    evidenceCache.get.mockResolvedValue({
+      claim: rose,
+      results: [searchResult('nasa.gov')],
+      label: 'true',
+      verdict: 'NASA satellite and tide gauge records show sea levels rose about 20 cm over the last century.',
+      match: 'near',
+      similarity: 0.882,
+      cachedAt: '2026-10-01T00:00:00.000Z'
+    });
+    aiService.generateText.mockResolvedValue({
+      text: 'VERDICT: FALSE\nNASA satellite and tide gauge records show sea levels rose, not fell, over the last century.',
+      usage: { totalTokens: 120 },
+      provider: 'openai'
+    });
+
+    const result = await service.verify([{ text: fell, confidence: 0.9 }]);
+    const [verified] = result.verifiedClaims;
+
+    expect(searchProvider.search).not.toHaveBeenCalled();
+    expect(aiService.generateText).toHaveBeenCalledWith(expect.stringContaining('nasa.gov/great-wall'), 'factcheck');
+    expect(verified).toMatchObject({ claim: fell, label: 'false' });
+    expect(verified.verdict).toContain('rose, not fell');
+    expect(verified.cached).toBeUndefined();
+    expect(result.metrics.aiTokensUsedVerify).toBe(120);
+  });
+
+  it('should assess cached results again for a domain-restricted check', async () => {
+    evidenceCache.get.mockResolvedValue({
+      claim: claim.text,
+      results: [searchResult('nasa.gov'), searchResult('blog.example')],
+      label: 'false',
+      verdict: assessment,
+      match: 'exact',
+      similarity: 1,
+      cachedAt: '2026-10-01T00:00:00.000Z'
+    });
+    aiService.generateText.mockResolvedValue({
+      text: `VERDICT: FALSE\n${assessment}`,
+      usage: { totalTokens: 80 }
+    });
+
+    // The cached verdict came from unrestricted results
+    const result = await service.verify([claim], { sourceDomains: ['.gov'] });
+    const prompt = aiService.generateText.mock.calls[0][0];
+
+    expect(prompt).toContain('nasa.gov');
+    expect(prompt).not.toContain('blog.example');
+    expect(result.verifiedClaims[0]).toMatchObject({ label: 'false', verdict: assessment });
+  });
+
+  it('should score cached results against the current source registry', async () => {
+    evidenceCache.get.mockResolvedValue({
+      claim: claim.text,
+      results: [searchResult('contentfarm.example')],
+      label: 'false',
+      verdict: assessment,
+      match: 'exact',
+      similarity: 1,
+      cachedAt: '2026-10-01T00:00:00.000Z'
+    });
+    // Downgraded by a moderator after the entry was cached
+    sourceCredibility.assess.mockReturnValue({
+      score: 0.1, rating: 'questionable', explanation: 'Content farm', perspective: 'content_farm', category: 'content_farm'
+    });
+
+    const verification = await service.verify([claim]);
+
+    expect(sourceCredibility.assess).toHaveBeenCalledWith('https://contentfarm.example/great-wall');
+    expect(verification.sources[0]).toMatchObject({
+      source: 'contentfarm.example', excerpt: 'The wall is too narrow to see from orbit.',
+      reliability: 0.1, credibilityRating: 'questionable', category: 'content_farm'
+    });
+  });
+});
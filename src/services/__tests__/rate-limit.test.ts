@@ -19,8 +19,8 @@ describe('RateLimitService', () => {
   });
 
   beforeEach(async () => {
-    // Clear all rate limit keys before each test
-    const keys = await redisClient.keys('ratelimit:user:*');
+    // Clear all rate limit and notice keys before each test
+    const keys = await redisClient.keys('ratelimit:*');
     if (keys.length > 0) {
       await redisClient.del(keys);
     }
@@ -226,6 +226,115 @@ describe('RateLimitService', () => {
     });
   });
 
+  describe('action costs and tiers', () => {
+    beforeEach(() => {
+      rateLimitService = new RateLimitService(redisClient, MAX_REQUESTS, WINDOW_MINUTES, {
+        tiers: {
+          trusted: { maxRequests: 10, windowMinutes: WINDOW_MINUTES },
+          restricted: {
+            maxRequests: 10,
+            windowMinutes: WINDOW_MINUTES,
+            burst: { maxRequests: 2, windowSeconds: 30 }
+          }
+        },
+        actionCosts: { factcheck: 2 }
+      });
+    });
+
+    it('should charge each request its action cost', async () => {
+      const publicKey = 'test-user-14';
+
+      const factcheck = await rateLimitService.checkRateLimit(
+        publicKey, 'mention-1', rateLimitService.getActionCost('factcheck')
+      );
+      expect(factcheck.allowed).toBe(true);
+      expect(factcheck.currentCount).toBe(2);
+
+      // One unit left: a second factcheck doesn't fit, a summary does
+      const blocked = await rateLimitService.checkRateLimit(publicKey, 'mention-2', 2);
+      expect(blocked.allowed).toBe(false);
+
+      const summary = await rateLimitService.checkRateLimit(
+        publicKey, 'mention-3', rateLimitService.getActionCost('summary')
+      );
+      expect(summary.allowed).toBe(true);
+
+      const status = await rateLimitService.getRateLimitStatus(publicKey);
+      expect(status.requestCount).toBe(2);
+      expect(status.used).toBe(3);
+      expect(status.retryAfterSeconds).toBeGreaterThan(0);
+    });
+
+    it('should not record anything when peeking', async () => {
+      const publicKey = 'test-user-15';
+
+      const result = await rateLimitService.peekRateLimit(publicKey);
+      expect(result.allowed).toBe(true);
+
+      const status = await rateLimitService.getRateLimitStatus(publicKey);
+      expect(status.requestCount).toBe(0);
+    });
+
+    it('should apply the limits of the assigned tier', async () => {
+      const publicKey = 'test-user-16';
+
+      await rateLimitService.setTier(publicKey, 'trusted');
+      expect(await rateLimitService.getTier(publicKey)).toBe('trusted');
+
+      for (let i = 1; i <= MAX_REQUESTS + 1; i++) {
+        const result = await rateLimitService.checkRateLimit(publicKey, `mention-${i}`);
+        expect(result.allowed).toBe(true);
+        expect(result.tier).toBe('trusted');
+      }
+
+      await rateLimitService.setTier(publicKey, 'default');
+      expect(await rateLimitService.getTier(publicKey)).toBe('default');
+
+      const result = await rateLimitService.checkRateLimit(publicKey, 'mention-next');
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should reject unknown tiers', async () => {
+      await expect(rateLimitService.setTier('test-user-17', 'vip')).rejects.toThrow('Unknown rate limit tier');
+    });
+
+    it('should enforce the burst window within the sustained window', async () => {
+      const publicKey = 'test-user-18';
+      await rateLimitService.setTier(publicKey, 'restricted');
+
+      await rateLimitService.checkRateLimit(publicKey, 'mention-1');
+      await rateLimitService.checkRateLimit(publicKey, 'mention-2');
+
+      const result = await rateLimitService.checkRateLimit(publicKey, 'mention-3');
+      expect(result.allowed).toBe(false);
+      expect(result.limitedBy).toBe('burst');
+      expect(result.limit).toBe(2);
+      expect(result.retryAfterSeconds).toBeLessThanOrEqual(30);
+    });
+  });
+
+  describe('markNotified', () => {
+    it('should notify once until the marker expires', async () => {
+      const publicKey = 'test-user-12';
+
+      expect(await rateLimitService.markNotified(publicKey, 30)).toBe(true);
+      expect(await rateLimitService.markNotified(publicKey, 30)).toBe(false);
+
+      const ttl = await redisClient.ttl(`ratelimit:notified:${publicKey}`);
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(30);
+    });
+
+    it('should notify again after the rate limit is cleared', async () => {
+      const publicKey = 'test-user-13';
+
+      await rateLimitService.markNotified(publicKey, 30);
+      await rateLimitService.clearRateLimit(publicKey);
+
+      expect(await rateLimitService.markNotified(publicKey, 30)).toBe(true);
+    });
+  });
+
   describe('healthCheck', () => {
     it('should return true when service is healthy', async () => {
       const healthy = await rateLimitService.healthCheck();
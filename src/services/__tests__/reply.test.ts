@@ -0,0 +1,84 @@
+import { ReplyService, ReplyContent } from '../reply';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    catchUp: { replyPrefix: '' }
+  }
+}));
+
+jest.mock('@/infrastructure/database/connection', () => ({
+  db: { query: jest.fn() }
+}));
+
+describe('ReplyService.compose (factcheck)', () => {
+  const replyService = new ReplyService({} as any, {} as any);
+
+  const claims: NonNullable<ReplyContent['claims']> = [
+    {
+      claim: 'The Eiffel Tower is in Paris',
+      label: 'true',
+      confidence: 'high',
+      summary: 'According to the official site, the tower stands on the Champ de Mars in Paris.',
+      source: { title: 'Eiffel Tower', url: 'https://www.toureiffel.paris/en' }
+    },
+    {
+      claim: 'The Great Wall of China is visible from space with the naked eye',
+      label: 'false',
+      confidence: 'medium',
+      summary: 'NASA notes astronauts could not see the wall unaided from low Earth orbit.',
+      source: { title: 'NASA', url: 'https://www.nasa.gov/great-wall' }
+    }
+  ];
+
+  it('should prefix a single claim with its verdict label and confidence', () => {
+    const reply = replyService.compose({
+      verdict: 'According to the official site, the tower stands on the Champ de Mars in Paris.',
+      sources: [{ title: 'Eiffel Tower', url: 'https://www.toureiffel.paris/en' }],
+      claims: [claims[0]]
+    });
+
+    expect(reply).toBe(
+      'Verdict: True (high confidence)\n\n' +
+      'According to the official site, the tower stands on the Champ de Mars in Paris.\n\n' +
+      'Sources:\nhttps://www.toureiffel.paris/en\n'
+    );
+  });
+
+  it('should say when a reused verdict was checked', () => {
+    const reply = replyService.compose({
+      verdict: 'NASA notes astronauts could not see the wall unaided from low Earth orbit.',
+      claims: [{ ...claims[1], checkedAt: '2026-10-03T08:15:00.000Z' }]
+    });
+
+    expect(reply.split('\n')[0]).toBe('This claim was checked on 2026-10-03: False (medium confidence)');
+  });
+
+  it('should list each claim with its own verdict and best source', () => {
+    const reply = replyService.compose({
+      verdict: 'I checked 2 claims: 1 true and 1 false.',
+      claims
+    });
+
+    expect(reply).toBe([
+      'I checked 2 claims: 1 true and 1 false.',
+      '1. "The Eiffel Tower is in Paris"\nTrue (high confidence) — According to the official site, the tower stands on the Champ de Mars in Paris.\nSource: https://www.toureiffel.paris/en',
+      '2. "The Great Wall of China is visible from space with the naked eye"\nFalse (medium confidence) — NASA notes astronauts could not see the wall unaided from low Earth orbit.\nSource: https://www.nasa.gov/great-wall'
+    ].join('\n\n'));
+  });
+
+  it('should switch to one line per claim when the breakdown is too long', () => {
+    const longClaims = claims.map(claim => ({ ...claim, summary: claim.summary!.repeat(10) }));
+
+    const reply = replyService.compose({
+      verdict: 'I checked 2 claims: 1 true and 1 false.',
+      claims: longClaims
+    });
+
+    expect(reply).toBe(
+      'I checked 2 claims: 1 true and 1 false.\n\n' +
+      '1. True (high confidence): "The Eiffel Tower is in Paris" https://www.toureiffel.paris/en\n' +
+      '2. False (medium confidence): "The Great Wall of China is visible from space with the naked eye" https://www.nasa.gov/great-wall'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FixtureSearchProvider } from '../search/fixture';
+import { BraveMcpSearchProvider } from '../search/brave-mcp';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    mcp: { brave: { timeoutMs: 1000 } }
+  }
+}));
+
+const request = { prompt: 'unused', maxResults: 5 };
+
+describe('FixtureSearchProvider', () => {
+  let fixturePath: string;
+
+  beforeAll(() => {
+    fixturePath = path.join(os.tmpdir(), `search-fixtures-${process.pid}.json`);
+    fs.writeFileSync(fixturePath, JSON.stringify({
+      entries: [{
+        keywords: ['great wall', 'space'],
+        results: [
+          { url: 'https://www.nasa.gov/great-wall', title: 'NASA', snippet: 'Not visible to the naked eye' },
+          { url: 'https://example.com/wall', title: 'Blog', snippet: 'Visible!' }
+        ]
+      }]
+    }));
+  });
+
+  afterAll(() => {
+    fs.unlinkSync(fixturePath);
+  });
+
+  it('should return results whose keywords all appear in the query', async () => {
+    const provider = new FixtureSearchProvider(fixturePath);
+
+    const hit = await provider.search({ ...request, query: 'The Great Wall is visible from space' });
+    expect(hit.results.map(r => r.title)).toEqual(['NASA', 'Blog']);
+
+    const miss = await provider.search({ ...request, query: 'The Great Wall is long' });
+    expect(miss.results).toEqual([]);
+  });
+
+  it('should apply source domain restrictions', async () => {
+    const provider = new FixtureSearchProvider(fixturePath);
+
+    const response = await provider.search({
+      ...request,
+      query: 'great wall visible from space',
+      sourceDomains: ['.gov']
+    });
+
+    expect(response.results.map(r => r.url)).toEqual(['https://www.nasa.gov/great-wall']);
+  });
+});
+
+describe('BraveMcpSearchProvider', () => {
+  it('should call the search tool directly and parse its text results', async () => {
+    const execute = jest.fn().mockResolvedValue({
+      content: [
+        { type: 'text', text: JSON.stringify({ url: 'https://reuters.com/a', title: 'Reuters', description: 'Report' }) },
+        { type: 'text', text: 'Title: AP News\nDescription: Story\nURL: https://apnews.com/b' }
+      ]
+    });
+    const mcpClient: any = {
+      isReady: () => true,
+      tools: jest.fn().mockResolvedValue({ brave_web_search: { execute } })
+    };
+
+    const provider = new BraveMcpSearchProvider(mcpClient);
+    const response = await provider.search({ ...request, query: 'claim', sourceDomains: ['reuters.com', '.gov'] });
+
+    expect(execute.mock.calls[0][0]).toEqual({ query: 'claim (site:reuters.com OR site:gov)', count: 5 });
+    expect(response.results).toEqual([
+      { url: 'https://reuters.com/a', title: 'Reuters', snippet: 'Report' },
+      { url: 'https://apnews.com/b', title: 'AP News', snippet: 'Story' }
+    ]);
+    expect(response.answer).toBeUndefined();
+  });
+});
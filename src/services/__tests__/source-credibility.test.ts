@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourceCredibilityService, normalizeSourcePattern } from '../source-credibility';
+import { db } from '@/infrastructure/database/connection';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    sourceCredibility: { reloadIntervalSeconds: 30 }
+  }
+}));
+
+jest.mock('@/infrastructure/database/connection', () => ({
+  db: { query: jest.fn(), transaction: jest.fn() }
+}));
+
+const mockQuery = db.query as jest.Mock;
+const mockTransaction = db.transaction as jest.Mock;
+
+describe('SourceCredibilityService', () => {
+  let filePath: string;
+  let service: SourceCredibilityService;
+
+  beforeAll(() => {
+    filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'credibility-')), 'source-credibility.json');
+    fs.writeFileSync(filePath, JSON.stringify({
+      sources: {
+        'reuters.com': { score: 0.95, category: 'news', tier: 'premium', notes: 'International news agency' }
+      },
+      domainRules: {
+        '.gov': { category: 'government', score: 0.8, reason: 'Government source' }
+      },
+      categoryDefaults: { news: 0.7, unknown: 0.5 },
+      config: { defaultScore: 0.5 }
+    }));
+  });
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockTransaction.mockReset();
+    service = new SourceCredibilityService(filePath);
+  });
+
+  it('should normalise patterns and reject anything but hosts and wildcards', () => {
+    expect(normalizeSourcePattern('WWW.Reuters.com')).toBe('reuters.com');
+    expect(normalizeSourcePattern('.gov')).toBe('*.gov');
+    expect(normalizeSourcePattern('*.blogspot.com')).toBe('*.blogspot.com');
+    expect(normalizeSourcePattern('https://reuters.com/x')).toBeNull();
+    expect(normalizeSourcePattern('foo.*.com')).toBeNull();
+  });
+
+  it('should use the file rules until the registry is loaded', () => {
+    expect(service.assess('https://www.reuters.com/world')).toMatchObject({
+      score: 0.95, category: 'news', pattern: 'reuters.com', explanation: 'International news agency'
+    });
+    expect(service.assess('https://data.cdc.gov/x')).toMatchObject({ score: 0.8, pattern: '*.gov' });
+    expect(service.assess('https://dailynews.example/x')).toEqual({
+      score: 0.7, rating: 'moderate', explanation: 'Unverified news source', perspective: 'news', category: 'news'
+    });
+  });
+
+  it('should prefer exact rules, then the most specific wildcard, after a reload', async () => {
+    const row = (pattern: string, score: number, category = 'unknown') => ({
+      pattern, score, category, tier: null, perspective: null, notes: null, updated_at: '2026-10-01T00:00:00Z'
+    });
+    mockQuery
+      .mockResolvedValueOnce([{ version: '7' }])
+      .mockResolvedValueOnce([
+        row('*.blogspot.com', 0.2, 'content_farm'),
+        row('*.news.blogspot.com', 0.4, 'blog'),
+        row('trusted.blogspot.com', 0.8, 'blog')
+      ]);
+
+    await service.reload();
+
+    expect(service.findRule('trusted.blogspot.com')?.score).toBe(0.8);
+    expect(service.findRule('a.news.blogspot.com')?.score).toBe(0.4);
+    expect(service.findRule('spam.blogspot.com')?.score).toBe(0.2);
+    expect(service.findRule('blogspot.com')?.score).toBe(0.2);
+    expect(service.findRule('reuters.com')).toBeUndefined(); // file rules are replaced by the registry
+  });
+
+  describe('upsert', () => {
+    let client: { query: jest.Mock };
+
+    beforeEach(() => {
+      client = { query: jest.fn() };
+      mockTransaction.mockImplementation(async (callback) => callback(client));
+      // reload() after the change
+      mockQuery.mockImplementation(async (sql: string) => sql.includes('MAX(id)') ? [{ version: '8' }] : []);
+    });
+
+    it('should require a score to create a rule', async () => {
+      client.query.mockResolvedValueOnce({ rows: [] });
+
+      expect(await service.upsert('*.contentfarm.example', { category: 'content_farm' })).toBeNull();
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should audit a tier change with the previous and new rule', async () => {
+      const existing = {
+        pattern: 'example-news.com', score: 0.7, category: 'news', tier: 'mainstream',
+        perspective: null, notes: null, updated_at: '2026-10-01T00:00:00Z'
+      };
+      client.query
+        .mockResolvedValueOnce({ rows: [existing] })
+        .mockResolvedValueOnce({ rows: [{ ...existing, score: 0.3, tier: 'low' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await service.upsert(
+        'example-news.com',
+        { score: 0.3, tier: 'low' },
+        { actor: 'mod-alice', reason: 'Republishes AI-generated articles' }
+      );
+
+      expect(result).toMatchObject({ created: false, rule: { score: 0.3, tier: 'low' } });
+
+      const [sql, params] = client.query.mock.calls[2];
+      expect(sql).toContain('INSERT INTO source_credibility_audit');
+      expect(params[1]).toBe('update');
+      expect(JSON.parse(params[2])).toMatchObject({ score: 0.7, tier: 'mainstream' });
+      expect(JSON.parse(params[3])).toMatchObject({ score: 0.3, tier: 'low', category: 'news' });
+      expect(params.slice(4)).toEqual(['mod-alice', 'Republishes AI-generated articles']);
+    });
+  });
+});
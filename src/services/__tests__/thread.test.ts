@@ -0,0 +1,140 @@
+import { ThreadService } from '../thread';
+import { PubkyService } from '../pubky';
+import { Post } from '@/types/mention';
+import { db } from '@/infrastructure/database/connection';
+
+jest.mock('@/infrastructure/database/connection', () => ({
+  db: { query: jest.fn() }
+}));
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    limits: {
+      thread: {
+        maxDepth: 100,
+        maxPosts: 1500,
+        maxTokensForAI: 15000,
+        tokenWarningThreshold: 10000
+      }
+    }
+  }
+}));
+
+const mockQuery = db.query as jest.Mock;
+
+function post(id: string, parentId?: string, authorId = 'alice', minute = 0): Post {
+  return {
+    id,
+    uri: `pubky://${authorId}/pub/pubky.app/posts/${id}`,
+    content: `post ${id}`,
+    authorId,
+    createdAt: new Date(Date.UTC(2025, 0, 1, 12, minute)).toISOString(),
+    parentUri: parentId ? `pubky://alice/pub/pubky.app/posts/${parentId}` : undefined
+  };
+}
+
+describe('ThreadService', () => {
+  // root <- mention, root <- reply1 <- reply2, root <- botReply
+  const root = post('root', undefined, 'alice', 0);
+  const mention = post('mention', 'root', 'alice', 5);
+  const reply1 = post('reply1', 'root', 'alice', 1);
+  const reply2 = { ...post('reply2', 'reply1', 'bob', 2), parentUri: reply1.uri };
+  const botReply = post('botreply', 'root', 'bot', 6);
+
+  let pubkyService: {
+    getPost: jest.Mock;
+    buildThreadPosts: jest.Mock;
+    getBotPublicKey: jest.Mock;
+  };
+  let threadService: ThreadService;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue([]); // no deleted posts
+
+    const byUri = new Map([root, mention].map(p => [p.uri, p]));
+    pubkyService = {
+      getPost: jest.fn(async (uri: string) => byUri.get(uri) || null),
+      buildThreadPosts: jest.fn(async () => ({
+        posts: [mention, reply1, reply2, botReply].map(p => ({ ...p })),
+        truncated: false
+      })),
+      getBotPublicKey: jest.fn(() => 'bot')
+    };
+    threadService = new ThreadService(pubkyService as unknown as PubkyService);
+  });
+
+  it('should include descendants of the thread root with depth and reply links', async () => {
+    const context = await threadService.buildThreadContext(mention.uri);
+
+    expect(pubkyService.buildThreadPosts).toHaveBeenCalledWith(root.uri, { maxDepth: 100, maxPosts: 1498 });
+    expect(context.posts.map(p => p.id)).toEqual(['root', 'reply1', 'reply2', 'mention']);
+    expect(context.rootPost.id).toBe('root');
+    expect(context.mentionPost.id).toBe('mention');
+    expect(context.posts.find(p => p.id === 'reply2')?.depth).toBe(2);
+    expect(context.depth).toBe(2);
+    expect(context.tree.post.uri).toBe(root.uri);
+    expect(context.tree.children.map(n => n.post.uri)).toEqual([reply1.uri, mention.uri]);
+    expect(context.tree.children[0].children.map(n => n.post.uri)).toEqual([reply2.uri]);
+    expect(context.isComplete).toBe(true);
+  });
+
+  it('should keep a single main branch for a linear discussion', async () => {
+    const context = await threadService.buildThreadContext(mention.uri);
+
+    expect(context.branches.map(b => b.id)).toEqual(['main']);
+    expect(context.branches[0].postUris).toHaveLength(4);
+  });
+
+  it('should split sub-discussions into branches when the thread forks', async () => {
+    // root <- a1 <- a2 <- a3, root <- b1 <- b2 <- b3
+    const a1 = post('a1', 'root', 'alice', 1);
+    const a2 = post('a2', 'a1', 'alice', 2);
+    const a3 = post('a3', 'a2', 'alice', 3);
+    const b1 = post('b1', 'root', 'alice', 4);
+    const b2 = post('b2', 'b1', 'alice', 5);
+    const b3 = post('b3', 'b2', 'alice', 6);
+    pubkyService.buildThreadPosts.mockResolvedValue({
+      posts: [mention, a1, a2, a3, b1, b2, b3].map(p => ({ ...p })),
+      truncated: false
+    });
+
+    const context = await threadService.buildThreadContext(mention.uri);
+
+    expect(context.branches.map(b => b.id)).toEqual(['main', 'b1', 'b2']);
+    expect(context.branches[0].postUris).toEqual([root.uri, mention.uri]);
+    expect(context.branches[1].postUris).toEqual([a1.uri, a2.uri, a3.uri]);
+    expect(context.branches[2].startUri).toBe(b1.uri);
+  });
+
+  it('should exclude the bot\'s own replies from descendants', async () => {
+    const context = await threadService.buildThreadContext(mention.uri);
+
+    expect(context.posts.some(p => p.authorId === 'bot')).toBe(false);
+  });
+
+  it('should skip descendants when includeReplies is false', async () => {
+    const context = await threadService.buildThreadContext(mention.uri, { includeReplies: false });
+
+    expect(pubkyService.buildThreadPosts).not.toHaveBeenCalled();
+    expect(context.posts.map(p => p.id)).toEqual(['root', 'mention']);
+  });
+
+  it('should mark the context incomplete when the reply tree was truncated', async () => {
+    pubkyService.buildThreadPosts.mockResolvedValue({ posts: [{ ...reply1 }], truncated: true });
+
+    const context = await threadService.buildThreadContext(mention.uri);
+
+    expect(context.isComplete).toBe(false);
+  });
+
+  it('should fall back to the parent chain when fetching replies fails', async () => {
+    pubkyService.buildThreadPosts.mockRejectedValue(new Error('Nexus API returned 502: Bad Gateway'));
+
+    const context = await threadService.buildThreadContext(mention.uri);
+
+    expect(context.posts.map(p => p.id)).toEqual(['root', 'mention']);
+    expect(context.isComplete).toBe(false);
+  });
+});
@@ -4,6 +4,12 @@ import logger from '@/utils/logger';
 import { withTimeout } from '@/utils/time';
 
 type ProviderName = 'openai' | 'anthropic' | 'groq' | 'openrouter';
+type ModelPurpose = 'summary' | 'factcheck' | 'classifier' | 'image';
+
+export interface ImageInput {
+  data: Uint8Array;
+  mediaType: string;
+}
 
 interface ProviderClient {
   client: any;
@@ -106,8 +112,19 @@ export class AIService {
     return providers;
   }
 
-  private async getModel(purpose: 'summary' | 'factcheck' | 'classifier') {
-    const model = appConfig.ai.models[purpose];
+  /**
+   * Resolve the configured model id for a purpose.
+   * Image tasks fall back to the summary model when no dedicated vision model is set.
+   */
+  private getModelId(purpose: ModelPurpose): string {
+    if (purpose === 'image') {
+      return appConfig.ai.models.image || appConfig.ai.models.summary;
+    }
+    return appConfig.ai.models[purpose];
+  }
+
+  private async getModel(purpose: ModelPurpose) {
+    const model = this.getModelId(purpose);
     const providers = await this.getAvailableProviders();
 
     // Use the first available provider
@@ -119,9 +136,9 @@ export class AIService {
 
   private async executeWithFallback<T>(
     operation: (client: any, providerName: ProviderName) => Promise<T>,
-    purpose: 'summary' | 'factcheck' | 'classifier'
+    purpose: ModelPurpose
   ): Promise<T> {
-    const model = appConfig.ai.models[purpose];
+    const model = this.getModelId(purpose);
     const providers = await this.getAvailableProviders();
 
     let lastError: Error | null = null;
@@ -217,6 +234,70 @@ export class AIService {
     }
   }
 
+  /**
+   * Generate text from a prompt plus one or more images.
+   * Requires a vision-capable model (ai.models.image, falling back to ai.models.summary).
+   */
+  async generateTextWithImages(
+    prompt: string,
+    images: ImageInput[],
+    options?: {
+      maxRetries?: number;
+    }
+  ): Promise<{ text: string; usage?: any; provider?: ProviderName; model: string }> {
+    const timeout = appConfig.limits.defaultTimeoutMs;
+    const modelId = this.getModelId('image');
+    const startTime = Date.now();
+
+    try {
+      const result = await this.executeWithFallback(
+        async (model, providerName) => {
+          const response = await withTimeout(
+            generateText({
+              model,
+              messages: [{
+                role: 'user',
+                content: [
+                  { type: 'text', text: prompt },
+                  ...images.map(image => ({
+                    type: 'image' as const,
+                    image: image.data,
+                    mediaType: image.mediaType
+                  }))
+                ]
+              }],
+              maxRetries: options?.maxRetries || 1
+            }),
+            timeout
+          );
+
+          return {
+            text: response.text,
+            usage: response.usage,
+            provider: providerName,
+            model: modelId
+          };
+        },
+        'image'
+      );
+
+      const duration = Date.now() - startTime;
+      logger.debug(`AI image generation completed in ${duration}ms`, {
+        provider: result.provider,
+        model: modelId,
+        imageCount: images.length,
+        tokenCount: result.usage?.totalTokens
+      });
+
+      return result;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error(`AI image generation failed after ${duration}ms:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Determine whether to force tool usage for a given provider/model.
    * We only force for providers/models known to reliably support tool calls.
@@ -236,8 +317,8 @@ export class AIService {
   }
 
   /**
-   * Generate text using OpenAI's native web search capability
-   * Only works with OpenAI provider
+   * Generate text using OpenAI's native web search capability (search.openai.model).
+   * Needs an OpenAI API key, whichever provider is primary.
    */
   async generateTextWithWebSearch(
     prompt: string,
@@ -252,11 +333,6 @@ export class AIService {
       : appConfig.limits.defaultTimeoutMs;
     const startTime = Date.now();
 
-    // Check if OpenAI is available
-    if (appConfig.ai.primaryProvider !== 'openai') {
-      throw new Error('Web search requires OpenAI as the primary provider');
-    }
-
     try {
       // Get OpenAI client directly
       const apiKey = appConfig.ai.apiKeys.openai;
@@ -270,7 +346,7 @@ export class AIService {
       // Use OpenAI's responses model with web_search_preview tool
       const response = await withTimeout(
         generateText({
-          model: openai.responses('gpt-4o-mini'),
+          model: openai.responses(appConfig.search.openai.model),
           prompt,
           tools: {
             web_search_preview: openai.tools.webSearchPreview({})
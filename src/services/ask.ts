@@ -0,0 +1,172 @@
+import { AIService } from './ai';
+import { ThreadContext } from '@/types/thread';
+import { InjectionDetector } from './injection-detector';
+import { SecurePrompts } from './secure-prompts';
+import logger from '@/utils/logger';
+import appConfig from '@/config';
+
+export interface AskCitation {
+  index: number;   // post number as shown to the model and in the reply
+  postUri: string;
+  author: string;
+}
+
+export interface AskResult {
+  question: string;
+  answer: string;          // empty when the thread doesn't answer the question
+  answered: boolean;
+  citations: AskCitation[];
+  metrics: {
+    postsConsidered: number;
+    truncated: boolean;    // posts left out to stay within limits.thread.maxTokensForAI
+    aiTokensUsed?: number; // actual provider-reported tokens if available
+  };
+  aiMeta?: {
+    provider?: string;
+    model?: string;
+    usage?: {
+      inputTokens?: number;
+      outputTokens?: number;
+      totalTokens?: number;
+    };
+  };
+}
+
+/**
+ * AskService answers a question about a thread strictly from its posts.
+ *
+ * Posts are numbered for the model, which must cite them as [n]. An answer
+ * without a single valid citation is treated as ungrounded and refused.
+ */
+export class AskService {
+  private injectionDetector: InjectionDetector;
+
+  constructor(private aiService: AIService) {
+    this.injectionDetector = new InjectionDetector();
+  }
+
+  async answer(question: string, context: ThreadContext): Promise<AskResult> {
+    const questionDetection = this.injectionDetector.detect(question, {
+      postId: context.mentionPost.id,
+      authorId: context.mentionPost.authorId,
+      postUri: context.mentionPost.uri
+    });
+
+    const { posts, truncated } = this.numberPosts(context);
+
+    logger.debug('Answering thread question', {
+      mentionPostUri: context.mentionPost.uri,
+      postsConsidered: posts.length,
+      truncated
+    });
+
+    if (posts.length === 0) {
+      return this.buildResult(question, '', [], posts.length, truncated);
+    }
+
+    const prompt = SecurePrompts.buildAskPrompt(questionDetection.sanitized, posts);
+
+    // Questions share the summary model and token limits
+    const result = await this.aiService.generateText(prompt, 'summary');
+
+    const { answer, citedIndexes } = this.parseAnswer(result.text);
+    const citations = citedIndexes
+      .map(index => posts.find(post => post.index === index))
+      .filter((post): post is typeof posts[number] => !!post)
+      .map(post => ({ index: post.index, postUri: post.uri, author: post.author }));
+
+    // No valid citation means the answer isn't grounded in the thread
+    const askResult = this.buildResult(question, citations.length > 0 ? answer : '', citations, posts.length, truncated);
+
+    const total = result.usage?.totalTokens;
+    if (typeof total === 'number') {
+      askResult.metrics.aiTokensUsed = total;
+    }
+    askResult.aiMeta = {
+      provider: result.provider,
+      model: appConfig.ai.models.summary,
+      usage: result.usage ? {
+        inputTokens: (result.usage as any).inputTokens,
+        outputTokens: (result.usage as any).outputTokens,
+        totalTokens: (result.usage as any).totalTokens
+      } : undefined
+    };
+
+    logger.debug('Thread question answered', {
+      answered: askResult.answered,
+      citations: citations.length
+    });
+
+    return askResult;
+  }
+
+  /**
+   * Number the thread's posts (excluding the question itself) within the AI token budget
+   */
+  private numberPosts(context: ThreadContext): {
+    posts: Array<{ index: number; uri: string; author: string; content: string }>;
+    truncated: boolean;
+  } {
+    const maxTokens = appConfig.limits.thread.maxTokensForAI;
+    const names = new Map(context.participantProfiles.map(p => [p.publicKey, p.displayName]));
+    const posts: Array<{ index: number; uri: string; author: string; content: string }> = [];
+    let totalTokens = 0;
+    let truncated = false;
+
+    for (const post of context.posts) {
+      if (post.uri === context.mentionPost.uri) continue;
+
+      const detection = this.injectionDetector.detect(post.content, {
+        postId: post.id,
+        authorId: post.authorId,
+        postUri: post.uri
+      });
+
+      // Rough estimate: 1 token ≈ 4 chars
+      const postTokens = Math.ceil(detection.sanitized.length / 4);
+      if (totalTokens + postTokens > maxTokens) {
+        truncated = true;
+        break;
+      }
+
+      totalTokens += postTokens;
+      posts.push({
+        index: posts.length + 1,
+        uri: post.uri,
+        author: names.get(post.authorId) || post.authorId.substring(0, 8),
+        content: detection.sanitized
+      });
+    }
+
+    return { posts, truncated };
+  }
+
+  private parseAnswer(aiResponse: string): { answer: string; citedIndexes: number[] } {
+    if (aiResponse.includes(SecurePrompts.NOT_IN_THREAD)) {
+      return { answer: '', citedIndexes: [] };
+    }
+
+    const answer = aiResponse.replace(/^\s*Answer:\s*/i, '').trim();
+    const citedIndexes = [...new Set(
+      [...answer.matchAll(/\[(\d+)\]/g)].map(match => parseInt(match[1], 10))
+    )];
+
+    return { answer, citedIndexes };
+  }
+
+  private buildResult(
+    question: string,
+    answer: string,
+    citations: AskCitation[],
+    postsConsidered: number,
+    truncated: boolean
+  ): AskResult {
+    return {
+      question,
+      answer,
+      answered: answer.length > 0,
+      citations: answer ? citations : [],
+      metrics: { postsConsidered, truncated }
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { db } from '@/infrastructure/database/connection';
+import appConfig from '@/config';
 import logger from '@/utils/logger';
 
 export interface UsageRecord {
@@ -13,9 +14,18 @@ export interface UsageRecord {
   meta?: Record<string, any>;
 }
 
+export interface BudgetCheckResult {
+  allowed: boolean;
+  usedTokens: number;
+  dailyLimit: number;
+  remainingTokens: number;
+}
+
 /**
- * BudgetService records per-mention token usage and can report per-user totals.
- * Enforcement hooks can be added later to block work when a user exceeds limits.
+ * BudgetService records per-mention token usage and enforces per-user daily budgets.
+ *
+ * Budgets are measured in total LLM tokens since the start of the current UTC day.
+ * Every user gets budget.defaultDailyTokens unless a row in budget_overrides says otherwise.
  */
 export class BudgetService {
   async recordUsage(record: UsageRecord): Promise<void> {
@@ -77,6 +87,82 @@ export class BudgetService {
     const val = rows[0]?.total ? parseInt(rows[0].total, 10) : 0;
     return isNaN(val) ? 0 : val;
   }
+
+  /**
+   * Get the daily token limit for a user (override or configured default)
+   */
+  async getDailyLimit(publicKey: string): Promise<number> {
+    const rows = await db.query<{ daily_tokens: number }>(
+      'SELECT daily_tokens FROM budget_overrides WHERE public_key = $1',
+      [publicKey]
+    );
+    return rows[0]?.daily_tokens ?? appConfig.budget.defaultDailyTokens;
+  }
+
+  /**
+   * Check whether a user still has budget left today.
+   * Fails open (allows the request) if the database is unavailable.
+   */
+  async checkBudget(publicKey: string): Promise<BudgetCheckResult> {
+    try {
+      const [usedTokens, dailyLimit] = await Promise.all([
+        this.getDailyUsage(publicKey),
+        this.getDailyLimit(publicKey)
+      ]);
+
+      return {
+        allowed: usedTokens < dailyLimit,
+        usedTokens,
+        dailyLimit,
+        remainingTokens: Math.max(0, dailyLimit - usedTokens)
+      };
+    } catch (error) {
+      logger.error('Budget check failed, allowing request', {
+        publicKey,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      const dailyLimit = appConfig.budget.defaultDailyTokens;
+      return {
+        allowed: true,
+        usedTokens: 0,
+        dailyLimit,
+        remainingTokens: dailyLimit
+      };
+    }
+  }
+
+  /**
+   * Set (or replace) a per-user daily token limit
+   */
+  async setOverride(publicKey: string, dailyTokens: number, reason?: string): Promise<void> {
+    await db.query(
+      `INSERT INTO budget_overrides (public_key, daily_tokens, reason)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (public_key)
+       DO UPDATE SET daily_tokens = EXCLUDED.daily_tokens,
+                     reason = EXCLUDED.reason,
+                     updated_at = now()`,
+      [publicKey, dailyTokens, reason || null]
+    );
+
+    logger.info('Budget override set', { publicKey, dailyTokens, reason });
+  }
+
+  /**
+   * Remove a per-user override so the user falls back to the default limit
+   */
+  async removeOverride(publicKey: string): Promise<boolean> {
+    const rows = await db.query<{ public_key: string }>(
+      'DELETE FROM budget_overrides WHERE public_key = $1 RETURNING public_key',
+      [publicKey]
+    );
+
+    if (rows.length > 0) {
+      logger.info('Budget override removed', { publicKey });
+    }
+    return rows.length > 0;
+  }
 }
 
 export const budgetService = new BudgetService();
@@ -0,0 +1,228 @@
+import { EventBus } from '@/core/event-bus';
+import { MentionReceivedV1 } from '@/core/events';
+import { db } from '@/infrastructure/database/connection';
+import appConfig from '@/config';
+import logger from '@/utils/logger';
+
+export interface CatchUpOptions {
+  since: Date;
+  until?: Date;              // defaults to now
+  dedupePerUser?: boolean;   // only answer each user's most recent mention
+  dryRun?: boolean;
+  limit?: number;            // capped at catchUp.maxMentions
+}
+
+export interface CatchUpCandidate {
+  mentionId: string;
+  postId: string;
+  authorId: string;
+  content: string;
+  receivedAt: string;
+}
+
+export interface CatchUpResult {
+  dryRun: boolean;
+  since: string;
+  until: string;
+  matched: number;
+  toProcess: CatchUpCandidate[];
+  superseded: CatchUpCandidate[];   // older mentions from the same user, left as skipped_old
+  processed: number;
+  alreadyClaimed: number;           // picked up by a concurrent run in the meantime
+  failed: Array<{ mentionId: string; error: string }>;
+}
+
+interface SkippedMentionRow {
+  mention_id: string;
+  post_id: string;
+  author_id: string;
+  content: string;
+  url: string | null;
+  in_reply_to: string | null;
+  received_at: Date | string;
+}
+
+/**
+ * Returns a reason when the window is unusable, null otherwise
+ */
+export function validateCatchUpWindow(since: Date, until: Date = new Date()): string | null {
+  if (isNaN(since.getTime()) || isNaN(until.getTime())) {
+    return 'since and until must be valid dates';
+  }
+
+  if (since >= until) {
+    return 'since must be before until';
+  }
+
+  const maxWindowHours = appConfig.catchUp.maxWindowHours;
+  if (until.getTime() - since.getTime() > maxWindowHours * 60 * 60 * 1000) {
+    return `Window must not exceed ${maxWindowHours} hours`;
+  }
+
+  return null;
+}
+
+/**
+ * CatchUpService re-processes mentions the poller stored as skipped_old
+ * (older than the poller's age cutoff, e.g. after an outage).
+ *
+ * Each mention is claimed by flipping skipped_old -> received before it is
+ * re-emitted as mention.received.v1 with `delayed: true`, so concurrent runs
+ * never answer the same mention twice and replies carry catchUp.replyPrefix.
+ */
+export class CatchUpService {
+  constructor(private eventBus: EventBus) {}
+
+  async run(options: CatchUpOptions): Promise<CatchUpResult> {
+    const until = options.until || new Date();
+    const windowError = validateCatchUpWindow(options.since, until);
+    if (windowError) {
+      throw new Error(`Invalid catch-up window: ${windowError}`);
+    }
+
+    const limit = Math.min(options.limit || appConfig.catchUp.maxMentions, appConfig.catchUp.maxMentions);
+    const rows = await this.findSkippedMentions(options.since, until, limit);
+    const { toProcess, superseded } = options.dedupePerUser
+      ? this.dedupePerUser(rows)
+      : { toProcess: rows, superseded: [] };
+
+    const result: CatchUpResult = {
+      dryRun: !!options.dryRun,
+      since: options.since.toISOString(),
+      until: until.toISOString(),
+      matched: rows.length,
+      toProcess: toProcess.map(toCandidate),
+      superseded: superseded.map(toCandidate),
+      processed: 0,
+      alreadyClaimed: 0,
+      failed: []
+    };
+
+    if (options.dryRun) {
+      return result;
+    }
+
+    for (const row of toProcess) {
+      try {
+        const claimed = await this.claim(row.mention_id);
+        if (!claimed) {
+          result.alreadyClaimed++;
+          continue;
+        }
+
+        await this.emitMention(row);
+        result.processed++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error('Catch-up failed to re-emit mention', {
+          mentionId: row.mention_id,
+          error: message
+        });
+        result.failed.push({ mentionId: row.mention_id, error: message });
+        await this.release(row.mention_id);
+      }
+    }
+
+    logger.info('Catch-up run completed', {
+      since: result.since,
+      until: result.until,
+      matched: result.matched,
+      processed: result.processed,
+      superseded: result.superseded.length,
+      alreadyClaimed: result.alreadyClaimed,
+      failed: result.failed.length
+    });
+
+    return result;
+  }
+
+  private async findSkippedMentions(since: Date, until: Date, limit: number): Promise<SkippedMentionRow[]> {
+    return db.query<SkippedMentionRow>(
+      `SELECT mention_id, post_id, author_id, content, url, in_reply_to, received_at
+       FROM mentions
+       WHERE status = 'skipped_old'
+         AND received_at >= $1
+         AND received_at <= $2
+       ORDER BY received_at DESC
+       LIMIT $3`,
+      [since, until, limit]
+    );
+  }
+
+  // Rows arrive newest first, so the first row per author is the one to keep
+  private dedupePerUser(rows: SkippedMentionRow[]): {
+    toProcess: SkippedMentionRow[];
+    superseded: SkippedMentionRow[];
+  } {
+    const seenAuthors = new Set<string>();
+    const toProcess: SkippedMentionRow[] = [];
+    const superseded: SkippedMentionRow[] = [];
+
+    for (const row of rows) {
+      if (seenAuthors.has(row.author_id)) {
+        superseded.push(row);
+      } else {
+        seenAuthors.add(row.author_id);
+        toProcess.push(row);
+      }
+    }
+
+    return { toProcess, superseded };
+  }
+
+  private async claim(mentionId: string): Promise<boolean> {
+    const rows = await db.query<{ mention_id: string }>(
+      `UPDATE mentions
+       SET status = 'received', last_error = NULL
+       WHERE mention_id = $1 AND status = 'skipped_old'
+       RETURNING mention_id`,
+      [mentionId]
+    );
+    return rows.length > 0;
+  }
+
+  // Put the mention back so a later run can retry it
+  private async release(mentionId: string): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE mentions SET status = 'skipped_old' WHERE mention_id = $1 AND status = 'received'`,
+        [mentionId]
+      );
+    } catch (error) {
+      logger.error('Failed to release catch-up claim:', error, { mentionId });
+    }
+  }
+
+  private async emitMention(row: SkippedMentionRow): Promise<void> {
+    const eventData: MentionReceivedV1 = {
+      mentionId: row.mention_id,
+      postId: row.post_id,
+      mentionedBy: row.author_id,
+      content: row.content,
+      url: row.url || undefined,
+      inReplyTo: row.in_reply_to || undefined,
+      ts: new Date(row.received_at).toISOString(),
+      delayed: true
+    };
+
+    await this.eventBus.emit('mention.received.v1', eventData, {
+      correlationId: row.mention_id,
+      key: `mention:${row.mention_id}`
+    });
+
+    logger.info('Catch-up mention event emitted', {
+      mentionId: row.mention_id,
+      postId: row.post_id
+    });
+  }
+}
+
+function toCandidate(row: SkippedMentionRow): CatchUpCandidate {
+  return {
+    mentionId: row.mention_id,
+    postId: row.post_id,
+    authorId: row.author_id,
+    content: row.content,
+    receivedAt: new Date(row.received_at).toISOString()
+  };
+}
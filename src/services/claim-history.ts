@@ -0,0 +1,214 @@
+import { db } from '@/infrastructure/database/connection';
+import type { VerdictLabel, VerifiedClaim } from './factcheck-websearch';
+import { normalizeClaim } from './evidence-cache';
+import appConfig from '@/config';
+import logger from '@/utils/logger';
+
+export interface ClaimRecord {
+  id: string;
+  claim: string;
+  label: VerdictLabel;
+  verdict: string;
+  confidence: number;
+  source?: { title: string; url: string };
+  mentionId: string;
+  executionId: string;
+  checkedAt: string;
+}
+
+export interface PreviousVerdict extends ClaimRecord {
+  stale: boolean;       // older than claimHistory.maxAgeDays
+}
+
+export interface ClaimSearchQuery {
+  q?: string;           // substring of the claim text
+  label?: VerdictLabel;
+  limit?: number;
+  offset?: number;
+}
+
+interface ClaimHistoryRow {
+  id: string;
+  execution_id: string;
+  mention_id: string;
+  claim_text: string;
+  claim_key: string;
+  label: VerdictLabel;
+  verdict: string;
+  confidence: number;
+  source_url: string | null;
+  source_title: string | null;
+  checked_at: string;
+  total?: string;
+}
+
+const COLUMNS = `id, execution_id, mention_id, claim_text, claim_key, label, verdict,
+  confidence, source_url, source_title, checked_at`;
+
+/**
+ * ClaimHistoryService - Registry of claims verified by completed fact-checks.
+ *
+ * Rows are indexed from factcheck artifacts when an execution completes (and by
+ * backfill() for artifacts stored before the registry existed). Fact-checks reusing
+ * a previous verdict, domain-restricted checks and claims answered from the evidence
+ * cache are not indexed.
+ */
+export class ClaimHistoryService {
+  /**
+   * Index the claims of a completed factcheck execution
+   */
+  async record(executionId: string, mentionId: string, claims: VerifiedClaim[], checkedAt?: string): Promise<number> {
+    let recorded = 0;
+
+    for (const claim of claims) {
+      // A reused cached verdict repeats an earlier check rather than verifying the claim again
+      if (!claim?.claim || claim.cached) {
+        continue;
+      }
+
+      const source = bestSource(claim);
+
+      try {
+        await db.query(
+          `INSERT INTO claim_history (execution_id, mention_id, claim_text, claim_key, label, verdict,
+             confidence, source_url, source_title, checked_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10::timestamptz, now()))`,
+          [
+            executionId,
+            mentionId,
+            claim.claim,
+            normalizeClaim(claim.claim),
+            // Fact-checks stored before verdict labels existed only have a narrative
+            claim.label || 'unverifiable',
+            claim.verdict || claim.reasoning || '',
+            claim.confidence ?? 0,
+            source?.url || null,
+            source?.title || null,
+            checkedAt || null
+          ]
+        );
+        recorded++;
+      } catch (error) {
+        logger.warn('Failed to record claim history', {
+          executionId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Latest previous verdict for the same claim (same normalised text). Reworded claims
+   * are not matched: wording that overlaps almost entirely can still say the opposite
+   * ("rose" vs "fell"). Unverifiable verdicts are skipped: new evidence may settle them.
+   */
+  async findPrevious(claim: string): Promise<PreviousVerdict | null> {
+    const [row] = await db.query<ClaimHistoryRow>(
+      `SELECT ${COLUMNS}
+       FROM claim_history
+       WHERE claim_key = $1 AND label <> 'unverifiable'
+       ORDER BY checked_at DESC
+       LIMIT 1`,
+      [normalizeClaim(claim)]
+    );
+
+    if (!row) {
+      return null;
+    }
+
+    const maxAgeMs = appConfig.claimHistory.maxAgeDays * 24 * 60 * 60 * 1000;
+
+    return {
+      ...toRecord(row),
+      stale: Date.now() - new Date(row.checked_at).getTime() > maxAgeMs
+    };
+  }
+
+  async search(query: ClaimSearchQuery = {}): Promise<{ claims: ClaimRecord[]; total: number }> {
+    const limit = Math.min(Math.max(query.limit || 20, 1), 100);
+    const offset = Math.max(query.offset || 0, 0);
+    const pattern = query.q ? `%${query.q.replace(/[\\%_]/g, '\\$&')}%` : null;
+
+    const rows = await db.query<ClaimHistoryRow>(
+      `SELECT ${COLUMNS}, count(*) OVER () AS total
+       FROM claim_history
+       WHERE ($1::text IS NULL OR claim_text ILIKE $1)
+         AND ($2::text IS NULL OR label = $2)
+       ORDER BY checked_at DESC
+       LIMIT $3 OFFSET $4`,
+      [pattern, query.label || null, limit, offset]
+    );
+
+    return {
+      claims: rows.map(toRecord),
+      total: rows.length > 0 ? parseInt(rows[0].total || '0', 10) : 0
+    };
+  }
+
+  /**
+   * Index completed factcheck artifacts that aren't in the registry yet, oldest first.
+   * Executions without a claim record() would keep (e.g. all verdicts reused from the
+   * evidence cache) are never selected, so repeated calls move on through the backlog.
+   *
+   * @returns Number of claims indexed
+   */
+  async backfill(limit = 500): Promise<number> {
+    const rows = await db.query<{ execution_id: string; mention_id: string; completed_at: string; claims: VerifiedClaim[] }>(
+      `SELECT a.action_execution_id AS execution_id, e.mention_id, e.completed_at,
+              a.payload_json->'verifiedClaims' AS claims
+       FROM artifacts a
+       JOIN action_executions e ON e.id = a.action_execution_id
+       WHERE a.type = 'factcheck'
+         AND e.status = 'completed'
+         AND jsonb_typeof(a.payload_json->'verifiedClaims') = 'array'
+         AND jsonb_array_length(a.payload_json->'verifiedClaims') > 0
+         AND NOT (a.payload_json ? 'reusedFrom')
+         AND NOT (a.payload_json ? 'sourceDomains')
+         AND EXISTS (
+           SELECT 1 FROM jsonb_array_elements(a.payload_json->'verifiedClaims') c
+           WHERE COALESCE(c->>'claim', '') <> '' AND COALESCE(c->>'cached', 'false') <> 'true'
+         )
+         AND NOT EXISTS (SELECT 1 FROM claim_history h WHERE h.execution_id = a.action_execution_id)
+       ORDER BY e.completed_at
+       LIMIT $1`,
+      [limit]
+    );
+
+    let recorded = 0;
+    for (const row of rows) {
+      recorded += await this.record(row.execution_id, row.mention_id, row.claims, row.completed_at);
+    }
+
+    if (rows.length > 0) {
+      logger.info(`Indexed ${recorded} claims from ${rows.length} earlier fact-checks into the claim history`);
+    }
+    return recorded;
+  }
+}
+
+function toRecord(row: ClaimHistoryRow): ClaimRecord {
+  return {
+    id: row.id,
+    claim: row.claim_text,
+    label: row.label,
+    verdict: row.verdict,
+    confidence: Number(row.confidence),
+    source: row.source_url ? { title: row.source_title || row.source_url, url: row.source_url } : undefined,
+    mentionId: row.mention_id,
+    executionId: row.execution_id,
+    checkedAt: new Date(row.checked_at).toISOString()
+  };
+}
+
+/**
+ * The claim's most reliable and relevant source
+ */
+export function bestSource(claim: VerifiedClaim): { title: string; url: string } | undefined {
+  const best = [...(claim.evidence || [])]
+    .sort((a, b) => (b.reliability * b.relevance) - (a.reliability * a.relevance))[0];
+  return best ? { title: best.title, url: best.url } : undefined;
+}
+
+export const claimHistoryService = new ClaimHistoryService();
@@ -4,72 +4,44 @@ import { RoutingDecision, HeuristicMatch, ClassificationRequest } from '@/orches
 import { Mention } from '@/types/mention';
 import logger from '@/utils/logger';
 import { extractKeywords } from '@/utils/text';
-
-const IntentSchema = z.object({
-  intent: z.enum(['summary', 'factcheck', 'unknown']),
-  confidence: z.number().min(0).max(1),
-  reason: z.string().optional()
-});
+import { actionRegistry } from '@/actions';
+import type { ActionRegistry } from '@/actions/registry';
 
 export class ClassifierService {
-  private readonly summaryKeywords = [
-    'summary', 'summarize', 'tl;dr', 'tldr', 'sum up', 'recap', 'overview'
-  ];
-
-  private readonly factcheckKeywords = [
-    // Explicit fact-checking terms
-    'verify', 'fact check', 'factcheck', 'fact-check',
-
-    // Truth verification patterns
-    'is this true', 'is this tru', 'is this real', 'is this legit',
-    'true or false', 'real or fake', 'legit or fake',
-
-    // Source/citation requests
-    'source', 'citation', 'cite', 'cite this', 'sources',
-
-    // Verification actions
-    'verify this', 'check this', 'confirm this', 'validate this',
-
-    // Authenticity checks
-    'accurate', 'authentic', 'genuine', 'legitimate', 'legit',
-
-    // Debunking patterns
-    'debunk', 'hoax', 'fake news', 'misinformation', 'disinformation'
-  ];
-
-  constructor(private aiService: AIService) {}
+  constructor(
+    private aiService: AIService,
+    private actions: ActionRegistry = actionRegistry
+  ) {}
 
   heuristicIntent(mention: Mention): HeuristicMatch | null {
     const content = mention.content.toLowerCase();
     const keywords = extractKeywords(content);
 
-    // Check for summary indicators
-    const summaryMatches = this.summaryKeywords.filter(keyword =>
-      content.includes(keyword) || keywords.includes(keyword)
-    );
-
-    // Check for factcheck indicators
-    const factcheckMatches = this.factcheckKeywords.filter(keyword =>
-      content.includes(keyword) || keywords.includes(keyword)
-    );
+    // Explicit requests (image, translate, thread questions) carry a higher priority than
+    // actions whose keywords often appear incidentally; the first action with a match wins
+    const candidates = this.actions.classifiable()
+      .filter(action => action.classifier?.heuristic)
+      .sort((a, b) => b.classifier!.heuristic!.priority - a.classifier!.heuristic!.priority);
 
-    // Priority: factcheck > summary
-    if (factcheckMatches.length > 0) {
-      return {
-        intent: 'factcheck',
-        confidence: Math.min(0.85, 0.5 + (factcheckMatches.length * 0.1)),
-        matchedKeywords: factcheckMatches,
-        reason: `Matched factcheck keywords: ${factcheckMatches.join(', ')}`
-      };
-    }
+    for (const action of candidates) {
+      const heuristic = action.classifier!.heuristic!;
 
-    if (summaryMatches.length > 0) {
-      return {
-        intent: 'summary',
-        confidence: Math.min(0.85, 0.4 + (summaryMatches.length * 0.1)),
-        matchedKeywords: summaryMatches,
-        reason: `Matched summary keywords: ${summaryMatches.join(', ')}`
-      };
+      const keywordMatches = (heuristic.keywords || []).filter(keyword =>
+        content.includes(keyword) || keywords.includes(keyword)
+      );
+      const patternMatches = (heuristic.patterns || [])
+        .map(pattern => content.match(pattern)?.[0])
+        .filter((match): match is string => !!match);
+      const matches = [...keywordMatches, ...patternMatches];
+
+      if (matches.length > 0) {
+        return {
+          intent: action.id,
+          confidence: Math.min(0.85, heuristic.baseConfidence + (matches.length * 0.1)),
+          matchedKeywords: matches,
+          reason: `Matched ${action.id} ${keywordMatches.length > 0 ? 'keywords' : 'patterns'}: ${matches.join(', ')}`
+        };
+      }
     }
 
     return null;
@@ -86,12 +58,14 @@ export class ClassifierService {
 
       const result = await this.aiService.generateObject(
         prompt,
-        IntentSchema,
+        this.buildIntentSchema(),
         'classifier'
       );
 
+      const intent = (result.object as any).intent;
       const decision: RoutingDecision = {
-        intent: (result.object as any).intent,
+        // Actions may be unregistered between building the prompt and parsing the answer
+        intent: this.actions.has(intent) ? intent : 'unknown',
         confidence: (result.object as any).confidence,
         reason: (result.object as any).reason,
         method: 'llm'
@@ -113,11 +87,28 @@ export class ClassifierService {
     }
   }
 
+  private buildIntentSchema() {
+    const intents = this.actions.classifiable().map(action => action.id);
+
+    return z.object({
+      intent: z.enum(['unknown', ...intents]),
+      confidence: z.number().min(0).max(1),
+      reason: z.string().optional()
+    });
+  }
+
   private buildClassificationPrompt(request: ClassificationRequest): string {
-    let prompt = `You are an intent classifier for a Pubky bot that provides two main services:
+    const actions = this.actions.classifiable();
+    const services = actions
+      .map((action, i) => `${i + 1}. ${action.id.toUpperCase()}: ${action.classifier!.description}`)
+      .join('\n');
+    const rules = actions
+      .map(action => `- ${action.id.toUpperCase()}: ${action.classifier!.rules}`)
+      .join('\n');
 
-1. SUMMARY: Summarizes long threads or conversations into key points
-2. FACTCHECK: Verifies claims against reliable sources using web search
+    let prompt = `You are an intent classifier for a Pubky bot that provides these services:
+
+${services}
 
 Analyze this mention and classify the intent:
 
@@ -135,18 +126,12 @@ Context:
     prompt += `
 
 Classification rules:
-- SUMMARY: User wants a summary, recap, overview, or tl;dr of content
-- FACTCHECK: User wants to verify claims, check facts, or find sources
-  Examples: "is this true", "is this tru", "is this real", "is this legit",
-  "verify this", "check this", "source", "real or fake", "true or false",
-  "debunk", "fact check", "misinformation", "authentic"
+${rules}
 - UNKNOWN: Intent is unclear or requests something else
 
-IMPORTANT: Questions about truthfulness, authenticity, or legitimacy should be FACTCHECK, not SUMMARY.
-
 Return ONLY valid JSON with this exact structure:
 {
-  "intent": "summary|factcheck|unknown",
+  "intent": "${[...actions.map(action => action.id), 'unknown'].join('|')}",
   "confidence": 0.0-1.0,
   "reason": "brief explanation"
 }`;
@@ -0,0 +1,105 @@
+import { db } from '@/infrastructure/database/connection';
+import logger from '@/utils/logger';
+
+// Earlier question/answer pairs kept in a follow-up prompt
+const MAX_TURNS = 6;
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+export interface BotReply {
+  mentionId: string;   // mention the reply answered
+  replyUri: string;
+  content: string;
+}
+
+/**
+ * Everything a follow-up needs to continue a session: the action that started
+ * it, that action's reply and stored artifacts, and the follow-up turns so far
+ * (oldest first).
+ */
+export interface PriorExchange {
+  reply: BotReply;                       // the reply being answered
+  actionId: string;                      // action that started the session
+  originalReply: string;                 // that action's reply text
+  artifacts: Record<string, any> | null; // that action's artifacts
+  turns: ConversationTurn[];
+}
+
+/**
+ * ConversationService links replies to the bot's own replies back to the
+ * action that produced them, using the replies/action_executions/artifacts tables.
+ */
+export class ConversationService {
+  /**
+   * Returns the bot reply published at `uri`, or null if the post is not ours or is a notice
+   */
+  async findBotReply(uri: string): Promise<BotReply | null> {
+    const rows = await db.query<{ mention_id: string; reply_uri: string; content: string }>(
+      `SELECT mention_id, reply_uri, content
+       FROM replies
+       WHERE reply_uri = $1 AND kind = 'action'
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [uri]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return {
+      mentionId: rows[0].mention_id,
+      replyUri: rows[0].reply_uri,
+      content: rows[0].content
+    };
+  }
+
+  async loadPriorExchange(replyUri: string): Promise<PriorExchange | null> {
+    const reply = await this.findBotReply(replyUri);
+    if (!reply) {
+      return null;
+    }
+
+    const [execution] = await db.query<{ action_id: string; payload_json: Record<string, any> | null }>(
+      `SELECT ae.action_id, a.payload_json
+       FROM action_executions ae
+       LEFT JOIN artifacts a ON a.action_execution_id = ae.id
+       WHERE ae.mention_id = $1 AND ae.status = 'completed'
+       ORDER BY ae.completed_at DESC
+       LIMIT 1`,
+      [reply.mentionId]
+    );
+
+    if (!execution) {
+      logger.debug('No completed action found for bot reply', {
+        replyUri,
+        mentionId: reply.mentionId
+      });
+      return { reply, actionId: 'unknown', originalReply: reply.content, artifacts: null, turns: [] };
+    }
+
+    const payload = execution.payload_json;
+
+    // A follow-up carries the session forward: original action, its artifacts and all turns
+    if (execution.action_id === 'followup' && payload) {
+      return {
+        reply,
+        actionId: payload.rootActionId || 'unknown',
+        originalReply: payload.rootReply || reply.content,
+        artifacts: payload.rootArtifacts || null,
+        turns: (payload.turns || []).slice(-MAX_TURNS)
+      };
+    }
+
+    return {
+      reply,
+      actionId: execution.action_id,
+      originalReply: reply.content,
+      artifacts: payload,
+      turns: []
+    };
+  }
+}
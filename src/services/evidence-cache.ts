@@ -0,0 +1,250 @@
+import { db } from '@/infrastructure/database/connection';
+import type { EnhancedEvidence, VerdictLabel } from './factcheck-websearch';
+import type { SearchResult } from './search/types';
+import { MetricsService } from './metrics';
+import appConfig from '@/config';
+import logger from '@/utils/logger';
+
+export interface CachedEvidence {
+  claim: string;               // claim the results were originally searched for
+  results: SearchResult[];     // credibility is assessed on read, against the current registry
+  label?: VerdictLabel;
+  verdict?: string;            // assessment that reached the label
+  match: 'exact' | 'near';
+  similarity: number;          // 1 for exact matches
+  cachedAt: string;
+}
+
+interface EvidenceCacheRow {
+  claim_key: string;
+  claim_text: string;
+  tokens: string[];
+  results_json: SearchResult[];
+  label: VerdictLabel | null;
+  verdict: string | null;
+  created_at: string;
+}
+
+// Filler words dropped before comparing claims. Negations are kept: they flip a claim.
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'in', 'on', 'at', 'to', 'for', 'from', 'by', 'with',
+  'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this', 'that', 'these',
+  'those', 'there', 'their', 'has', 'have', 'had', 'do', 'does', 'did', 'will', 'would', 'can',
+  'could', 'which', 'who', 'what', 'than', 'then', 'so', 'very', 'really', 'actually',
+  'just', 'about', 'into', 'over', 'also', 'some', 'say', 'says', 'said', 'claim', 'claims'
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'nor', 'without', 'nobody', 'nothing']);
+
+// Candidates fetched per lookup before scoring
+const CANDIDATE_LIMIT = 50;
+
+/**
+ * Lowercased words in order, without punctuation: "The Eiffel Tower is 330m tall!" → "the eiffel tower is 330m tall"
+ */
+export function normalizeClaim(text: string): string {
+  return words(text).join(' ');
+}
+
+/**
+ * Distinct content words of a claim, singularised, for near-duplicate matching
+ */
+export function claimTokens(text: string): string[] {
+  const tokens = words(text)
+    .filter(word => !STOPWORDS.has(word))
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+
+  return [...new Set(tokens)];
+}
+
+/**
+ * Word overlap (Jaccard) between two claims' tokens. Claims whose numbers or negations
+ * differ ("14 million" vs "37 million", "is" vs "is not") never match.
+ */
+export function claimSimilarity(a: string[], b: string[]): number {
+  const critical = (tokens: string[]) => tokens
+    .filter(token => /^\d/.test(token) || NEGATIONS.has(token))
+    .sort()
+    .join(' ');
+
+  if (critical(a) !== critical(b)) {
+    return 0;
+  }
+
+  const setB = new Set(b);
+  const shared = a.filter(token => setB.has(token)).length;
+  const union = new Set([...a, ...b]).size;
+
+  return union === 0 ? 0 : shared / union;
+}
+
+function words(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/(\d),(\d{3})/g, '$1$2')   // "1,000" → "1000"
+    .match(/\d+(?:\.\d+)?[\p{L}%]*|[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * EvidenceCacheService - Fact-check search results in Postgres, shared by every worker
+ * replica and kept across restarts.
+ *
+ * Entries are keyed by normalised claim text. A lookup without an exact match falls back
+ * to the closest reworded claim above search.cache.similarity. Each entry lives for the
+ * TTL of the most short-lived source category among its results (news before reference).
+ * Source credibility is not stored: hits are scored against the registry as it is now.
+ */
+export class EvidenceCacheService {
+  constructor(private metrics: MetricsService) {
+    if (appConfig.search.cache.enabled) {
+      setInterval(() => this.prune(), 600000).unref(); // every 10 minutes
+    }
+  }
+
+  async get(claim: string): Promise<CachedEvidence | null> {
+    if (!appConfig.search.cache.enabled) {
+      return null;
+    }
+
+    const key = normalizeClaim(claim);
+    const tokens = claimTokens(claim);
+
+    try {
+      const rows = await db.query<EvidenceCacheRow>(
+        `SELECT claim_key, claim_text, tokens, results_json, label, verdict, created_at
+         FROM evidence_cache
+         WHERE expires_at > now() AND (claim_key = $1 OR tokens && $2::text[])
+         ORDER BY created_at DESC
+         LIMIT ${CANDIDATE_LIMIT}`,
+        [key, tokens]
+      );
+
+      // Newest first, so ties go to the most recent search
+      let best: { row: EvidenceCacheRow; similarity: number } | null = null;
+      for (const row of rows) {
+        const similarity = row.claim_key === key ? 1 : claimSimilarity(tokens, row.tokens);
+        if (similarity >= appConfig.search.cache.similarity && (!best || similarity > best.similarity)) {
+          best = { row, similarity };
+        }
+      }
+
+      if (!best) {
+        this.metrics.incrementEvidenceCache('miss');
+        return null;
+      }
+
+      const match = best.row.claim_key === key ? 'exact' : 'near';
+      this.metrics.incrementEvidenceCache(match === 'exact' ? 'hit' : 'near_hit');
+
+      await db.query('UPDATE evidence_cache SET hits = hits + 1 WHERE claim_key = $1', [best.row.claim_key]);
+
+      logger.debug('Evidence cache hit', {
+        claim: claim.substring(0, 50),
+        cachedClaim: best.row.claim_text.substring(0, 50),
+        match,
+        similarity: best.similarity
+      });
+
+      return {
+        claim: best.row.claim_text,
+        results: best.row.results_json,
+        label: best.row.label || undefined,
+        verdict: best.row.verdict || undefined,
+        match,
+        similarity: best.similarity,
+        cachedAt: best.row.created_at
+      };
+    } catch (error) {
+      // A cache outage only costs a search
+      this.metrics.incrementEvidenceCache('error');
+      logger.warn('Evidence cache lookup failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Store (or refresh) a claim's search results. Only url, title and snippet are kept;
+   * the source categories set the TTL. The verdict (label and the assessment text) is
+   * omitted when a domain restriction shaped it.
+   */
+  async set(
+    claim: string,
+    results: EnhancedEvidence[],
+    verdict?: { label: VerdictLabel; text: string }
+  ): Promise<void> {
+    if (!appConfig.search.cache.enabled || results.length === 0) {
+      return;
+    }
+
+    const { category, ttlSeconds } = this.ttlFor(results);
+
+    try {
+      await db.query(
+        `INSERT INTO evidence_cache (claim_key, claim_text, tokens, results_json, label, verdict, category, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, now() + make_interval(secs => $8))
+         ON CONFLICT (claim_key)
+         DO UPDATE SET claim_text = EXCLUDED.claim_text,
+                       tokens = EXCLUDED.tokens,
+                       results_json = EXCLUDED.results_json,
+                       label = EXCLUDED.label,
+                       verdict = EXCLUDED.verdict,
+                       category = EXCLUDED.category,
+                       created_at = now(),
+                       expires_at = EXCLUDED.expires_at`,
+        [
+          normalizeClaim(claim),
+          claim,
+          claimTokens(claim),
+          JSON.stringify(results.map(({ url, title, excerpt }) => ({ url, title, snippet: excerpt || '' }))),
+          verdict?.label || null,
+          verdict?.text || null,
+          category,
+          ttlSeconds
+        ]
+      );
+    } catch (error) {
+      logger.warn('Failed to store evidence in cache', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * TTL of the most short-lived source category among the results
+   */
+  ttlFor(results: EnhancedEvidence[]): { category: string; ttlSeconds: number } {
+    const { defaultTtlSeconds, categoryTtlSeconds } = appConfig.search.cache;
+
+    let shortest = { category: 'unknown', ttlSeconds: defaultTtlSeconds as number };
+    results.forEach((result, i) => {
+      const category = result.category || 'unknown';
+      const ttlSeconds = categoryTtlSeconds[category] ?? defaultTtlSeconds;
+      if (i === 0 || ttlSeconds < shortest.ttlSeconds) {
+        shortest = { category, ttlSeconds };
+      }
+    });
+
+    return shortest;
+  }
+
+  async prune(): Promise<number> {
+    try {
+      const rows = await db.query<{ claim_key: string }>(
+        'DELETE FROM evidence_cache WHERE expires_at <= now() RETURNING claim_key'
+      );
+
+      if (rows.length > 0) {
+        logger.debug(`Pruned ${rows.length} expired evidence cache entries`);
+      }
+      return rows.length;
+    } catch (error) {
+      logger.warn('Failed to prune evidence cache', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return 0;
+    }
+  }
+}
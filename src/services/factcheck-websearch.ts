@@ -2,11 +2,13 @@ import { AIService } from './ai';
 import { ThreadContext } from '@/types/thread';
 import { InjectionDetector } from './injection-detector';
 import { SecurePrompts } from './secure-prompts';
+import { SearchProvider, SearchResult } from './search';
+import { EvidenceCacheService } from './evidence-cache';
+import { SourceCredibilityService } from './source-credibility';
 import logger from '@/utils/logger';
+import { matchesSourceDomain } from '@/utils/mention-options';
 import appConfig from '@/config';
 import { z } from 'zod';
-import * as fs from 'fs';
-import * as path from 'path';
 
 export interface Claim {
   text: string;
@@ -25,17 +27,22 @@ export interface Evidence {
 
 export interface EnhancedEvidence extends Evidence {
   credibilityRating?: 'highly reliable' | 'generally reliable' | 'moderate' | 'questionable' | 'unknown';
+  category?: string;         // source category (news, scientific, government...), sets the evidence cache TTL
   credibilityExplanation?: string;
   perspective?: string;
 }
 
+export type VerdictLabel = 'true' | 'false' | 'misleading' | 'unverifiable';
+
 export interface VerifiedClaim {
   claim: string;
-  verdict: string;
+  label: VerdictLabel;       // short verdict shown per claim
+  verdict: string;           // narrative assessment
   confidence: number;
   evidence: EnhancedEvidence[];
   reasoning: string;
   alternativePerspectives?: string[];
+  cached?: boolean;          // verdict reused from the evidence cache instead of assessed
 }
 
 export interface FactcheckResult {
@@ -52,9 +59,20 @@ export interface FactcheckResult {
     sourcesFound: number;
     searchQueries: number;
     processingTimeMs: number;
+    aiTokensUsedVerify?: number; // tokens spent writing verdicts, across claims
+  };
+  aiMeta?: {
+    searchProvider: string;
+    provider?: string;           // AI provider/model that wrote the verdicts
+    model?: string;
   };
 }
 
+export interface VerifyOptions {
+  sourceDomains?: string[];  // only search and cite these domains (".gov", "reuters.com")
+  language?: string;         // write the assessment in this language
+}
+
 // Zod schema for claim extraction
 const ClaimsExtractionSchema = z.object({
   claims: z.array(z.object({
@@ -76,90 +94,37 @@ const NarrativeVerificationSchema = z.object({
     .describe('2-4 sentence explanation of findings based on evidence from reliable sources')
 });
 
-interface CachedSearchResult {
-  query: string;
-  results: EnhancedEvidence[];
-  timestamp: number;
-}
+// First line of the assessment, e.g. "VERDICT: FALSE" or "**Verdict:** misleading"
+const VERDICT_LINE_PATTERN = /^[\s*#_]*verdict[\s*_]*:[\s*_]*(true|false|misleading|unverifiable)\b[^\n]*\n*/i;
 
 /**
- * FactcheckWebSearchService - Uses OpenAI's native web search API
- * This is a simpler alternative to the MCP-based factcheck service
+ * FactcheckWebSearchService - Verifies claims with the configured SearchProvider.
+ *
+ * OpenAI web search writes its own assessment; for other providers (Brave MCP,
+ * fixtures) the factcheck model writes it from the search results.
  */
 export class FactcheckWebSearchService {
-  private sourceCredibilityConfig: any;
-  private searchCache: Map<string, CachedSearchResult>;
-  private readonly CACHE_TTL = 3600000; // 1 hour in milliseconds
   private injectionDetector: InjectionDetector;
 
-  constructor(private aiService: AIService) {
-    // Load source credibility configuration
-    this.loadSourceCredibilityConfig();
-
-    // Initialize search cache
-    this.searchCache = new Map();
-
+  constructor(
+    private aiService: AIService,
+    private searchProvider: SearchProvider,
+    private evidenceCache: EvidenceCacheService,
+    private sourceCredibility: SourceCredibilityService
+  ) {
     // Initialize injection detector
     this.injectionDetector = new InjectionDetector();
-
-    // Periodically clean up expired cache entries
-    setInterval(() => this.cleanupCache(), 600000); // Clean up every 10 minutes
   }
 
-  private cleanupCache(): void {
-    const now = Date.now();
-    const expired = Array.from(this.searchCache.entries())
-      .filter(([_, value]) => now - value.timestamp > this.CACHE_TTL)
-      .map(([key]) => key);
-
-    expired.forEach(key => this.searchCache.delete(key));
-  }
-
-  private getCacheKey(query: string): string {
-    return query.toLowerCase().trim().replace(/\s+/g, ' ');
-  }
-
-  private getCachedResults(query: string): EnhancedEvidence[] | null {
-    const cached = this.searchCache.get(this.getCacheKey(query));
-
-    if (!cached) return null;
-
-    const isValid = Date.now() - cached.timestamp <= this.CACHE_TTL;
-    if (isValid) {
-      logger.debug(`Cache hit: ${query.substring(0, 50)}`);
-      return cached.results;
+  private filterBySourceDomains(
+    evidence: EnhancedEvidence[] | null,
+    options: VerifyOptions
+  ): EnhancedEvidence[] | null {
+    if (!evidence || !options.sourceDomains?.length) {
+      return evidence;
     }
 
-    this.searchCache.delete(this.getCacheKey(query));
-    return null;
-  }
-
-  private setCachedResults(query: string, results: EnhancedEvidence[]): void {
-    this.searchCache.set(this.getCacheKey(query), {
-      query,
-      results,
-      timestamp: Date.now()
-    });
-  }
-
-  private loadSourceCredibilityConfig(): void {
-    try {
-      const configPath = path.join(process.cwd(), 'config', 'source-credibility.json');
-      this.sourceCredibilityConfig = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-      logger.info(`Loaded ${Object.keys(this.sourceCredibilityConfig.sources).length} source credibility entries`);
-    } catch {
-      this.sourceCredibilityConfig = {
-        sources: {},
-        domainRules: {
-          '.gov': { score: 0.8, reason: 'Government source' },
-          '.edu': { score: 0.85, reason: 'Educational institution' },
-          '.org': { score: 0.7, reason: 'Organization' }
-        },
-        categoryDefaults: { unknown: 0.5 },
-        config: { defaultScore: 0.5 }
-      };
-      logger.warn('Using default source credibility config');
-    }
+    return evidence.filter(item => matchesSourceDomain(this.extractDomain(item.url), options.sourceDomains!));
   }
 
   async extractClaims(context: ThreadContext): Promise<Claim[]> {
@@ -167,7 +132,7 @@ export class FactcheckWebSearchService {
     // - If the mention post has a parent: fact-check the entire thread (parent + ancestors)
     // - If the mention post has no parent: fact-check just that post's content (excluding bot mention)
 
-    const mentionPost = context.posts[context.posts.length - 1]; // Most recent post is the mention
+    const mentionPost = context.mentionPost;
 
     let contentToAnalyze: string;
 
@@ -243,7 +208,7 @@ export class FactcheckWebSearchService {
     // - If the mention post has a parent: fact-check the entire thread (parent + ancestors)
     // - If the mention post has no parent: fact-check just that post's content (excluding bot mention)
 
-    const mentionPost = context.posts[context.posts.length - 1]; // Most recent post is the mention
+    const mentionPost = context.mentionPost;
 
     let contentToAnalyze: string;
 
@@ -278,18 +243,18 @@ export class FactcheckWebSearchService {
     return this.extractClaimsWithAI(contentToAnalyze);
   }
 
-  async verify(claims: Claim[]): Promise<FactcheckResult> {
+  async verify(claims: Claim[], options: VerifyOptions = {}): Promise<FactcheckResult> {
     const startTime = Date.now();
     let searchQueries = 0;
     const allEvidence: Evidence[] = [];
     const verifiedClaims: VerifiedClaim[] = [];
     let verifyTokensUsed = 0;
+    let verifyModel: { provider?: string; model?: string } = {};
 
     try {
-      // Check if OpenAI is the primary provider
-      if (appConfig.ai.primaryProvider !== 'openai') {
-        logger.warn('Web search requires OpenAI as primary provider');
-        return this.createUnverifiableResult(claims, startTime, 'Web search requires OpenAI provider');
+      if (!this.searchProvider.isAvailable()) {
+        logger.warn('Search provider not available', { provider: this.searchProvider.name });
+        return this.createUnverifiableResult(claims, startTime);
       }
 
       for (const claim of claims) {
@@ -299,17 +264,24 @@ export class FactcheckWebSearchService {
         });
 
         try {
-          const verificationResult = await this.verifySingleClaim(claim);
+          const verificationResult = await this.verifySingleClaim(claim, options);
           verifiedClaims.push(verificationResult.verifiedClaim);
           allEvidence.push(...verificationResult.evidence);
           searchQueries += verificationResult.searchQueries;
           verifyTokensUsed += (verificationResult.tokensUsed || 0);
+          if (verificationResult.provider) {
+            verifyModel = { provider: verificationResult.provider, model: verificationResult.model };
+          }
 
         } catch (error) {
-          logger.warn('Failed to verify claim, marking as unverifiable:', error);
+          logger.warn('Failed to verify claim, marking as unverifiable', {
+            provider: this.searchProvider.name,
+            error: error instanceof Error ? error.message : String(error)
+          });
 
           verifiedClaims.push({
             claim: claim.text,
+            label: 'unverifiable',
             verdict: 'unverifiable',
             confidence: 0.1,
             evidence: [],
@@ -331,6 +303,10 @@ export class FactcheckWebSearchService {
           searchQueries,
           processingTimeMs: Date.now() - startTime,
           aiTokensUsedVerify: verifyTokensUsed
+        },
+        aiMeta: {
+          searchProvider: this.searchProvider.name,
+          ...verifyModel
         }
       };
 
@@ -349,174 +325,179 @@ export class FactcheckWebSearchService {
   }
 
   private async verifySingleClaim(
-    claim: Claim
+    claim: Claim,
+    options: VerifyOptions
   ): Promise<{
     verifiedClaim: VerifiedClaim;
     evidence: Evidence[];
     searchQueries: number;
     tokensUsed?: number;
+    provider?: string;
+    model?: string;
   }> {
-    // Check cache first
-    const cacheKey = this.getCacheKey(claim.text);
-    const cachedEvidence = this.getCachedResults(claim.text);
+    // Check the shared evidence cache first (exact or reworded claim)
+    const cached = await this.evidenceCache.get(claim.text);
+    const cachedEvidence = this.filterBySourceDomains(
+      cached ? cached.results.map(result => this.toEvidence(result)) : null,
+      options
+    );
 
     if (cachedEvidence && cachedEvidence.length > 0) {
       logger.info('Using cached evidence for claim', {
         claim: claim.text.substring(0, 50),
-        evidenceCount: cachedEvidence.length
+        evidenceCount: cachedEvidence.length,
+        match: cached!.match,
+        similarity: cached!.similarity
       });
 
-      const verification = this.buildVerificationFromEvidence(claim.text, cachedEvidence);
+      // The verdict only carries over to the same claim, checked without a domain restriction.
+      // A reworded claim can say the opposite ("rose" vs "fell"), so it is assessed again.
+      if (cached!.match === 'exact' && !options.sourceDomains?.length && cached!.label && cached!.verdict) {
+        return {
+          verifiedClaim: this.buildVerificationFromEvidence(claim.text, cachedEvidence, {
+            label: cached!.label,
+            text: cached!.verdict
+          }),
+          evidence: cachedEvidence.slice(0, 3),
+          searchQueries: 0
+        };
+      }
+
+      const detection = this.injectionDetector.detect(claim.text);
+      const assessment = await this.assessFromResults(claim, detection.sanitized, cached!.results, cachedEvidence, options);
 
       return {
-        verifiedClaim: verification,
-        evidence: cachedEvidence.slice(0, 3),
-        searchQueries: 0
+        verifiedClaim: this.toVerification(assessment.text, claim.text, cachedEvidence),
+        evidence: cachedEvidence,
+        searchQueries: 0,
+        tokensUsed: assessment.tokensUsed,
+        provider: assessment.provider,
+        model: appConfig.ai.models.factcheck
       };
     }
 
     // Detect and sanitize claim text
     const detection = this.injectionDetector.detect(claim.text);
 
-    // Build secure prompt for web search
+    // Build secure prompt for providers that write their own assessment
     const prompt = SecurePrompts.buildFactcheckPrompt(
       detection.sanitized,
-      claim.context
+      claim.context,
+      options
     );
 
-    // Generate verification with OpenAI web search
-    const result = await this.verifyWithWebSearch(claim, prompt);
+    const response = await this.searchProvider.search({
+      query: detection.sanitized,
+      prompt,
+      maxResults: appConfig.search.maxResults,
+      sourceDomains: options.sourceDomains
+    });
 
-    if (!result) {
-      return {
-        verifiedClaim: {
-          claim: claim.text,
-          verdict: 'Unable to verify - web search unavailable',
-          confidence: 0.1,
-          evidence: [],
-          reasoning: 'Verification requires web search which could not be performed'
-        },
-        evidence: [],
-        searchQueries: 0
-      };
-    }
+    const evidence = response.results.map(result => this.toEvidence(result));
 
-    // Extract evidence from web search results
-    const evidence: Evidence[] = [];
-    let searchCount = 0;
-
-    if (result.toolResults?.length > 0) {
-      for (const toolResult of result.toolResults) {
-        // OpenAI uses 'web_search_preview' as the tool name
-        if (toolResult.toolName === 'web_search_preview' || toolResult.toolName === 'web_search') {
-          searchCount++;
-          const extractedEvidence = this.extractEvidenceFromWebSearch(toolResult);
-          evidence.push(...extractedEvidence);
-        }
-      }
+    // The search is asked to stay within the requested domains; drop anything it didn't
+    const allowedEvidence = this.filterBySourceDomains(evidence, options)!;
 
-      // Cache the extracted evidence
-      if (evidence.length > 0) {
-        this.setCachedResults(claim.text, evidence);
-      }
-    }
+    let aiText = (response.answer || '').trim();
+    let tokensUsed = response.usage?.totalTokens || 0;
+    let provider = response.provider;
+    let model = response.model;
 
-    // Build narrative from AI response
-    let aiText = (result.text || '').trim();
-    if (aiText.length < 50 && evidence.length > 0) {
-      aiText = this.buildNarrativeFromEvidence(claim.text, evidence);
+    // Search-only providers: the factcheck model assesses the results
+    if (response.answer === undefined && allowedEvidence.length > 0) {
+      const assessment = await this.assessFromResults(claim, detection.sanitized, response.results, allowedEvidence, options);
+      aiText = assessment.text;
+      tokensUsed += assessment.tokensUsed;
+      provider = assessment.provider;
+      model = appConfig.ai.models.factcheck;
     }
 
-    // Parse verification response
-    const verification = this.parseVerificationResponse(aiText, claim.text, evidence);
+    const verification = this.toVerification(aiText, claim.text, allowedEvidence);
 
-    // Ensure verdict is populated
-    if (!verification.verdict?.trim()) {
-      verification.verdict = verification.reasoning || 'Unable to verify this claim with available evidence';
+    // Cache the extracted evidence, with the verdict when no domain restriction shaped it
+    if (evidence.length > 0) {
+      await this.evidenceCache.set(
+        claim.text,
+        evidence,
+        options.sourceDomains?.length ? undefined : { label: verification.label, text: verification.verdict }
+      );
     }
 
     return {
       verifiedClaim: verification,
-      evidence,
-      searchQueries: searchCount,
-      tokensUsed: (result.usage as any)?.totalTokens || 0
+      evidence: allowedEvidence,
+      searchQueries: response.searchQueries,
+      tokensUsed,
+      provider,
+      model
     };
   }
 
-  private async verifyWithWebSearch(
-    claim: Claim,
-    prompt: string
-  ): Promise<any> {
-    try {
-      // Use OpenAI's web search by passing the web_search tool
-      const result = await this.aiService.generateTextWithWebSearch(
-        prompt,
-        'factcheck'
-      );
-
-      // Check if web search was used (OpenAI uses 'web_search_preview')
-      const hasWebSearch = result.toolResults?.some(tr =>
-        tr.toolName === 'web_search_preview' || tr.toolName === 'web_search'
-      );
-
-      if (hasWebSearch) {
-        logger.debug('Web search used successfully', {
-          claim: claim.text.substring(0, 50),
-          toolResults: result.toolResults?.length || 0
-        });
-        return result;
-      }
-
-      logger.warn('Web search not used in verification');
-      return result;
-
-    } catch (error: any) {
-      logger.error('Web search verification failed:', error);
-      throw error;
+  private toVerification(aiText: string, claimText: string, evidence: EnhancedEvidence[]): VerifiedClaim {
+    // Build narrative from the evidence if the assessment is missing or too short
+    if (aiText.length < 50 && evidence.length > 0) {
+      aiText = this.buildNarrativeFromEvidence(claimText, evidence);
     }
-  }
 
-  private extractEvidenceFromWebSearch(toolResult: any): EnhancedEvidence[] {
-    logger.debug('Extracting evidence from web search result', {
-      toolResult: toolResult
-    });
-
-    const evidence: EnhancedEvidence[] = [];
+    const verification = this.parseVerificationResponse(aiText, claimText, evidence);
 
-    // OpenAI web search returns results in a specific format
-    // The result should contain search results with urls, titles, and snippets
-    const content = toolResult.result || toolResult.content || [];
+    // Ensure verdict is populated
+    if (!verification.verdict?.trim()) {
+      verification.verdict = verification.reasoning || 'Unable to verify this claim with available evidence';
+    }
 
-    if (Array.isArray(content)) {
-      for (const item of content.slice(0, 5)) {
-        const url = item.url || item.link;
-        const title = item.title || item.name;
-        const snippet = item.snippet || item.description || item.excerpt || '';
+    return verification;
+  }
 
-        if (!url || !title) continue;
+  private async assessFromResults(
+    claim: Claim,
+    sanitizedClaim: string,
+    results: SearchResult[],
+    allowedEvidence: EnhancedEvidence[],
+    options: VerifyOptions
+  ): Promise<{ text: string; tokensUsed: number; provider?: string }> {
+    const allowedUrls = new Set(allowedEvidence.map(item => item.url));
+
+    // Snippets are third-party text; sanitise them like any other user data
+    const sanitizedResults = results
+      .filter(result => allowedUrls.has(result.url))
+      .map(result => ({
+        ...result,
+        title: this.injectionDetector.detect(result.title).sanitized,
+        snippet: this.injectionDetector.detect(result.snippet).sanitized
+      }));
+
+    const prompt = SecurePrompts.buildFactcheckFromResultsPrompt(
+      sanitizedClaim,
+      claim.context,
+      sanitizedResults,
+      options
+    );
 
-        const credibility = this.assessSourceReliability(url);
+    const result = await this.aiService.generateText(prompt, 'factcheck');
 
-        evidence.push({
-          source: this.extractDomain(url),
-          title,
-          url,
-          excerpt: snippet,
-          reliability: credibility.score,
-          relevance: 0.8,
-          credibilityRating: credibility.rating,
-          credibilityExplanation: credibility.explanation,
-          perspective: credibility.perspective
-        });
-      }
-    }
+    return {
+      text: (result.text || '').trim(),
+      tokensUsed: result.usage?.totalTokens || 0,
+      provider: result.provider
+    };
+  }
 
-    logger.debug('Evidence extraction complete', {
-      evidenceCount: evidence.length,
-      sources: evidence.map(e => e.source)
-    });
+  private toEvidence(result: SearchResult): EnhancedEvidence {
+    const credibility = this.sourceCredibility.assess(result.url);
 
-    return evidence;
+    return {
+      source: this.extractDomain(result.url),
+      title: result.title,
+      url: result.url,
+      excerpt: result.snippet,
+      reliability: credibility.score,
+      relevance: 0.8,
+      credibilityRating: credibility.rating,
+      credibilityExplanation: credibility.explanation,
+      perspective: credibility.perspective,
+      category: credibility.category
+    };
   }
 
   private buildNarrativeFromEvidence(claimText: string, evidence: EnhancedEvidence[]): string {
@@ -545,76 +526,6 @@ export class FactcheckWebSearchService {
     }
   }
 
-  private assessSourceReliability(url: string): {
-    score: number;
-    rating: 'highly reliable' | 'generally reliable' | 'moderate' | 'questionable' | 'unknown';
-    explanation: string;
-    perspective: string;
-  } {
-    const domain = this.extractDomain(url);
-    const { sources, domainRules, categoryDefaults, config } = this.sourceCredibilityConfig;
-
-    // Check known sources
-    if (sources[domain]) {
-      const source = sources[domain];
-      return {
-        score: source.score,
-        rating: this.scoreToRating(source.score),
-        explanation: source.notes || `${source.tier} tier ${source.category} source`,
-        perspective: source.perspective || source.category
-      };
-    }
-
-    // Check domain suffix rules
-    const suffix = Object.keys(domainRules).find(s => domain.endsWith(s));
-    if (suffix) {
-      const rule = domainRules[suffix];
-      return {
-        score: rule.score,
-        rating: this.scoreToRating(rule.score),
-        explanation: rule.notes || rule.reason,
-        perspective: rule.reason
-      };
-    }
-
-    // Infer category from domain patterns
-    const category = this.inferSourceCategory(domain);
-    const score = categoryDefaults[category] || config.defaultScore;
-
-    return {
-      score,
-      rating: this.scoreToRating(score),
-      explanation: `Unverified ${category} source`,
-      perspective: category
-    };
-  }
-
-  private inferSourceCategory(domain: string): string {
-    const patterns = {
-      news: ['news', 'times', 'post', 'daily', 'tribune', 'herald'],
-      scientific: ['journal', 'research', 'academic', 'science', 'scholar'],
-      health: ['health', 'medical', 'clinic', 'hospital', 'pharma'],
-      business: ['business', 'finance', 'market', 'trade', 'commerce'],
-      tech: ['tech', 'code', 'dev', 'digital', 'cyber']
-    };
-
-    for (const [category, keywords] of Object.entries(patterns)) {
-      if (keywords.some(keyword => domain.includes(keyword))) {
-        return category;
-      }
-    }
-
-    return 'unknown';
-  }
-
-  private scoreToRating(score: number): 'highly reliable' | 'generally reliable' | 'moderate' | 'questionable' | 'unknown' {
-    if (score >= 0.9) return 'highly reliable';
-    if (score >= 0.75) return 'generally reliable';
-    if (score >= 0.5) return 'moderate';
-    if (score >= 0.25) return 'questionable';
-    return 'unknown';
-  }
-
   private parseVerificationResponse(
     aiResponse: string,
     claim: string,
@@ -627,6 +538,14 @@ export class FactcheckWebSearchService {
 
     let narrative = aiResponse.trim();
 
+    // The prompts ask for a "VERDICT: <label>" first line; without one the claim counts as unverifiable
+    let label: VerdictLabel = 'unverifiable';
+    const verdictLine = narrative.match(VERDICT_LINE_PATTERN);
+    if (verdictLine) {
+      label = verdictLine[1].toLowerCase() as VerdictLabel;
+      narrative = narrative.slice(verdictLine[0].length).trim();
+    }
+
     // Remove meta-commentary
     narrative = narrative
       .replace(/^I searched for.*?\. /i, '')
@@ -637,6 +556,7 @@ export class FactcheckWebSearchService {
 
     if (narrative.length < 50) {
       narrative = 'Unable to verify this claim with the available search results.';
+      label = 'unverifiable';
       logger.warn('Response too short, using fallback', {
         originalLength: aiResponse.length
       });
@@ -655,6 +575,7 @@ export class FactcheckWebSearchService {
 
     return {
       claim,
+      label,
       verdict: narrative,
       confidence: Math.min(Math.max(confidenceScore, 0.1), 1.0),
       evidence: evidence.slice(0, 3),
@@ -679,25 +600,11 @@ export class FactcheckWebSearchService {
 
     const avgConfidence = verifiedClaims.reduce((sum, claim) => sum + claim.confidence, 0) / verifiedClaims.length;
 
-    let narrative = '';
-
-    if (verifiedClaims.length === 1) {
-      narrative = verifiedClaims[0].reasoning;
-    } else {
-      const mostConfident = [...verifiedClaims].sort((a, b) => b.confidence - a.confidence)[0];
-      narrative = mostConfident.reasoning;
-
-      const otherHighConfidence = verifiedClaims
-        .filter(c => c !== mostConfident && c.confidence > 0.5)
-        .slice(0, 1);
-
-      if (otherHighConfidence.length > 0) {
-        const additionalContext = otherHighConfidence[0].reasoning.split(/[.!?]/)[0];
-        if (additionalContext && !narrative.includes(additionalContext)) {
-          narrative += ' Additionally, ' + additionalContext.toLowerCase() + '.';
-        }
-      }
-    }
+    // Several claims can disagree, so they're tallied rather than merged into one narrative;
+    // the reply lists each claim with its own verdict
+    const narrative = verifiedClaims.length === 1
+      ? verifiedClaims[0].reasoning
+      : this.summarizeVerdicts(verifiedClaims);
 
     return {
       narrative,
@@ -707,6 +614,23 @@ export class FactcheckWebSearchService {
     };
   }
 
+  /**
+   * "I checked 3 claims: 1 true, 1 false and 1 unverifiable."
+   */
+  private summarizeVerdicts(verifiedClaims: VerifiedClaim[]): string {
+    const counts = new Map<VerdictLabel, number>();
+    for (const claim of verifiedClaims) {
+      counts.set(claim.label, (counts.get(claim.label) || 0) + 1);
+    }
+
+    const parts = [...counts.entries()].map(([label, count]) => `${count} ${label}`);
+    const tally = parts.length > 1
+      ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+      : parts[0];
+
+    return `I checked ${verifiedClaims.length} claims: ${tally}.`;
+  }
+
   private deduplicateAndRankSources(evidence: EnhancedEvidence[]): EnhancedEvidence[] {
     const uniqueSources = new Map<string, EnhancedEvidence>();
 
@@ -722,12 +646,13 @@ export class FactcheckWebSearchService {
       .slice(0, 5);
   }
 
-  private createUnverifiableResult(claims: Claim[], startTime: number, reason?: string): FactcheckResult {
-    const narrativeMessage = reason || "I wasn't able to verify this claim because the web search service is currently unavailable. Please try again later.";
+  private createUnverifiableResult(claims: Claim[], startTime: number): FactcheckResult {
+    const narrativeMessage = "I wasn't able to verify this claim because the web search service is currently unavailable. Please try again later.";
 
     return {
       verifiedClaims: claims.map(claim => ({
         claim: claim.text,
+        label: 'unverifiable' as const,
         verdict: narrativeMessage,
         confidence: 0.1,
         evidence: [],
@@ -749,39 +674,25 @@ export class FactcheckWebSearchService {
     };
   }
 
-  private buildVerificationFromEvidence(claimText: string, evidence: EnhancedEvidence[]): VerifiedClaim {
-    const avgReliability = evidence.length > 0
-      ? evidence.reduce((sum, e) => sum + e.reliability, 0) / evidence.length
-      : 0.5;
-
-    let verdict = '';
-    let confidence = avgReliability;
-    let reasoning = '';
-
-    if (evidence.length === 0) {
-      verdict = 'unverifiable';
-      confidence = 0.1;
-      reasoning = 'No cached evidence available for this claim';
-    } else if (avgReliability >= 0.8) {
-      verdict = 'Supported by highly reliable sources';
-      reasoning = `Found ${evidence.length} cached sources with high credibility (${evidence.map(e => e.source).slice(0, 3).join(', ')})`;
-    } else if (avgReliability >= 0.6) {
-      verdict = 'Supported by generally reliable sources';
-      reasoning = `Found ${evidence.length} cached sources with moderate to good credibility`;
-    } else {
-      verdict = 'Supported by sources with mixed reliability';
-      confidence = Math.max(0.3, avgReliability);
-      reasoning = `Found ${evidence.length} cached sources but reliability varies`;
-    }
-
-    const narrative = `Based on previously cached search results: ${reasoning}. The claim "${claimText}" appears to be ${verdict.toLowerCase()}.`;
+  /**
+   * Verified claim from an exact cache hit, reusing the cached label and assessment
+   */
+  private buildVerificationFromEvidence(
+    claimText: string,
+    evidence: EnhancedEvidence[],
+    cachedVerdict: { label: VerdictLabel; text: string }
+  ): VerifiedClaim {
+    const avgReliability = evidence.reduce((sum, e) => sum + e.reliability, 0) / evidence.length;
+    const confidence = evidence.length >= 3 ? avgReliability : 0.5;
 
     return {
       claim: claimText,
-      verdict: narrative,
-      confidence,
+      label: cachedVerdict.label,
+      verdict: cachedVerdict.text,
+      confidence: Math.min(Math.max(confidence, 0.1), 1.0),
       evidence: evidence.slice(0, 3),
-      reasoning
+      reasoning: cachedVerdict.text,
+      cached: true
     };
   }
 }
@@ -0,0 +1,93 @@
+import { AIService } from './ai';
+import { InjectionDetector } from './injection-detector';
+import { SecurePrompts } from './secure-prompts';
+import { PriorExchange } from './conversation';
+import { truncateText } from '@/utils/text';
+import logger from '@/utils/logger';
+import appConfig from '@/config';
+
+// Artifacts are passed as JSON; cap them so a large factcheck can't crowd out the question
+const MAX_ARTIFACT_CHARS = 4000;
+
+export interface FollowUpResult {
+  answer: string;
+  question: string;
+  metrics: {
+    turns: number;         // earlier follow-up turns included in the prompt
+    aiTokensUsed?: number; // actual provider-reported tokens if available
+  };
+  aiMeta?: {
+    provider?: string;
+    model?: string;
+    usage?: {
+      inputTokens?: number;
+      outputTokens?: number;
+      totalTokens?: number;
+    };
+  };
+}
+
+export class FollowUpService {
+  private injectionDetector: InjectionDetector;
+
+  constructor(private aiService: AIService) {
+    this.injectionDetector = new InjectionDetector();
+  }
+
+  async answer(question: string, prior: PriorExchange): Promise<FollowUpResult> {
+    logger.debug('Answering follow-up', {
+      priorMentionId: prior.reply.mentionId,
+      actionId: prior.actionId,
+      turns: prior.turns.length
+    });
+
+    const sanitize = (text: string) => this.injectionDetector.detect(text).sanitized;
+
+    const prompt = SecurePrompts.buildFollowUpPrompt(sanitize(question), {
+      actionId: prior.actionId,
+      originalReply: sanitize(prior.originalReply),
+      artifacts: sanitize(this.formatArtifacts(prior.artifacts)),
+      turns: prior.turns.map(turn => ({
+        question: sanitize(turn.question),
+        answer: sanitize(turn.answer)
+      }))
+    });
+
+    // Follow-ups share the summary model and token limits
+    const result = await this.aiService.generateText(prompt, 'summary');
+
+    const followUpResult: FollowUpResult = {
+      answer: result.text.trim(),
+      question,
+      metrics: {
+        turns: prior.turns.length
+      }
+    };
+
+    const total = result.usage?.totalTokens;
+    if (typeof total === 'number') {
+      followUpResult.metrics.aiTokensUsed = total;
+    }
+    followUpResult.aiMeta = {
+      provider: result.provider,
+      model: appConfig.ai.models.summary,
+      usage: result.usage ? {
+        inputTokens: (result.usage as any).inputTokens,
+        outputTokens: (result.usage as any).outputTokens,
+        totalTokens: (result.usage as any).totalTokens
+      } : undefined
+    };
+
+    return followUpResult;
+  }
+
+  private formatArtifacts(artifacts: Record<string, any> | null): string {
+    if (!artifacts) {
+      return '';
+    }
+
+    // Metrics are bookkeeping, not something users ask about
+    const { metrics, ...details } = artifacts;
+    return truncateText(JSON.stringify(details, null, 1), MAX_ARTIFACT_CHARS);
+  }
+}
@@ -0,0 +1,138 @@
+import { AIService, ImageInput } from './ai';
+import { PubkyService } from './pubky';
+import { Post } from '@/types/mention';
+import { InjectionDetector } from './injection-detector';
+import { SecurePrompts } from './secure-prompts';
+import logger from '@/utils/logger';
+import appConfig from '@/config';
+
+export interface ImageDescriptionResult {
+  text: string;
+  question?: string;
+  imageCount: number;    // images sent to the model
+  skippedCount: number;  // attachments that were not images, too large or unavailable
+  attachmentUris: string[];
+  metrics: {
+    aiTokensUsed?: number; // actual provider-reported tokens if available
+  };
+  aiMeta?: {
+    provider?: string;
+    model?: string;
+    usage?: {
+      inputTokens?: number;
+      outputTokens?: number;
+      totalTokens?: number;
+    };
+  };
+}
+
+// Formats accepted by the vision APIs of all supported providers
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Requests that ask for a description rather than an answer, even when phrased as a question
+const DESCRIPTION_REQUEST_PATTERN = /\b(alt[- ]?text|describe|description)\b/i;
+
+export class ImageService {
+  private injectionDetector: InjectionDetector;
+
+  constructor(
+    private aiService: AIService,
+    private pubkyService: PubkyService
+  ) {
+    this.injectionDetector = new InjectionDetector();
+  }
+
+  /**
+   * Extract a question about the image from mention text.
+   * Returns undefined when the user just wants a description.
+   */
+  static extractQuestion(mentionText: string): string | undefined {
+    const text = mentionText
+      .replace(/\bpk:[a-z0-9]+/gi, '')
+      .replace(/@\S+/g, '')
+      .trim();
+
+    if (!text.includes('?') || DESCRIPTION_REQUEST_PATTERN.test(text)) {
+      return undefined;
+    }
+
+    return text;
+  }
+
+  async describe(post: Post, question?: string): Promise<ImageDescriptionResult> {
+    const attachmentUris = (post.attachments || []).slice(0, appConfig.limits.image.maxAttachments);
+    const images: ImageInput[] = [];
+
+    for (const uri of attachmentUris) {
+      const attachment = await this.pubkyService.getAttachment(uri, appConfig.limits.image.maxBytes);
+
+      if (!attachment || !SUPPORTED_IMAGE_TYPES.includes(attachment.contentType)) {
+        logger.debug('Skipping non-image or unavailable attachment', {
+          postId: post.id,
+          uri,
+          contentType: attachment?.contentType
+        });
+        continue;
+      }
+
+      images.push({ data: attachment.data, mediaType: attachment.contentType });
+    }
+
+    const skippedCount = (post.attachments?.length || 0) - images.length;
+
+    if (images.length === 0) {
+      logger.info('No describable images found on post', {
+        postId: post.id,
+        attachments: post.attachments?.length || 0
+      });
+
+      return {
+        text: '',
+        question,
+        imageCount: 0,
+        skippedCount,
+        attachmentUris,
+        metrics: {}
+      };
+    }
+
+    const detection = this.injectionDetector.detect(post.content, {
+      postId: post.id,
+      authorId: post.authorId,
+      postUri: post.uri
+    });
+    const sanitizedQuestion = question
+      ? this.injectionDetector.detect(question).sanitized
+      : undefined;
+
+    const prompt = SecurePrompts.buildImageDescriptionPrompt(detection.sanitized, sanitizedQuestion);
+
+    logger.debug('Describing images', {
+      postId: post.id,
+      imageCount: images.length,
+      hasQuestion: !!question
+    });
+
+    const result = await this.aiService.generateTextWithImages(prompt, images);
+
+    return {
+      text: result.text.trim(),
+      question,
+      imageCount: images.length,
+      skippedCount,
+      attachmentUris,
+      metrics: {
+        aiTokensUsed: typeof result.usage?.totalTokens === 'number' ? result.usage.totalTokens : undefined
+      },
+      aiMeta: {
+        provider: result.provider,
+        model: result.model,
+        usage: result.usage ? {
+          inputTokens: (result.usage as any).inputTokens,
+          outputTokens: (result.usage as any).outputTokens,
+          totalTokens: (result.usage as any).totalTokens
+        } : undefined
+      }
+    };
+  }
+}
@@ -8,6 +8,8 @@ export class MetricsService {
   private readonly mentionsTotal: client.Counter<string>;
   private readonly actionsTotal: client.Counter<string>;
   private readonly repliesTotal: client.Counter<string>;
+  private readonly reclaimedMessagesTotal: client.Counter<string>;
+  private readonly evidenceCacheTotal: client.Counter<string>;
 
   // Histograms
   private readonly actionDuration: client.Histogram<string>;
@@ -40,6 +42,20 @@ export class MetricsService {
       registers: [this.registry]
     });
 
+    this.reclaimedMessagesTotal = new client.Counter({
+      name: 'pubky_stream_reclaimed_messages_total',
+      help: 'Total number of stale pending stream messages reclaimed from other consumers',
+      labelNames: ['stream', 'group'],
+      registers: [this.registry]
+    });
+
+    this.evidenceCacheTotal = new client.Counter({
+      name: 'pubky_evidence_cache_lookups_total',
+      help: 'Fact-check evidence cache lookups by result (hit, near_hit, miss, error)',
+      labelNames: ['result'],
+      registers: [this.registry]
+    });
+
     // Initialize histograms
     this.actionDuration = new client.Histogram({
       name: 'pubky_action_duration_seconds',
@@ -83,7 +99,7 @@ export class MetricsService {
     this.mentionsTotal.inc({ status });
   }
 
-  incrementActions(action: string, status: 'started' | 'completed' | 'failed' | 'rate_limited' | 'blacklisted'): void {
+  incrementActions(action: string, status: 'started' | 'completed' | 'failed' | 'rate_limited' | 'blacklisted' | 'budget_exceeded'): void {
     this.actionsTotal.inc({ action, status });
   }
 
@@ -91,6 +107,14 @@ export class MetricsService {
     this.repliesTotal.inc({ action });
   }
 
+  incrementReclaimedMessages(stream: string, group: string, count: number): void {
+    this.reclaimedMessagesTotal.inc({ stream, group }, count);
+  }
+
+  incrementEvidenceCache(result: 'hit' | 'near_hit' | 'miss' | 'error'): void {
+    this.evidenceCacheTotal.inc({ result });
+  }
+
   // Histogram methods
   recordActionDuration(action: string, durationSeconds: number): void {
     this.actionDuration.observe({ action }, durationSeconds);
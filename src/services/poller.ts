@@ -8,6 +8,7 @@ import { db } from '@/infrastructure/database/connection';
 import appConfig from '@/config';
 import logger from '@/utils/logger';
 import { delay } from '@/utils/time';
+import { LeaderElection } from '@/core/leader-election';
 
 enum CircuitState {
   CLOSED = 'CLOSED',    // Normal operation
@@ -20,6 +21,7 @@ export class MentionPoller {
   private shouldStop = false;
   private pollInterval: NodeJS.Timeout | null = null;
   private lastProcessedOffset = 0;
+  private hasLeadership = false;
 
   // Circuit breaker state
   private circuitState: CircuitState = CircuitState.CLOSED;
@@ -45,7 +47,8 @@ export class MentionPoller {
     private pubkyService: PubkyService,
     private eventBus: EventBus,
     private idempotency: IdempotencyService,
-    private metrics: MetricsService
+    private metrics: MetricsService,
+    private leaderElection?: LeaderElection
   ) {}
 
   async start(): Promise<void> {
@@ -94,6 +97,30 @@ export class MentionPoller {
   }
 
   private async pollLoop(): Promise<void> {
+    // With multiple replicas only the leader polls; followers just wait for the lease
+    if (this.leaderElection && !this.leaderElection.isLeader()) {
+      if (this.hasLeadership) {
+        logger.warn('Mention poller lost leadership, pausing polling');
+        this.hasLeadership = false;
+      }
+
+      if (!this.shouldStop) {
+        this.pollInterval = setTimeout(() => this.pollLoop(), appConfig.pubky.mentionPolling.intervalSeconds * 1000);
+      } else {
+        this.isRunning = false;
+      }
+      return;
+    }
+
+    if (this.leaderElection && !this.hasLeadership) {
+      // The previous leader may have advanced the offset since we last read it
+      await this.loadOffset();
+      this.hasLeadership = true;
+      logger.info('Mention poller acquired leadership, resuming polling', {
+        lastProcessedOffset: this.lastProcessedOffset
+      });
+    }
+
     try {
       // Check if circuit breaker allows polling
       if (!this.shouldAttemptPoll()) {
@@ -312,6 +339,12 @@ export class MentionPoller {
    * Persist offset to database transactionally
    */
   private async persistOffset(newOffset: number): Promise<void> {
+    // A leader whose lease lapsed mid-poll must not overwrite the new leader's offset
+    if (this.leaderElection && !this.leaderElection.isLeader()) {
+      logger.warn(`Lost leadership during poll, not persisting offset ${newOffset}`);
+      return;
+    }
+
     try {
       await db.query(
         `UPDATE polling_state
@@ -515,7 +548,8 @@ export class MentionPoller {
       content: mention.content,
       url: mention.url,
       ts: mention.receivedAt,
-      metadata: mention.metadata
+      metadata: mention.metadata,
+      inReplyTo: mention.inReplyTo
     };
 
     await this.eventBus.emit('mention.received.v1', eventData, {
@@ -533,8 +567,8 @@ export class MentionPoller {
 
   private async storeMention(mention: Mention): Promise<void> {
     await db.query(
-      `INSERT INTO mentions (mention_id, post_id, author_id, content, url, received_at, status)
-       VALUES ($1, $2, $3, $4, $5, $6, 'received')
+      `INSERT INTO mentions (mention_id, post_id, author_id, content, url, received_at, in_reply_to, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'received')
        ON CONFLICT (mention_id) DO NOTHING`,
       [
         mention.mentionId,
@@ -542,7 +576,8 @@ export class MentionPoller {
         mention.authorId,
         mention.content,
         mention.url,
-        mention.receivedAt
+        mention.receivedAt,
+        mention.inReplyTo || null
       ]
     );
 
@@ -557,8 +592,8 @@ export class MentionPoller {
    */
   private async storeOldMention(mention: Mention): Promise<void> {
     await db.query(
-      `INSERT INTO mentions (mention_id, post_id, author_id, content, url, received_at, status)
-       VALUES ($1, $2, $3, $4, $5, $6, 'skipped_old')
+      `INSERT INTO mentions (mention_id, post_id, author_id, content, url, received_at, in_reply_to, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'skipped_old')
        ON CONFLICT (mention_id) DO NOTHING`,
       [
         mention.mentionId,
@@ -566,7 +601,8 @@ export class MentionPoller {
         mention.authorId,
         mention.content,
         mention.url,
-        mention.receivedAt
+        mention.receivedAt,
+        mention.inReplyTo || null
       ]
     );
 
@@ -655,6 +691,7 @@ export class MentionPoller {
   getStatus(): {
     running: boolean;
     enabled: boolean;
+    leader: boolean;
     intervalSeconds: number;
     batchSize: number;
     circuitBreaker: {
@@ -666,6 +703,7 @@ export class MentionPoller {
     return {
       running: this.isRunning,
       enabled: appConfig.pubky.mentionPolling.enabled,
+      leader: this.leaderElection ? this.leaderElection.isLeader() : true,
       intervalSeconds: appConfig.pubky.mentionPolling.intervalSeconds,
       batchSize: appConfig.pubky.mentionPolling.batchSize,
       circuitBreaker: {
@@ -17,6 +17,22 @@ export interface PubkyAppPost {
   attachments?: string[];
 }
 
+export interface PubkyAppFile {
+  name: string;
+  created_at: number;
+  src: string;          // pubky:// URI of the blob holding the file bytes
+  content_type: string;
+  size: number;
+}
+
+export interface AttachmentBlob {
+  uri: string;
+  name: string;
+  contentType: string;
+  size: number;
+  data: Uint8Array;
+}
+
 export interface PubkyAppUser {
   name: string;
   bio?: string;
@@ -38,6 +54,21 @@ export interface NexusPostDetails {
   uri: string;
 }
 
+// Post as returned by Nexus stream endpoints (subset we use)
+export interface NexusPostView {
+  details: NexusPostDetails & {
+    attachments?: string[] | null;
+  };
+  counts?: {
+    replies?: number;
+    [key: string]: unknown;
+  };
+  relationships?: {
+    replied?: string | null; // parent post URI
+    [key: string]: unknown;
+  };
+}
+
 export interface PubkyMention {
   id: string;
   postId: string;
@@ -430,7 +461,8 @@ export class PubkyService {
               authorId: authorPubkey || this.extractPubkey(postUri),
               receivedAt: new Date(timestamp).toISOString(),
               status: 'received',
-              url: postUri
+              url: postUri,
+              inReplyTo: postData.parentUri
             };
 
             mentions.push(mention);
@@ -543,7 +575,9 @@ export class PubkyService {
             content: postData.content || '',
             authorId,
             createdAt,
-            parentUri: postData.parent
+            parentUri: postData.parent,
+            kind: postData.kind,
+            attachments: postData.attachments?.length ? postData.attachments : undefined
           };
 
           return post;
@@ -650,7 +684,9 @@ export class PubkyService {
         content: postData.content || '',
         authorId: authorId,
         createdAt: createdAt,
-        parentUri: postData.parent
+        parentUri: postData.parent,
+        kind: postData.kind,
+        attachments: postData.attachments?.length ? postData.attachments : undefined
       };
 
       return post;
@@ -672,6 +708,53 @@ export class PubkyService {
     }
   }
 
+  /**
+   * Fetch a post attachment (file record + blob bytes)
+   * Returns null when the file record is missing or exceeds maxBytes
+   */
+  async getAttachment(fileUri: string, maxBytes: number): Promise<AttachmentBlob | null> {
+    try {
+      const file = await this.pubky.publicStorage.getJson(fileUri as any) as PubkyAppFile | null;
+
+      if (!file || typeof file !== 'object' || !file.src) {
+        logger.warn('Attachment file record missing or invalid', { fileUri });
+        return null;
+      }
+
+      // Check declared size before downloading the blob
+      if (file.size > maxBytes) {
+        logger.info('Attachment exceeds size limit, skipping', {
+          fileUri,
+          size: file.size,
+          maxBytes
+        });
+        return null;
+      }
+
+      const data = await this.pubky.publicStorage.getBytes(file.src as any);
+
+      if (data.length > maxBytes) {
+        logger.info('Attachment blob exceeds size limit, skipping', {
+          fileUri,
+          size: data.length,
+          maxBytes
+        });
+        return null;
+      }
+
+      return {
+        uri: fileUri,
+        name: file.name,
+        contentType: file.content_type,
+        size: data.length,
+        data
+      };
+    } catch (error) {
+      logger.error(`Failed to fetch attachment ${fileUri}:`, error);
+      return null;
+    }
+  }
+
   async publishReply(options: PublishReplyOptions): Promise<PublishReplyResult> {
     this.assertAuthenticated();
 
@@ -757,39 +840,140 @@ export class PubkyService {
     }
   }
 
-  async buildThreadPosts(rootPostId: string, maxDepth: number = 5): Promise<Post[]> {
-    try {
-      logger.debug('Building thread posts', { rootPostId, maxDepth });
+  /**
+   * Fetch direct replies to a post from Nexus (stream source=post_replies), oldest first
+   */
+  async getPostReplies(postUri: string, options: { limit?: number; skip?: number } = {}): Promise<Post[]> {
+    const nexusBaseUrl = appConfig.pubky.nexusApiUrl || 'https://testnet.pubky.org';
+    const authorId = this.extractPubkey(postUri);
+    const postId = postUri.split('/').pop() || postUri;
+
+    const repliesUrl = new URL('/v0/stream/posts', nexusBaseUrl);
+    repliesUrl.searchParams.set('source', 'post_replies');
+    repliesUrl.searchParams.set('author_id', authorId);
+    repliesUrl.searchParams.set('post_id', postId);
+    repliesUrl.searchParams.set('order', 'ascending');
+    repliesUrl.searchParams.set('limit', String(options.limit || 50));
+    if (options.skip) {
+      repliesUrl.searchParams.set('skip', String(options.skip));
+    }
 
-      const threadPosts: Post[] = [];
-      const visited = new Set<string>();
+    const headers: Record<string, string> = {
+      'Accept': 'application/json'
+    };
 
-      // Recursive function to build thread
-      const fetchThread = async (postId: string, depth: number) => {
-        if (depth >= maxDepth || visited.has(postId)) {
-          return;
-        }
+    if (appConfig.pubky.authUsername && appConfig.pubky.authPassword) {
+      const auth = Buffer.from(
+        `${appConfig.pubky.authUsername}:${appConfig.pubky.authPassword}`
+      ).toString('base64');
+      headers['Authorization'] = `Basic ${auth}`;
+    }
 
-        visited.add(postId);
+    const response = await fetch(repliesUrl.toString(), { headers });
 
-        const post = await this.getPostById(postId);
-        if (post) {
-          threadPosts.push(post);
+    // Nexus answers 404 for posts without replies
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`Nexus API returned ${response.status}: ${response.statusText}`);
+    }
+
+    const data: unknown = await response.json();
+    if (!Array.isArray(data)) {
+      return [];
+    }
 
-          // Try to find replies to this post
-          // This would require a more sophisticated indexing system
-          // For now, we'll just return the single post
-          // In production, you'd query for posts with parent === postId
+    return (data as NexusPostView[])
+      .filter(view => view?.details?.uri)
+      .map(view => ({
+        id: view.details.id,
+        uri: view.details.uri,
+        content: view.details.content || '',
+        authorId: view.details.author,
+        createdAt: new Date(view.details.indexed_at).toISOString(),
+        parentUri: view.relationships?.replied || postUri,
+        kind: view.details.kind,
+        attachments: view.details.attachments?.length ? view.details.attachments : undefined,
+        metadata: {
+          replyCount: view.counts?.replies ?? 0
         }
-      };
+      }));
+  }
 
-      await fetchThread(rootPostId, 0);
-      return threadPosts;
+  /**
+   * Collect the reply tree below a post, breadth first.
+   * Stops at maxDepth levels below the root or once maxPosts descendants are collected
+   * (truncated is true in either case). The root itself is not included.
+   */
+  async buildThreadPosts(
+    rootPostUri: string,
+    options: { maxDepth: number; maxPosts: number; pageSize?: number }
+  ): Promise<{ posts: Post[]; truncated: boolean }> {
+    const pageSize = options.pageSize || 50;
+    const posts: Post[] = [];
+    const visited = new Set<string>([rootPostUri]);
+    let truncated = false;
+
+    logger.debug('Building thread posts', { rootPostUri, ...options });
+
+    let level: string[] = [rootPostUri];
+    for (let depth = 1; level.length > 0; depth++) {
+      if (depth > options.maxDepth) {
+        truncated = true;
+        break;
+      }
 
-    } catch (error) {
-      logger.error('Failed to build thread posts:', error);
-      throw error;
+      const nextLevel: string[] = [];
+
+      for (const parentUri of level) {
+        for (let skip = 0; ; skip += pageSize) {
+          let replies: Post[];
+          try {
+            replies = await this.getPostReplies(parentUri, { limit: pageSize, skip });
+          } catch (error) {
+            // Keep what we have; a missing branch shouldn't fail the whole thread
+            logger.warn('Failed to fetch replies, skipping branch', {
+              parentUri,
+              error: error instanceof Error ? error.message : String(error)
+            });
+            truncated = true;
+            break;
+          }
+
+          for (const reply of replies) {
+            if (visited.has(reply.uri)) continue;
+            if (posts.length >= options.maxPosts) {
+              truncated = true;
+              break;
+            }
+
+            visited.add(reply.uri);
+            posts.push({ ...reply, depth });
+
+            // Leaf posts don't need a replies request
+            if ((reply.metadata?.replyCount as number) !== 0) {
+              nextLevel.push(reply.uri);
+            }
+          }
+
+          if (truncated && posts.length >= options.maxPosts) {
+            return { posts, truncated };
+          }
+          if (replies.length < pageSize) break;
+        }
+      }
+
+      level = nextLevel;
     }
+
+    logger.debug(`Fetched ${posts.length} descendant post(s)`, { rootPostUri, truncated });
+
+    return { posts, truncated };
+  }
+
+  getBotPublicKey(): string | null {
+    return this.botPublicKey;
   }
 
   async updateBotProfile(profile: Partial<PubkyAppUser>) {
@@ -3,48 +3,98 @@ import logger from '@/utils/logger';
 
 export interface RateLimitResult {
   allowed: boolean;
-  currentCount: number;
+  currentCount: number;        // cost units used in the window that decided
   limit: number;
   windowMinutes: number;
   retryAfterSeconds?: number;
+  tier?: string;
+  limitedBy?: 'sustained' | 'burst';
 }
 
 export interface RateLimitStatus {
   publicKey: string;
-  requestCount: number;
+  tier: string;
+  requestCount: number;        // requests in the sustained window
+  used: number;                // their summed cost
   limit: number;
   windowMinutes: number;
+  burst?: {
+    used: number;
+    limit: number;
+    windowSeconds: number;
+  };
+  retryAfterSeconds?: number;  // set while not even a cost-1 request fits
   oldestRequestAt?: Date;
   newestRequestAt?: Date;
 }
 
+export interface RateLimitTier {
+  maxRequests: number;         // cost units per sustained window
+  windowMinutes: number;
+  burst?: {
+    maxRequests: number;       // cost units per short window, on top of the sustained limit
+    windowSeconds: number;
+  };
+}
+
+export interface RateLimitOptions {
+  burst?: RateLimitTier['burst'];         // burst window for the default tier
+  tiers?: Record<string, RateLimitTier>;  // named tiers besides 'default'
+  actionCosts?: Record<string, number>;   // action id → cost units; unlisted actions cost 1
+}
+
+export const DEFAULT_TIER = 'default';
+
+interface WindowEntry {
+  score: number;
+  cost: number;
+}
+
 /**
  * Rate limiting service using Redis sorted sets (ZSET) for rolling window implementation.
  *
  * Tracks requests per user (by public key) and enforces configurable rate limits.
  * Uses Redis ZSET with timestamps as scores for efficient rolling window management.
+ * Each member carries the request's cost ("3|mentionId"), so expensive actions
+ * use up more of the window. Users are assigned a tier (stored alongside the ZSET);
+ * a tier may add a short burst window that is checked against the same entries.
  *
  * Algorithm:
  * 1. Remove expired entries (older than window)
- * 2. Count current requests in window
- * 3. Check if limit exceeded
+ * 2. Sum the cost of requests in each window
+ * 3. Check if the new request's cost exceeds either limit
  * 4. Add new request if allowed
  * 5. Set TTL for automatic cleanup
  */
 export class RateLimitService {
   private readonly keyPrefix = 'ratelimit:user';
+  private readonly noticeKeyPrefix = 'ratelimit:notified';
+  private readonly tierKeyPrefix = 'ratelimit:tier';
   private readonly TTL_BUFFER_SECONDS = 60; // Buffer for TTL expiration
   private readonly MINIMUM_RETRY_SECONDS = 1; // Minimum retry-after value
   private readonly MS_PER_MINUTE = 60 * 1000; // Milliseconds in a minute
 
+  private readonly tiers: Record<string, RateLimitTier>;
+  private readonly actionCosts: Record<string, number>;
+
   constructor(
     private redis: RedisClientType,
     private maxRequests: number,
-    private windowMinutes: number
+    private windowMinutes: number,
+    options: RateLimitOptions = {}
   ) {
+    // The default tier always follows maxRequests/windowMinutes
+    this.tiers = {
+      ...options.tiers,
+      [DEFAULT_TIER]: { maxRequests, windowMinutes, burst: options.burst }
+    };
+    this.actionCosts = options.actionCosts || {};
+
     logger.info('RateLimitService initialized', {
       maxRequests: this.maxRequests,
-      windowMinutes: this.windowMinutes
+      windowMinutes: this.windowMinutes,
+      tiers: Object.keys(this.tiers),
+      actionCosts: this.actionCosts
     });
   }
 
@@ -56,69 +106,190 @@ export class RateLimitService {
    *
    * @param publicKey - User's public key (author of mention)
    * @param mentionId - Unique mention ID for tracking
+   * @param cost - Cost units of the request (see getActionCost)
    * @returns RateLimitResult indicating if request is allowed
    */
-  async checkRateLimit(publicKey: string, mentionId: string): Promise<RateLimitResult> {
+  async checkRateLimit(publicKey: string, mentionId: string, cost: number = 1): Promise<RateLimitResult> {
+    return this.check(publicKey, cost, mentionId);
+  }
+
+  /**
+   * Check whether a cost-1 request would be allowed, without recording anything.
+   * Lets the router turn away users with no room left before classifying their mention.
+   *
+   * @param publicKey - User's public key
+   */
+  async peekRateLimit(publicKey: string): Promise<RateLimitResult> {
+    return this.check(publicKey, 1);
+  }
+
+  /**
+   * Cost units charged for an action; unlisted actions (and unknown intents) cost 1
+   */
+  getActionCost(actionId: string): number {
+    return this.actionCosts[actionId] ?? 1;
+  }
+
+  listTiers(): Record<string, RateLimitTier> {
+    return { ...this.tiers };
+  }
+
+  listActionCosts(): Record<string, number> {
+    return { ...this.actionCosts };
+  }
+
+  /**
+   * Get the user's tier name. Tiers no longer configured fall back to default.
+   *
+   * @param publicKey - User's public key
+   */
+  async getTier(publicKey: string): Promise<string> {
+    const tier = await this.redis.get(`${this.tierKeyPrefix}:${publicKey}`);
+    if (!tier) {
+      return DEFAULT_TIER;
+    }
+
+    if (!this.tiers[tier]) {
+      logger.warn('Unknown rate limit tier assigned to user, using default', { publicKey, tier });
+      return DEFAULT_TIER;
+    }
+
+    return tier;
+  }
+
+  /**
+   * Assign a tier to a user; 'default' removes the assignment.
+   *
+   * @param publicKey - User's public key
+   * @param tier - Name of a configured tier
+   */
+  async setTier(publicKey: string, tier: string): Promise<void> {
+    if (!this.tiers[tier]) {
+      throw new Error(`Unknown rate limit tier: ${tier}`);
+    }
+
+    const key = `${this.tierKeyPrefix}:${publicKey}`;
+    if (tier === DEFAULT_TIER) {
+      await this.redis.del(key);
+    } else {
+      await this.redis.set(key, tier);
+    }
+
+    logger.info('Rate limit tier set', { publicKey, tier });
+  }
+
+  private async check(publicKey: string, requestedCost: number, mentionId?: string): Promise<RateLimitResult> {
     const key = `${this.keyPrefix}:${publicKey}`;
     const now = Date.now();
-    const windowStart = now - (this.windowMinutes * this.MS_PER_MINUTE);
+    let tierName = DEFAULT_TIER;
 
     try {
+      tierName = await this.getTier(publicKey);
+      const tier = this.tiers[tierName];
+      const windowMs = tier.windowMinutes * this.MS_PER_MINUTE;
+      // A cost above the tier's limit would never fit; charge the whole window instead
+      const cost = Math.min(requestedCost, tier.maxRequests, tier.burst?.maxRequests ?? Infinity);
+
       // 1. Remove expired entries (older than window)
-      await this.redis.zRemRangeByScore(key, '-inf', windowStart);
+      await this.redis.zRemRangeByScore(key, '-inf', now - windowMs);
 
-      // 2. Count requests in current window
-      const count = await this.redis.zCard(key);
+      // 2. Sum request costs in the current window(s)
+      const entries = await this.getEntries(key);
+      const used = sumCost(entries);
 
-      // 3. Check if limit exceeded
-      if (count >= this.maxRequests) {
-        // Get oldest request timestamp to calculate retry-after
-        const oldest = await this.redis.zRangeWithScores(key, 0, 0);
-        const retryAfter = oldest.length > 0
-          ? Math.ceil((oldest[0].score + this.windowMinutes * this.MS_PER_MINUTE - now) / 1000)
-          : this.windowMinutes * 60;
+      // 3. Check if either limit would be exceeded
+      if (used + cost > tier.maxRequests) {
+        const retryAfter = this.retryAfterSeconds(entries, windowMs, tier.maxRequests, cost, now);
 
         logger.debug('Rate limit exceeded', {
           publicKey,
-          currentCount: count,
-          limit: this.maxRequests,
+          tier: tierName,
+          currentCount: used,
+          cost,
+          limit: tier.maxRequests,
           retryAfterSeconds: retryAfter
         });
 
         return {
           allowed: false,
-          currentCount: count,
-          limit: this.maxRequests,
-          windowMinutes: this.windowMinutes,
-          retryAfterSeconds: Math.max(this.MINIMUM_RETRY_SECONDS, retryAfter)
+          currentCount: used,
+          limit: tier.maxRequests,
+          windowMinutes: tier.windowMinutes,
+          retryAfterSeconds: retryAfter,
+          tier: tierName,
+          limitedBy: 'sustained'
+        };
+      }
+
+      if (tier.burst) {
+        const burstMs = tier.burst.windowSeconds * 1000;
+        const burstEntries = entries.filter(entry => entry.score > now - burstMs);
+        const burstUsed = sumCost(burstEntries);
+
+        if (burstUsed + cost > tier.burst.maxRequests) {
+          const retryAfter = this.retryAfterSeconds(burstEntries, burstMs, tier.burst.maxRequests, cost, now);
+
+          logger.debug('Burst rate limit exceeded', {
+            publicKey,
+            tier: tierName,
+            currentCount: burstUsed,
+            cost,
+            limit: tier.burst.maxRequests,
+            retryAfterSeconds: retryAfter
+          });
+
+          return {
+            allowed: false,
+            currentCount: burstUsed,
+            limit: tier.burst.maxRequests,
+            windowMinutes: tier.burst.windowSeconds / 60,
+            retryAfterSeconds: retryAfter,
+            tier: tierName,
+            limitedBy: 'burst'
+          };
+        }
+      }
+
+      // Peeking only: nothing to record
+      if (!mentionId) {
+        return {
+          allowed: true,
+          currentCount: used,
+          limit: tier.maxRequests,
+          windowMinutes: tier.windowMinutes,
+          tier: tierName
         };
       }
 
       // 4. Add current request
-      await this.redis.zAdd(key, { score: now, value: mentionId });
+      await this.redis.zAdd(key, { score: now, value: `${cost}|${mentionId}` });
 
       // 5. Set TTL (window + buffer for cleanup)
-      const ttlSeconds = this.windowMinutes * 60 + this.TTL_BUFFER_SECONDS;
+      const ttlSeconds = tier.windowMinutes * 60 + this.TTL_BUFFER_SECONDS;
       await this.redis.expire(key, ttlSeconds);
 
       logger.debug('Rate limit check passed', {
         publicKey,
-        currentCount: count + 1,
-        limit: this.maxRequests,
-        windowMinutes: this.windowMinutes
+        tier: tierName,
+        currentCount: used + cost,
+        cost,
+        limit: tier.maxRequests,
+        windowMinutes: tier.windowMinutes
       });
 
       return {
         allowed: true,
-        currentCount: count + 1,
-        limit: this.maxRequests,
-        windowMinutes: this.windowMinutes
+        currentCount: used + cost,
+        limit: tier.maxRequests,
+        windowMinutes: tier.windowMinutes,
+        tier: tierName
       };
 
     } catch (error) {
       logger.error('Rate limit check failed:', error, {
         publicKey,
-        mentionId
+        mentionId,
+        cost: requestedCost
       });
 
       // Fail open: allow request on Redis errors to prevent service disruption
@@ -131,8 +302,9 @@ export class RateLimitService {
       return {
         allowed: true,
         currentCount: 0,
-        limit: this.maxRequests,
-        windowMinutes: this.windowMinutes
+        limit: this.tiers[tierName].maxRequests,
+        windowMinutes: this.tiers[tierName].windowMinutes,
+        tier: tierName
       };
     }
   }
@@ -146,22 +318,49 @@ export class RateLimitService {
   async getRateLimitStatus(publicKey: string): Promise<RateLimitStatus> {
     const key = `${this.keyPrefix}:${publicKey}`;
     const now = Date.now();
-    const windowStart = now - (this.windowMinutes * this.MS_PER_MINUTE);
+    let tierName = DEFAULT_TIER;
 
     try {
+      tierName = await this.getTier(publicKey);
+      const tier = this.tiers[tierName];
+      const windowMs = tier.windowMinutes * this.MS_PER_MINUTE;
+
       // Remove expired entries
-      await this.redis.zRemRangeByScore(key, '-inf', windowStart);
+      await this.redis.zRemRangeByScore(key, '-inf', now - windowMs);
 
       // Get all requests in current window
-      const requests = await this.redis.zRangeWithScores(key, 0, -1);
+      const requests = await this.getEntries(key);
 
       const status: RateLimitStatus = {
         publicKey,
+        tier: tierName,
         requestCount: requests.length,
-        limit: this.maxRequests,
-        windowMinutes: this.windowMinutes
+        used: sumCost(requests),
+        limit: tier.maxRequests,
+        windowMinutes: tier.windowMinutes
       };
 
+      if (status.used + 1 > tier.maxRequests) {
+        status.retryAfterSeconds = this.retryAfterSeconds(requests, windowMs, tier.maxRequests, 1, now);
+      }
+
+      if (tier.burst) {
+        const burstMs = tier.burst.windowSeconds * 1000;
+        const burstEntries = requests.filter(entry => entry.score > now - burstMs);
+        status.burst = {
+          used: sumCost(burstEntries),
+          limit: tier.burst.maxRequests,
+          windowSeconds: tier.burst.windowSeconds
+        };
+
+        if (status.burst.used + 1 > tier.burst.maxRequests) {
+          status.retryAfterSeconds = Math.max(
+            status.retryAfterSeconds || 0,
+            this.retryAfterSeconds(burstEntries, burstMs, tier.burst.maxRequests, 1, now)
+          );
+        }
+      }
+
       if (requests.length > 0) {
         status.oldestRequestAt = new Date(requests[0].score);
         status.newestRequestAt = new Date(requests[requests.length - 1].score);
@@ -174,15 +373,42 @@ export class RateLimitService {
 
       return {
         publicKey,
+        tier: tierName,
         requestCount: 0,
-        limit: this.maxRequests,
-        windowMinutes: this.windowMinutes
+        used: 0,
+        limit: this.tiers[tierName].maxRequests,
+        windowMinutes: this.tiers[tierName].windowMinutes
       };
     }
   }
 
   /**
-   * Clear rate limit for a user (admin/testing use).
+   * Mark a rate-limited user as notified until their limit frees up.
+   *
+   * Uses SET NX so concurrent mentions can't both claim the notice.
+   *
+   * @param publicKey - User's public key
+   * @param ttlSeconds - How long the marker lasts (the retry-after time)
+   * @returns true if this call set the marker and the user should be notified
+   */
+  async markNotified(publicKey: string, ttlSeconds: number): Promise<boolean> {
+    const key = `${this.noticeKeyPrefix}:${publicKey}`;
+
+    try {
+      const result = await this.redis.set(key, Date.now().toString(), {
+        NX: true,
+        EX: Math.max(this.MINIMUM_RETRY_SECONDS, ttlSeconds)
+      });
+      return result === 'OK';
+    } catch (error) {
+      // Fail closed: without the marker a spammer could get a reply per mention
+      logger.error('Failed to set rate limit notice marker:', error, { publicKey });
+      return false;
+    }
+  }
+
+  /**
+   * Clear rate limit for a user (admin/testing use). Keeps their tier.
    *
    * @param publicKey - User's public key
    */
@@ -190,7 +416,7 @@ export class RateLimitService {
     const key = `${this.keyPrefix}:${publicKey}`;
 
     try {
-      await this.redis.del(key);
+      await this.redis.del([key, `${this.noticeKeyPrefix}:${publicKey}`]);
       logger.info('Rate limit cleared', { publicKey });
     } catch (error) {
       logger.error('Failed to clear rate limit:', error, { publicKey });
@@ -214,4 +440,41 @@ export class RateLimitService {
       return false;
     }
   }
+
+  private async getEntries(key: string): Promise<WindowEntry[]> {
+    const members = await this.redis.zRangeWithScores(key, 0, -1);
+
+    // Members recorded before costs existed are plain mention ids and cost 1
+    return members.map(member => ({
+      score: member.score,
+      cost: parseInt(member.value.match(/^(\d+)\|/)?.[1] || '1', 10)
+    }));
+  }
+
+  /**
+   * Seconds until enough of the oldest entries expire for a request of this cost to fit
+   */
+  private retryAfterSeconds(
+    entries: WindowEntry[],
+    windowMs: number,
+    limit: number,
+    cost: number,
+    now: number
+  ): number {
+    let remaining = sumCost(entries);
+
+    for (const entry of entries) {
+      remaining -= entry.cost;
+      if (remaining + cost <= limit) {
+        return Math.max(this.MINIMUM_RETRY_SECONDS, Math.ceil((entry.score + windowMs - now) / 1000));
+      }
+    }
+
+    // Cost exceeds the limit itself; the whole window has to pass
+    return Math.max(this.MINIMUM_RETRY_SECONDS, Math.ceil(windowMs / 1000));
+  }
+}
+
+function sumCost(entries: WindowEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.cost, 0);
 }
@@ -1,8 +1,10 @@
 import { PubkyService, PublishReplyResult } from './pubky';
 import { SafetyService } from './safety';
 import { db } from '@/infrastructure/database/connection';
+import appConfig from '@/config';
 import logger from '@/utils/logger';
 import { truncateText, cleanMarkdownUrls } from '@/utils/text';
+import { MAX_KEY_POINTS } from '@/utils/mention-options';
 
 export interface ReplyContent {
   summary?: string;
@@ -13,9 +15,39 @@ export interface ReplyContent {
     description?: string;
   }>;
   keyPoints?: string[];
+  branches?: string[];  // one summary per sub-discussion, shown instead of key points
+  detailed?: boolean;   // summary requested as detailed: allow a longer reply
   confidence?: 'high' | 'medium' | 'low';
+  claims?: Array<{      // per-claim fact-check verdicts, listed under the verdict
+    claim: string;
+    label: 'true' | 'false' | 'misleading' | 'unverifiable';
+    confidence: 'high' | 'medium' | 'low';
+    summary?: string;
+    source?: { title: string; url: string };
+    checkedAt?: string; // ISO time of the earlier check this verdict is reused from
+  }>;
+  translation?: {
+    text: string;
+    sourceLanguage?: string | null;
+    targetLanguage: string;
+  };
+  image?: {
+    text: string;
+    isAnswer: boolean;  // answer to a question rather than alt text
+  };
+  answer?: {
+    text: string;       // cites posts as [n]
+    citations: Array<{ index: number; postUri: string }>;
+  };
 }
 
+type ClaimVerdict = NonNullable<ReplyContent['claims']>[number];
+
+const FACTCHECK_REPLY_LIMIT = 1200;
+
+// 'notice' replies (e.g. rate-limit notices) are not answers that follow-ups can continue
+export type ReplyKind = 'action' | 'notice';
+
 export interface ReplyRef {
   id: string;
   uri: string;
@@ -34,32 +66,58 @@ export class ReplyService {
       return this.composeSummaryReply(content);
     } else if (content.verdict) {
       return this.composeFactcheckReply(content);
+    } else if (content.translation) {
+      return this.composeTranslationReply(content);
+    } else if (content.image) {
+      return this.composeImageReply(content);
+    } else if (content.answer) {
+      return this.composeAnswerReply(content);
     } else {
-      throw new Error('Reply content must include either summary or verdict');
+      throw new Error('Reply content must include summary, verdict, translation, image or answer');
     }
   }
 
   private composeSummaryReply(content: ReplyContent): string {
     let reply = content.summary || '';
 
-    if (content.keyPoints && content.keyPoints.length > 0) {
+    if (content.branches && content.branches.length > 0) {
+      const bullets = content.branches
+        .slice(0, 4)
+        .map(branch => `• ${branch}`)
+        .join('\n');
+
+      reply += `\n\nSub-discussions:\n${bullets}`;
+    } else if (content.keyPoints && content.keyPoints.length > 0) {
       const bullets = content.keyPoints
-        .slice(0, 3) // Maximum 3 key points
+        .slice(0, MAX_KEY_POINTS)
         .map(point => `• ${point}`)
         .join('\n');
 
       reply += `\n\n${bullets}`;
     }
 
-    return truncateText(reply, 800);
+    return truncateText(reply, content.detailed ? 1500 : 800);
   }
 
   private composeFactcheckReply(content: ReplyContent): string {
+    const claims = content.claims || [];
+    if (claims.length > 1) {
+      return this.composeClaimBreakdown(content.verdict || '', claims);
+    }
+
     let reply = content.verdict || '';
 
     // Clean any markdown-formatted URLs from the verdict text
     reply = cleanMarkdownUrls(reply);
 
+    if (claims.length === 1) {
+      const label = this.formatClaimLabel(claims[0]);
+      const prefix = claims[0].checkedAt
+        ? `This claim was checked on ${claims[0].checkedAt.slice(0, 10)}: ${label}`
+        : `Verdict: ${label}`;
+      reply = `${prefix}\n\n${reply}`;
+    }
+
     if (content.sources && content.sources.length > 0) {
       reply += '\n\nSources:\n';
 
@@ -70,13 +128,86 @@ export class ReplyService {
       });
     }
 
-    return truncateText(reply, 1200);
+    return truncateText(reply, FACTCHECK_REPLY_LIMIT);
+  }
+
+  /**
+   * One entry per claim with its verdict, confidence, explanation and best source.
+   * When that exceeds the reply limit, drop the explanations and list one line per
+   * claim so every claim keeps its verdict and source.
+   */
+  private composeClaimBreakdown(headline: string, claims: ClaimVerdict[]): string {
+    const header = cleanMarkdownUrls(headline);
+
+    const full = [header, ...claims.map((claim, i) => {
+      const lines = [`${i + 1}. "${claim.claim}"`, this.formatClaimLabelWithDate(claim)];
+      if (claim.summary && claim.summary !== headline) {
+        lines[1] += ` — ${cleanMarkdownUrls(claim.summary)}`;
+      }
+      if (claim.source) {
+        lines.push(`Source: ${cleanMarkdownUrls(claim.source.url)}`);
+      }
+      return lines.join('\n');
+    })].join('\n\n');
+
+    if (full.length <= FACTCHECK_REPLY_LIMIT) {
+      return full;
+    }
+
+    const compact = claims.map((claim, i) => {
+      const source = claim.source ? ` ${cleanMarkdownUrls(claim.source.url)}` : '';
+      return `${i + 1}. ${this.formatClaimLabel(claim)}: "${truncateText(claim.claim, 80)}"${source}`;
+    });
+
+    return truncateText(`${header}\n\n${compact.join('\n')}`, FACTCHECK_REPLY_LIMIT);
+  }
+
+  private formatClaimLabel(claim: ClaimVerdict): string {
+    const label = claim.label.charAt(0).toUpperCase() + claim.label.slice(1);
+    return `${label} (${claim.confidence} confidence)`;
+  }
+
+  private formatClaimLabelWithDate(claim: ClaimVerdict): string {
+    const label = this.formatClaimLabel(claim);
+    return claim.checkedAt ? `${label}, checked on ${claim.checkedAt.slice(0, 10)}` : label;
+  }
+
+  private composeTranslationReply(content: ReplyContent): string {
+    const { text, sourceLanguage, targetLanguage } = content.translation!;
+
+    const header = sourceLanguage
+      ? `Translation (${sourceLanguage} → ${targetLanguage}):`
+      : `Translation (${targetLanguage}):`;
+
+    return truncateText(`${header}\n\n${text}`, 1000);
+  }
+
+  private composeImageReply(content: ReplyContent): string {
+    const { text, isAnswer } = content.image!;
+
+    const reply = isAnswer ? text : `Image description:\n\n${text}`;
+
+    return truncateText(reply, 800);
+  }
+
+  private composeAnswerReply(content: ReplyContent): string {
+    const { text, citations } = content.answer!;
+
+    // Citation list goes last so truncation trims the answer rather than its sources
+    const sources = citations
+      .slice(0, 5)
+      .map(citation => `[${citation.index}] ${citation.postUri}`)
+      .join('\n');
+
+    const footer = sources ? `\n\nFrom the thread:\n${sources}` : '';
+    return truncateText(text, Math.max(200, 1000 - footer.length)) + footer;
   }
 
   async publish(
     parentUri: string,
     content: string,
-    mentionId: string
+    mentionId: string,
+    options: { delayed?: boolean; kind?: ReplyKind } = {}
   ): Promise<ReplyRef> {
     try {
       // Safety check
@@ -92,6 +223,11 @@ export class ReplyService {
         content = this.safetyService.getSafeReplacementMessage();
       }
 
+      // Mentions picked up by catch-up are answered late; say so
+      if (options.delayed) {
+        content = `${appConfig.catchUp.replyPrefix}${content}`;
+      }
+
       // Check for duplicate replies
       const existingReply = await this.checkForDuplicate(mentionId, parentUri);
       if (existingReply) {
@@ -114,7 +250,8 @@ export class ReplyService {
         parentUri,
         replyUri: result.uri,
         content,
-        replyId: result.id
+        replyId: result.id,
+        kind: options.kind || 'action'
       });
 
       logger.info('Reply published and stored', {
@@ -169,12 +306,13 @@ export class ReplyService {
     replyUri: string;
     content: string;
     replyId: string;
+    kind: ReplyKind;
   }): Promise<ReplyRef> {
     const rows = await db.query<{ id: string }>(
-      `INSERT INTO replies (mention_id, parent_uri, reply_uri, content)
-       VALUES ($1, $2, $3, $4)
+      `INSERT INTO replies (mention_id, parent_uri, reply_uri, content, kind)
+       VALUES ($1, $2, $3, $4, $5)
        RETURNING id`,
-      [data.mentionId, data.parentUri, data.replyUri, data.content]
+      [data.mentionId, data.parentUri, data.replyUri, data.content, data.kind]
     );
 
     return {
@@ -0,0 +1,96 @@
+import { McpClientService } from '../mcp/client';
+import { SearchProvider, SearchRequest, SearchResponse, SearchResult } from './types';
+import appConfig from '@/config';
+import logger from '@/utils/logger';
+import { withTimeout } from '@/utils/time';
+
+const SEARCH_TOOL = 'brave_web_search';
+
+/**
+ * Brave Search through the MCP server (mcp.brave). The search tool is called
+ * directly rather than by the model, so it works with any AI provider.
+ */
+export class BraveMcpSearchProvider implements SearchProvider {
+  readonly name = 'brave_mcp' as const;
+
+  constructor(private mcpClient: McpClientService) {}
+
+  isAvailable(): boolean {
+    return this.mcpClient.isReady();
+  }
+
+  async search(request: SearchRequest): Promise<SearchResponse> {
+    const tools = await this.mcpClient.tools();
+    const tool = tools[SEARCH_TOOL];
+    if (!tool?.execute) {
+      throw new Error(`MCP server does not provide ${SEARCH_TOOL}`);
+    }
+
+    const output = await withTimeout(
+      tool.execute(
+        { query: buildQuery(request.query, request.sourceDomains), count: request.maxResults },
+        { toolCallId: `search_${Date.now()}`, messages: [] }
+      ),
+      appConfig.mcp.brave.timeoutMs || 10000
+    );
+
+    const results = parseResults(output);
+
+    logger.debug('Brave MCP search completed', {
+      query: request.query.substring(0, 50),
+      results: results.length
+    });
+
+    return {
+      results: results.slice(0, request.maxResults),
+      searchQueries: 1
+    };
+  }
+}
+
+/**
+ * Brave understands site: operators; ".gov" becomes site:gov
+ */
+function buildQuery(query: string, sourceDomains?: string[]): string {
+  if (!sourceDomains?.length) {
+    return query;
+  }
+
+  const sites = sourceDomains.map(domain => `site:${domain.replace(/^\./, '')}`);
+  return `${query} (${sites.join(' OR ')})`;
+}
+
+/**
+ * MCP tool output is { content: [{ type: 'text', text }] }, where each text is either
+ * JSON (one result or an array) or "Title: …\nDescription: …\nURL: …" blocks
+ */
+function parseResults(output: any): SearchResult[] {
+  const results: SearchResult[] = [];
+  const content = Array.isArray(output?.content) ? output.content : [];
+
+  for (const item of content) {
+    if (typeof item?.text !== 'string') continue;
+
+    try {
+      const parsed = JSON.parse(item.text);
+      const entries = Array.isArray(parsed) ? parsed : parsed?.results || [parsed];
+      for (const entry of entries) {
+        const url = entry?.url || entry?.link;
+        const title = entry?.title || entry?.name;
+        if (url && title) {
+          results.push({ url, title, snippet: entry.description || entry.snippet || '' });
+        }
+      }
+    } catch {
+      for (const block of item.text.split(/\n\s*\n/)) {
+        const url = block.match(/^URL:\s*(\S+)/m)?.[1];
+        const title = block.match(/^Title:\s*(.+)$/m)?.[1];
+        if (url && title) {
+          results.push({ url, title: title.trim(), snippet: block.match(/^Description:\s*(.+)$/m)?.[1]?.trim() || '' });
+        }
+      }
+    }
+  }
+
+  return results;
+}
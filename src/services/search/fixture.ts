@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SearchProvider, SearchRequest, SearchResponse, SearchResult } from './types';
+import { matchesSourceDomain } from '@/utils/mention-options';
+import logger from '@/utils/logger';
+
+interface FixtureEntry {
+  keywords: string[];        // all must appear in the query (case-insensitive)
+  results: SearchResult[];
+}
+
+/**
+ * Offline search from a JSON file of canned results, for development, tests
+ * and deployments without a search API. Format:
+ * { "entries": [{ "keywords": ["eiffel", "tower"], "results": [{ "url", "title", "snippet" }] }] }
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = 'fixture' as const;
+  private entries: FixtureEntry[] = [];
+
+  constructor(fixturePath: string) {
+    const resolved = path.resolve(process.cwd(), fixturePath);
+
+    try {
+      this.entries = JSON.parse(fs.readFileSync(resolved, 'utf8')).entries || [];
+      logger.info(`Loaded ${this.entries.length} search fixture entries`, { path: resolved });
+    } catch (error) {
+      logger.warn('Failed to load search fixtures; searches will find nothing', {
+        path: resolved,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async search(request: SearchRequest): Promise<SearchResponse> {
+    const query = request.query.toLowerCase();
+
+    const results = this.entries
+      .filter(entry => entry.keywords.every(keyword => query.includes(keyword.toLowerCase())))
+      .flatMap(entry => entry.results)
+      .filter(result => !request.sourceDomains?.length ||
+        matchesSourceDomain(hostname(result.url), request.sourceDomains));
+
+    return {
+      results: results.slice(0, request.maxResults),
+      searchQueries: 1
+    };
+  }
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,28 @@
+import type { AIService } from '../ai';
+import type { McpClientService } from '../mcp/client';
+import { SearchProvider, SearchProviderName } from './types';
+import { OpenAiSearchProvider } from './openai';
+import { BraveMcpSearchProvider } from './brave-mcp';
+import { FixtureSearchProvider } from './fixture';
+import appConfig from '@/config';
+
+export * from './types';
+
+/**
+ * Build the search provider selected by search.provider
+ */
+export function createSearchProvider(
+  name: SearchProviderName,
+  deps: { aiService: AIService; mcpClient: McpClientService }
+): SearchProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAiSearchProvider(deps.aiService);
+    case 'brave_mcp':
+      return new BraveMcpSearchProvider(deps.mcpClient);
+    case 'fixture':
+      return new FixtureSearchProvider(appConfig.search.fixture.path);
+    default:
+      throw new Error(`Unknown search provider: ${name}`);
+  }
+}
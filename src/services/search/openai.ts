@@ -0,0 +1,65 @@
+import { AIService } from '../ai';
+import { SearchProvider, SearchRequest, SearchResponse, SearchResult } from './types';
+import appConfig from '@/config';
+import logger from '@/utils/logger';
+
+/**
+ * OpenAI's built-in web search (Responses API). Searches and writes the
+ * assessment in one call; needs an OpenAI API key whatever the primary provider.
+ */
+export class OpenAiSearchProvider implements SearchProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private aiService: AIService) {}
+
+  isAvailable(): boolean {
+    const apiKey = appConfig.ai.apiKeys.openai;
+    return !!apiKey && !apiKey.startsWith('dummy-');
+  }
+
+  async search(request: SearchRequest): Promise<SearchResponse> {
+    const result = await this.aiService.generateTextWithWebSearch(request.prompt, 'factcheck');
+
+    const searchResults = (result.toolResults || [])
+      .filter(toolResult => toolResult.toolName === 'web_search_preview' || toolResult.toolName === 'web_search');
+
+    const results = searchResults.flatMap(toolResult =>
+      extractResults(toolResult.output ?? toolResult.result ?? toolResult.content)
+    );
+
+    // The tool output is often just the queries; the cited pages arrive as sources
+    for (const source of result.sources || []) {
+      if (source?.url && !results.some(existing => existing.url === source.url)) {
+        results.push({ url: source.url, title: source.title || source.url, snippet: '' });
+      }
+    }
+
+    if (searchResults.length === 0) {
+      logger.warn('Web search not used in verification');
+    }
+
+    return {
+      results: results.slice(0, request.maxResults),
+      searchQueries: searchResults.length,
+      answer: (result.text || '').trim(),
+      usage: result.usage,
+      provider: 'openai',
+      model: `responses:${appConfig.search.openai.model}`
+    };
+  }
+}
+
+function extractResults(content: any): SearchResult[] {
+  const items = Array.isArray(content) ? content : content?.sources || content?.results || [];
+  const results: SearchResult[] = [];
+
+  for (const item of Array.isArray(items) ? items : []) {
+    const url = item.url || item.link;
+    const title = item.title || item.name;
+    if (!url || !title) continue;
+
+    results.push({ url, title, snippet: item.snippet || item.description || item.excerpt || '' });
+  }
+
+  return results;
+}
@@ -0,0 +1,37 @@
+export type SearchProviderName = 'openai' | 'brave_mcp' | 'fixture';
+
+export interface SearchResult {
+  url: string;
+  title: string;
+  snippet: string;
+}
+
+export interface SearchRequest {
+  query: string;             // the claim to search for, already sanitised
+  prompt: string;            // full verification prompt, for providers that also write the assessment
+  maxResults: number;
+  sourceDomains?: string[];  // restrict results to these domains (".gov", "reuters.com")
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  searchQueries: number;     // searches actually performed
+  answer?: string;           // assessment written by the provider itself (OpenAI); otherwise the AI model writes one
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+    totalTokens?: number;
+  };
+  provider?: string;         // AI provider/model behind the answer, for usage records
+  model?: string;
+}
+
+/**
+ * A web search backend for fact-checking. Providers only find sources; the
+ * factcheck service rates their credibility and writes the verdict.
+ */
+export interface SearchProvider {
+  readonly name: SearchProviderName;
+  isAvailable(): boolean;    // configured and connected; checked before each factcheck
+  search(request: SearchRequest): Promise<SearchResponse>;
+}
@@ -0,0 +1,485 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { db } from '@/infrastructure/database/connection';
+import appConfig from '@/config';
+import logger from '@/utils/logger';
+
+export type CredibilityRating = 'highly reliable' | 'generally reliable' | 'moderate' | 'questionable' | 'unknown';
+
+export interface SourceRule {
+  pattern: string;            // "reuters.com" (that host) or "*.blogspot.com" (the domain and its subdomains)
+  score: number;              // 0-1
+  category: string;
+  tier?: string | null;
+  perspective?: string | null;
+  notes?: string | null;
+  updatedAt?: string;
+}
+
+// Fields an admin can set; null clears an optional field
+export type SourceRuleChange = Partial<Omit<SourceRule, 'pattern' | 'updatedAt'>>;
+
+export interface SourceAuditEntry {
+  id: string;
+  pattern: string;
+  action: 'create' | 'update' | 'delete';
+  before: SourceRule | null;
+  after: SourceRule | null;
+  actor: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface SourceAssessment {
+  score: number;
+  rating: CredibilityRating;
+  explanation: string;
+  perspective: string;
+  category: string;
+  pattern?: string;           // registry rule that matched; absent when the category was inferred
+}
+
+interface SourceRuleRow {
+  pattern: string;
+  score: number;
+  category: string;
+  tier: string | null;
+  perspective: string | null;
+  notes: string | null;
+  updated_at: string;
+}
+
+interface SourceAuditRow {
+  id: string;
+  pattern: string;
+  action: SourceAuditEntry['action'];
+  before_json: SourceRule | null;
+  after_json: SourceRule | null;
+  actor: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+const PATTERN_REGEX = /^(\*\.)?([a-z0-9-]+\.)*[a-z0-9-]+$/;
+
+const RULE_COLUMNS = 'pattern, score, category, tier, perspective, notes, updated_at';
+
+/**
+ * "Reuters.com" → "reuters.com", ".gov" → "*.gov"; null when not a host or wildcard
+ */
+export function normalizeSourcePattern(input: string): string | null {
+  let pattern = input.trim().toLowerCase().replace(/^www\./, '');
+  if (pattern.startsWith('.')) {
+    pattern = `*${pattern}`;
+  }
+
+  return PATTERN_REGEX.test(pattern) ? pattern : null;
+}
+
+/**
+ * SourceCredibilityService - Registry of source credibility rules in Postgres.
+ *
+ * Rules match a host exactly ("reuters.com") or a domain with its subdomains
+ * ("*.blogspot.com", "*.gov"); an exact rule wins, then the most specific wildcard.
+ * Hosts without a rule get a category inferred from their name and that category's
+ * default score from config/source-credibility.json, which also seeds the registry
+ * on first start.
+ *
+ * Every change is written to source_credibility_audit. Each process keeps the rules
+ * in memory and reloads them when the audit log's highest id changes, checked every
+ * sourceCredibility.reloadIntervalSeconds.
+ */
+export class SourceCredibilityService {
+  private rules = new Map<string, SourceRule>();
+  private version = 0;
+  private categoryDefaults: Record<string, number> = { unknown: 0.5 };
+  private defaultScore = 0.5;
+  private seedRules: SourceRule[] = [];
+  private started = false;
+  private reloadTimer?: NodeJS.Timeout;
+
+  constructor(private filePath = path.join(process.cwd(), 'config', 'source-credibility.json')) {
+    this.loadFile();
+
+    // Until the registry is loaded (or if the database is unreachable), use the file
+    for (const rule of this.seedRules) {
+      this.rules.set(rule.pattern, rule);
+    }
+  }
+
+  /**
+   * Seed the registry if it has never been populated, load it and start watching for changes
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    try {
+      await this.seedIfEmpty();
+      await this.reload();
+    } catch (error) {
+      logger.warn('Failed to load source credibility registry, using config/source-credibility.json', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    this.reloadTimer = setInterval(
+      () => this.reloadIfChanged(),
+      appConfig.sourceCredibility.reloadIntervalSeconds * 1000
+    );
+    this.reloadTimer.unref();
+  }
+
+  stop(): void {
+    if (this.reloadTimer) {
+      clearInterval(this.reloadTimer);
+      this.reloadTimer = undefined;
+    }
+    this.started = false;
+  }
+
+  /**
+   * Credibility of a URL's host from the loaded rules
+   */
+  assess(url: string): SourceAssessment {
+    const host = extractHost(url);
+    const rule = this.findRule(host);
+
+    if (rule) {
+      return {
+        score: rule.score,
+        rating: scoreToRating(rule.score),
+        explanation: rule.notes || (rule.tier ? `${rule.tier} tier ${rule.category} source` : rule.perspective || `${rule.category} source`),
+        perspective: rule.perspective || rule.category,
+        category: rule.category,
+        pattern: rule.pattern
+      };
+    }
+
+    const category = inferSourceCategory(host);
+    const score = this.categoryDefaults[category] ?? this.defaultScore;
+
+    return {
+      score,
+      rating: scoreToRating(score),
+      explanation: `Unverified ${category} source`,
+      perspective: category,
+      category
+    };
+  }
+
+  /**
+   * Rule applying to a host: exact match first, then the most specific wildcard
+   */
+  findRule(host: string): SourceRule | undefined {
+    const normalized = host.toLowerCase().replace(/^www\./, '');
+
+    const exact = this.rules.get(normalized);
+    if (exact) {
+      return exact;
+    }
+
+    const labels = normalized.split('.');
+    for (let i = 0; i < labels.length; i++) {
+      const wildcard = this.rules.get(`*.${labels.slice(i).join('.')}`);
+      if (wildcard) {
+        return wildcard;
+      }
+    }
+
+    return undefined;
+  }
+
+  async list(filter: { q?: string; category?: string } = {}): Promise<SourceRule[]> {
+    const pattern = filter.q ? `%${filter.q.replace(/[\\%_]/g, '\\$&')}%` : null;
+
+    const rows = await db.query<SourceRuleRow>(
+      `SELECT ${RULE_COLUMNS}
+       FROM source_credibility
+       WHERE ($1::text IS NULL OR pattern ILIKE $1 OR notes ILIKE $1)
+         AND ($2::text IS NULL OR category = $2)
+       ORDER BY pattern`,
+      [pattern, filter.category || null]
+    );
+
+    return rows.map(toRule);
+  }
+
+  async get(pattern: string): Promise<SourceRule | null> {
+    const rows = await db.query<SourceRuleRow>(
+      `SELECT ${RULE_COLUMNS} FROM source_credibility WHERE pattern = $1`,
+      [pattern]
+    );
+
+    return rows.length > 0 ? toRule(rows[0]) : null;
+  }
+
+  async history(pattern: string, limit = 50): Promise<SourceAuditEntry[]> {
+    const rows = await db.query<SourceAuditRow>(
+      `SELECT id, pattern, action, before_json, after_json, actor, reason, created_at
+       FROM source_credibility_audit
+       WHERE pattern = $1
+       ORDER BY id DESC
+       LIMIT $2`,
+      [pattern, limit]
+    );
+
+    return rows.map(row => ({
+      id: String(row.id),
+      pattern: row.pattern,
+      action: row.action,
+      before: row.before_json,
+      after: row.after_json,
+      actor: row.actor,
+      reason: row.reason,
+      createdAt: new Date(row.created_at).toISOString()
+    }));
+  }
+
+  /**
+   * Create or update a rule and audit the change. A new rule needs a score.
+   *
+   * @returns The rule, or null when the rule doesn't exist and no score was given
+   */
+  async upsert(
+    pattern: string,
+    change: SourceRuleChange,
+    audit: { actor?: string; reason?: string } = {}
+  ): Promise<{ rule: SourceRule; created: boolean } | null> {
+    const result = await db.transaction(async (client) => {
+      const existingRows = await client.query<SourceRuleRow>(
+        `SELECT ${RULE_COLUMNS} FROM source_credibility WHERE pattern = $1 FOR UPDATE`,
+        [pattern]
+      );
+      const before = existingRows.rows.length > 0 ? toRule(existingRows.rows[0]) : null;
+
+      if (!before && change.score === undefined) {
+        return null;
+      }
+
+      const after: SourceRule = {
+        pattern,
+        score: change.score ?? before!.score,
+        category: change.category ?? before?.category ?? 'unknown',
+        tier: change.tier !== undefined ? change.tier : before?.tier ?? null,
+        perspective: change.perspective !== undefined ? change.perspective : before?.perspective ?? null,
+        notes: change.notes !== undefined ? change.notes : before?.notes ?? null
+      };
+
+      if (before && sameRule(before, after)) {
+        return { rule: before, created: false };
+      }
+
+      const saved = await client.query<SourceRuleRow>(
+        `INSERT INTO source_credibility (pattern, score, category, tier, perspective, notes)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (pattern)
+         DO UPDATE SET score = EXCLUDED.score,
+                       category = EXCLUDED.category,
+                       tier = EXCLUDED.tier,
+                       perspective = EXCLUDED.perspective,
+                       notes = EXCLUDED.notes,
+                       updated_at = now()
+         RETURNING ${RULE_COLUMNS}`,
+        [pattern, after.score, after.category, after.tier, after.perspective, after.notes]
+      );
+
+      await client.query(
+        `INSERT INTO source_credibility_audit (pattern, action, before_json, after_json, actor, reason)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          pattern,
+          before ? 'update' : 'create',
+          before ? JSON.stringify(before) : null,
+          JSON.stringify(after),
+          audit.actor || null,
+          audit.reason || null
+        ]
+      );
+
+      return { rule: toRule(saved.rows[0]), created: !before };
+    });
+
+    if (result) {
+      logger.info('Source credibility rule saved', { pattern, created: result.created, actor: audit.actor });
+      await this.reload();
+    }
+    return result;
+  }
+
+  async remove(pattern: string, audit: { actor?: string; reason?: string } = {}): Promise<boolean> {
+    const removed = await db.transaction(async (client) => {
+      const rows = await client.query<SourceRuleRow>(
+        `DELETE FROM source_credibility WHERE pattern = $1 RETURNING ${RULE_COLUMNS}`,
+        [pattern]
+      );
+      if (rows.rows.length === 0) {
+        return false;
+      }
+
+      await client.query(
+        `INSERT INTO source_credibility_audit (pattern, action, before_json, actor, reason)
+         VALUES ($1, 'delete', $2, $3, $4)`,
+        [pattern, JSON.stringify(toRule(rows.rows[0])), audit.actor || null, audit.reason || null]
+      );
+      return true;
+    });
+
+    if (removed) {
+      logger.info('Source credibility rule removed', { pattern, actor: audit.actor });
+      await this.reload();
+    }
+    return removed;
+  }
+
+  async reload(): Promise<void> {
+    const [{ version }] = await db.query<{ version: string }>(
+      'SELECT COALESCE(MAX(id), 0) AS version FROM source_credibility_audit'
+    );
+    const rows = await db.query<SourceRuleRow>(`SELECT ${RULE_COLUMNS} FROM source_credibility`);
+
+    this.rules = new Map(rows.map(row => [row.pattern, toRule(row)]));
+    this.version = Number(version);
+
+    logger.info(`Loaded ${this.rules.size} source credibility rules (version ${this.version})`);
+  }
+
+  private async reloadIfChanged(): Promise<void> {
+    try {
+      const [{ version }] = await db.query<{ version: string }>(
+        'SELECT COALESCE(MAX(id), 0) AS version FROM source_credibility_audit'
+      );
+
+      if (Number(version) !== this.version) {
+        await this.reload();
+      }
+    } catch (error) {
+      logger.warn('Failed to check source credibility registry for changes', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Copy the file's rules into a registry that has never held any (no rules, no audit
+   * entries), so deleting every rule doesn't bring them back
+   */
+  private async seedIfEmpty(): Promise<void> {
+    const [counts] = await db.query<{ rules: string; changes: string }>(
+      `SELECT (SELECT count(*) FROM source_credibility) AS rules,
+              (SELECT count(*) FROM source_credibility_audit) AS changes`
+    );
+    if (Number(counts.rules) > 0 || Number(counts.changes) > 0) {
+      return;
+    }
+
+    // Replicas starting together may both seed; only the rows one of them inserts are audited
+    for (const rule of this.seedRules) {
+      await db.query(
+        `WITH inserted AS (
+           INSERT INTO source_credibility (pattern, score, category, tier, perspective, notes)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (pattern) DO NOTHING
+           RETURNING pattern
+         )
+         INSERT INTO source_credibility_audit (pattern, action, after_json, actor, reason)
+         SELECT pattern, 'create', $7, 'system', 'Seeded from config/source-credibility.json' FROM inserted`,
+        [rule.pattern, rule.score, rule.category, rule.tier, rule.perspective, rule.notes, JSON.stringify(rule)]
+      );
+    }
+
+    logger.info(`Seeded source credibility registry with ${this.seedRules.length} rules`);
+  }
+
+  private loadFile(): void {
+    try {
+      const file = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+
+      this.categoryDefaults = { ...this.categoryDefaults, ...file.categoryDefaults };
+      this.defaultScore = file.config?.defaultScore ?? this.defaultScore;
+      this.seedRules = [
+        ...Object.entries<any>(file.sources || {}).map(([domain, source]) => ({
+          pattern: domain,
+          score: source.score,
+          category: source.category || 'unknown',
+          tier: source.tier || null,
+          perspective: source.perspective || null,
+          notes: source.notes || null
+        })),
+        ...Object.entries<any>(file.domainRules || {}).map(([suffix, rule]) => ({
+          pattern: `*${suffix}`,
+          score: rule.score,
+          category: rule.category || 'unknown',
+          tier: null,
+          perspective: rule.reason || null,
+          notes: rule.notes || null
+        }))
+      ];
+    } catch {
+      this.seedRules = [
+        { pattern: '*.gov', score: 0.8, category: 'government', perspective: 'Government source' },
+        { pattern: '*.edu', score: 0.85, category: 'academic', perspective: 'Educational institution' },
+        { pattern: '*.org', score: 0.7, category: 'organization', perspective: 'Organization' }
+      ];
+      logger.warn('Using default source credibility config');
+    }
+  }
+}
+
+function toRule(row: SourceRuleRow): SourceRule {
+  return {
+    pattern: row.pattern,
+    score: Number(row.score),
+    category: row.category,
+    tier: row.tier,
+    perspective: row.perspective,
+    notes: row.notes,
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+function sameRule(a: SourceRule, b: SourceRule): boolean {
+  return a.score === b.score &&
+    a.category === b.category &&
+    (a.tier ?? null) === (b.tier ?? null) &&
+    (a.perspective ?? null) === (b.perspective ?? null) &&
+    (a.notes ?? null) === (b.notes ?? null);
+}
+
+function extractHost(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return url.toLowerCase().replace(/^www\./, '');
+  }
+}
+
+function inferSourceCategory(domain: string): string {
+  const patterns = {
+    news: ['news', 'times', 'post', 'daily', 'tribune', 'herald'],
+    scientific: ['journal', 'research', 'academic', 'science', 'scholar'],
+    health: ['health', 'medical', 'clinic', 'hospital', 'pharma'],
+    business: ['business', 'finance', 'market', 'trade', 'commerce'],
+    tech: ['tech', 'code', 'dev', 'digital', 'cyber']
+  };
+
+  for (const [category, keywords] of Object.entries(patterns)) {
+    if (keywords.some(keyword => domain.includes(keyword))) {
+      return category;
+    }
+  }
+
+  return 'unknown';
+}
+
+function scoreToRating(score: number): CredibilityRating {
+  if (score >= 0.9) return 'highly reliable';
+  if (score >= 0.75) return 'generally reliable';
+  if (score >= 0.5) return 'moderate';
+  if (score >= 0.25) return 'questionable';
+  return 'unknown';
+}
+
+export const sourceCredibilityService = new SourceCredibilityService();
@@ -11,6 +11,7 @@ export interface SummaryOptions {
   includeParticipants?: boolean;
   includeTopics?: boolean;
   style?: 'brief' | 'detailed';
+  language?: string;  // reply language; defaults to the thread's language
 }
 
 export interface SummaryResult {
@@ -19,6 +20,7 @@ export interface SummaryResult {
   participants: string[]; // Keep for backward compatibility
   participantNames: string[]; // New field with resolved usernames
   topics: string[];
+  branchSummaries?: BranchSummary[]; // one per sub-discussion when the thread forks
   metrics: {
     originalTokens: number;
     summaryTokens: number;
@@ -37,6 +39,12 @@ export interface SummaryResult {
   };
 }
 
+export interface BranchSummary {
+  branchId: string;
+  summary: string;
+  postCount: number;
+}
+
 export class SummaryService {
   private injectionDetector: InjectionDetector;
 
@@ -119,42 +127,66 @@ export class SummaryService {
       postUri: context.rootPost.uri
     });
 
-    // Get all non-root posts
-    const threadPosts = context.posts.filter(p => p.id !== context.rootPost.id);
+    // Summarize sub-discussions separately once the thread forks into two or more
+    const subBranches = context.branches.filter(b => b.id !== 'main');
+    const forked = subBranches.length >= 2;
+    const postsByUri = new Map(context.posts.map(p => [p.uri, p]));
+    const sections = forked
+      ? [context.branches.find(b => b.id === 'main')!, ...subBranches]
+      : [{ id: 'main', postUris: context.posts.map(p => p.uri) }];
 
     // Calculate approximate token count (rough estimate: 1 token ≈ 4 chars)
     let totalTokens = Math.ceil(rootDetection.sanitized.length / 4);
-    const sanitizedPosts: string[] = [];
-
-    // Include posts until we hit the token limit
-    for (const post of threadPosts) {
-      const detection = this.injectionDetector.detect(post.content, {
-        postId: post.id,
-        authorId: post.authorId,
-        postUri: post.uri
-      });
-
-      const postTokens = Math.ceil(detection.sanitized.length / 4);
-      if (totalTokens + postTokens > MAX_TOKENS) {
-        logger.info('Thread truncated due to token limit', {
-          totalPosts: threadPosts.length,
-          includedPosts: sanitizedPosts.length,
-          estimatedTokens: totalTokens
+    let includedPosts = 0;
+    let truncated = false;
+    const sanitizedBySection = new Map<string, string[]>(sections.map(section => [section.id, [] as string[]] as const));
+
+    // Include posts (main thread first, then each branch) until we hit the token limit
+    for (const section of sections) {
+      for (const uri of section.postUris) {
+        const post = postsByUri.get(uri);
+        if (!post || post.id === context.rootPost.id) continue;
+
+        const detection = this.injectionDetector.detect(post.content, {
+          postId: post.id,
+          authorId: post.authorId,
+          postUri: post.uri
         });
-        break;
+
+        const postTokens = Math.ceil(detection.sanitized.length / 4);
+        if (totalTokens + postTokens > MAX_TOKENS) {
+          truncated = true;
+          break;
+        }
+
+        sanitizedBySection.get(section.id)!.push(detection.sanitized);
+        totalTokens += postTokens;
+        includedPosts++;
       }
+      if (truncated) break;
+    }
 
-      sanitizedPosts.push(detection.sanitized);
-      totalTokens += postTokens;
+    if (truncated) {
+      logger.info('Thread truncated due to token limit', {
+        totalPosts: context.posts.length,
+        includedPosts,
+        estimatedTokens: totalTokens
+      });
     }
 
     // Use secure prompt template
     return SecurePrompts.buildSummaryPrompt(
       rootDetection.sanitized,
-      sanitizedPosts,
+      sanitizedBySection.get('main')!,
       {
         style,
-        maxKeyPoints
+        maxKeyPoints,
+        language: options.language,
+        branches: forked
+          ? subBranches
+            .map(branch => ({ id: branch.id, posts: sanitizedBySection.get(branch.id)! }))
+            .filter(branch => branch.posts.length > 0)
+          : undefined
       }
     );
   }
@@ -168,11 +200,22 @@ export class SummaryService {
 
     let summary = '';
     const keyPoints: string[] = [];
+    const branchSummaries: BranchSummary[] = [];
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
-
-      if (line.startsWith('Summary:')) {
+      const branchMatch = line.match(/^\[(b\d+)\]\s*(.+)$/);
+
+      if (branchMatch) {
+        const branch = context.branches.find(b => b.id === branchMatch[1]);
+        if (branch) {
+          branchSummaries.push({
+            branchId: branch.id,
+            summary: truncateText(branchMatch[2].trim(), 200),
+            postCount: branch.postUris.length
+          });
+        }
+      } else if (line.startsWith('Summary:')) {
         summary = line.replace('Summary:', '').trim();
       } else if (line.startsWith('•') || line.startsWith('-')) {
         const point = line.replace(/^[•-]\s*/, '').trim();
@@ -208,11 +251,12 @@ export class SummaryService {
       : context.participants.slice(0, 5);
 
     return {
-      summary: truncateText(summary, 400),
+      summary: truncateText(summary, options.style === 'detailed' ? 700 : 400),
       keyPoints,
       participants: context.participants.slice(0, 5),
       participantNames,
       topics: context.metadata?.topics || [],
+      ...(branchSummaries.length > 0 && { branchSummaries }),
       metrics: {
         originalTokens: context.totalTokens,
         summaryTokens,
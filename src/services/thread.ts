@@ -1,4 +1,4 @@
-import { ThreadContext, ThreadValidation, ThreadParticipant } from '@/types/thread';
+import { ThreadContext, ThreadValidation, ThreadParticipant, ThreadNode, ThreadBranch } from '@/types/thread';
 import { Post } from '@/types/mention';
 import { PubkyService } from './pubky';
 import logger from '@/utils/logger';
@@ -10,11 +10,15 @@ export class ThreadService {
   private cache: Map<string, Post> = new Map();
   private visited: Set<string> = new Set();
 
+  // A reply subtree needs at least this many posts to count as its own sub-discussion
+  private readonly MIN_BRANCH_POSTS = 3;
+
   constructor(private pubkyService: PubkyService) {}
 
   /**
    * Build thread context from a mention post URI
-   * Fetches parents recursively and builds complete conversation thread
+   * Fetches parents recursively, then the reply tree below the top-most parent,
+   * and builds the complete conversation thread
    */
   async buildThreadContext(
     mentionPostUri: string,
@@ -22,6 +26,7 @@ export class ThreadService {
       maxDepth?: number;
       maxPosts?: number;
       includeParents?: boolean;
+      includeReplies?: boolean; // fetch descendants of the thread root (default true)
       mentionId?: string;  // Add mentionId to track deleted posts
     } = {}
   ): Promise<ThreadContext> {
@@ -30,12 +35,14 @@ export class ThreadService {
       const maxDepth = options.maxDepth || appConfig.limits.thread.maxDepth;
       const maxPosts = options.maxPosts || appConfig.limits.thread.maxPosts;
       const includeParents = options.includeParents !== false;
+      const includeReplies = options.includeReplies !== false;
 
       logger.debug('Building thread context', {
         mentionPostUri,
         maxDepth,
         maxPosts,
-        includeParents
+        includeParents,
+        includeReplies
       });
 
       // Reset state
@@ -51,14 +58,25 @@ export class ThreadService {
       }
 
       const posts: Post[] = [mentionPost];
+      let truncated = false;
 
       // Build upward (fetch parents)
+      let parents: Post[] = [];
       if (includeParents && mentionPost.parentUri) {
         logger.debug('Fetching parent posts...');
-        const parents = await this.fetchParents(mentionPost, maxDepth);
+        parents = await this.fetchParents(mentionPost, maxDepth);
         posts.push(...parents);
       }
 
+      // Build downward from the top-most post we reached
+      if (includeReplies && posts.length < maxPosts) {
+        const threadTop = parents.length > 0 ? parents[parents.length - 1] : mentionPost;
+        const descendants = await this.fetchDescendants(threadTop, maxDepth, maxPosts - posts.length);
+        const known = new Set(posts.map(p => p.uri));
+        posts.push(...descendants.posts.filter(p => !known.has(p.uri)));
+        truncated = descendants.truncated;
+      }
+
       // Sort posts chronologically
       posts.sort((a, b) => {
         const timeA = new Date(a.createdAt).getTime();
@@ -84,15 +102,20 @@ export class ThreadService {
       const allContent = posts.map(p => p.content).join(' ');
       const topics = extractKeywords(allContent);
 
-      // Calculate actual depth
-      const depth = Math.max(...posts.map(p => this.calculatePostDepth(p, posts)));
+      // Reply tree with per-post depth and branch ids
+      const tree = this.buildTree(rootPost, posts);
+      const branches = this.assignBranches(tree, posts);
+      const depth = Math.max(...posts.map(p => p.depth || 0));
 
       // Determine completeness
-      const isComplete = posts.length < maxPosts;
+      const isComplete = posts.length < maxPosts && !truncated;
 
       const context: ThreadContext = {
         rootPost,
+        mentionPost,
         posts,
+        tree,
+        branches,
         participants,
         participantProfiles, // Include resolved usernames
         depth,
@@ -272,6 +295,39 @@ export class ThreadService {
     return parents;
   }
 
+  /**
+   * Fetch the reply tree below a post via Nexus, without the bot's own replies
+   */
+  private async fetchDescendants(
+    post: Post,
+    maxDepth: number,
+    maxPosts: number
+  ): Promise<{ posts: Post[]; truncated: boolean }> {
+    try {
+      const result = await this.pubkyService.buildThreadPosts(post.uri, { maxDepth, maxPosts });
+      const botPublicKey = this.pubkyService.getBotPublicKey();
+      const descendants = botPublicKey
+        ? result.posts.filter(p => p.authorId !== botPublicKey)
+        : result.posts;
+
+      for (const descendant of descendants) {
+        this.cache.set(descendant.uri, descendant);
+      }
+
+      if (result.truncated) {
+        logger.warn(`Reply tree exceeds limits (maxDepth ${maxDepth}, maxPosts ${maxPosts}), some replies not fetched`);
+      }
+
+      return { posts: descendants, truncated: result.truncated };
+    } catch (error) {
+      logger.warn('Failed to fetch thread replies, continuing with parent chain only', {
+        postUri: post.uri,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return { posts: [], truncated: true };
+    }
+  }
+
   /**
    * Find the root post in a thread (post without parent or earliest)
    */
@@ -296,20 +352,89 @@ export class ThreadService {
   }
 
   /**
-   * Calculate depth of a post in the thread
+   * Link posts into a tree under the root and set each post's depth.
+   * Posts whose parent wasn't fetched (truncated chain) hang off the root.
    */
-  private calculatePostDepth(post: Post, allPosts: Post[]): number {
-    let depth = 0;
-    let currentPost = post;
+  private buildTree(rootPost: Post, posts: Post[]): ThreadNode {
+    const nodes = new Map<string, ThreadNode>();
+    for (const post of posts) {
+      nodes.set(post.uri, { post, depth: 0, branchId: 'main', children: [] });
+    }
 
-    while (currentPost.parentUri) {
-      depth++;
-      const parent = allPosts.find(p => p.uri === currentPost.parentUri);
-      if (!parent) break;
-      currentPost = parent;
+    const root = nodes.get(rootPost.uri)!;
+
+    // posts are chronological, so children end up chronological too
+    for (const post of posts) {
+      if (post.uri === rootPost.uri) continue;
+      const parent = (post.parentUri && nodes.get(post.parentUri)) || root;
+      parent.children.push(nodes.get(post.uri)!);
+    }
+
+    // Set depths top-down; the visited set guards against malformed parent cycles
+    const visited = new Set<string>();
+    const stack: ThreadNode[] = [root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (visited.has(node.post.uri)) continue;
+      visited.add(node.post.uri);
+
+      node.post.depth = node.depth;
+      node.children = node.children.filter(child => !visited.has(child.post.uri));
+      for (const child of node.children) {
+        child.depth = node.depth + 1;
+        stack.push(child);
+      }
+    }
+
+    return root;
+  }
+
+  /**
+   * Split the tree into branches. Where a post has two or more replies with
+   * substantial subtrees (MIN_BRANCH_POSTS), each of those subtrees becomes its
+   * own branch; small side replies stay with the branch they reply to.
+   * Branch ids are numbered breadth-first, so sibling branches are adjacent.
+   */
+  private assignBranches(tree: ThreadNode, posts: Post[]): ThreadBranch[] {
+    const subtreeSizes = new Map<ThreadNode, number>();
+    const sizeOf = (node: ThreadNode): number => {
+      const size = 1 + node.children.reduce((sum, child) => sum + sizeOf(child), 0);
+      subtreeSizes.set(node, size);
+      return size;
+    };
+    sizeOf(tree);
+
+    const branches = new Map<string, ThreadBranch>();
+    branches.set('main', { id: 'main', startUri: tree.post.uri, postUris: [] });
+    let nextBranch = 1;
+
+    const queue: ThreadNode[] = [tree];
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      branches.get(node.branchId)!.postUris.push(node.post.uri);
+
+      const majorChildren = node.children.filter(child => subtreeSizes.get(child)! >= this.MIN_BRANCH_POSTS);
+      const forks = majorChildren.length >= 2;
+
+      for (const child of node.children) {
+        if (forks && majorChildren.includes(child)) {
+          child.branchId = `b${nextBranch++}`;
+          branches.set(child.branchId, { id: child.branchId, startUri: child.post.uri, postUris: [] });
+        } else {
+          child.branchId = node.branchId;
+        }
+        queue.push(child);
+      }
+    }
+
+    // Breadth-first order isn't chronological across depths; posts is
+    const order = new Map<string, number>();
+    posts.forEach((post, index) => order.set(post.uri, index));
+    for (const branch of branches.values()) {
+      branch.postUris.sort((a, b) => order.get(a)! - order.get(b)!);
     }
 
-    return depth;
+    return [...branches.values()];
   }
 
   validate(context: ThreadContext): ThreadValidation {
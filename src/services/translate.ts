@@ -0,0 +1,108 @@
+import { AIService } from './ai';
+import { Post } from '@/types/mention';
+import { InjectionDetector } from './injection-detector';
+import { SecurePrompts } from './secure-prompts';
+import logger from '@/utils/logger';
+import appConfig from '@/config';
+
+export interface TranslationResult {
+  translation: string;
+  sourceLanguage: string | null;
+  targetLanguage: string;
+  originalText: string;
+  alreadyInTargetLanguage: boolean;
+  metrics: {
+    originalLength: number;
+    translationLength: number;
+    aiTokensUsed?: number; // actual provider-reported tokens if available
+  };
+  aiMeta?: {
+    provider?: string;
+    model?: string;
+    usage?: {
+      inputTokens?: number;
+      outputTokens?: number;
+      totalTokens?: number;
+    };
+  };
+}
+
+export class TranslationService {
+  private injectionDetector: InjectionDetector;
+
+  constructor(private aiService: AIService) {
+    this.injectionDetector = new InjectionDetector();
+  }
+
+  async translate(post: Post, targetLanguage: string): Promise<TranslationResult> {
+    logger.debug('Translating post', {
+      postId: post.id,
+      targetLanguage,
+      contentLength: post.content.length
+    });
+
+    const detection = this.injectionDetector.detect(post.content, {
+      postId: post.id,
+      authorId: post.authorId,
+      postUri: post.uri
+    });
+
+    const prompt = SecurePrompts.buildTranslationPrompt(detection.sanitized, targetLanguage);
+
+    // Translation shares the summary model and token limits
+    const result = await this.aiService.generateText(prompt, 'summary');
+
+    const translationResult = this.parseTranslationResult(result.text, post.content, targetLanguage);
+
+    const total = result.usage?.totalTokens;
+    if (typeof total === 'number') {
+      translationResult.metrics.aiTokensUsed = total;
+    }
+    translationResult.aiMeta = {
+      provider: result.provider,
+      model: appConfig.ai.models.summary,
+      usage: result.usage ? {
+        inputTokens: (result.usage as any).inputTokens,
+        outputTokens: (result.usage as any).outputTokens,
+        totalTokens: (result.usage as any).totalTokens
+      } : undefined
+    };
+
+    logger.debug('Translation generated', {
+      postId: post.id,
+      sourceLanguage: translationResult.sourceLanguage,
+      targetLanguage,
+      translationLength: translationResult.translation.length
+    });
+
+    return translationResult;
+  }
+
+  private parseTranslationResult(
+    aiResponse: string,
+    originalText: string,
+    targetLanguage: string
+  ): TranslationResult {
+    const sourceMatch = aiResponse.match(/^\s*Source language:\s*(.+)$/im);
+    const sourceLanguage = sourceMatch ? sourceMatch[1].trim() : null;
+
+    // Everything after the "Translation:" marker is the translated text
+    const translationMatch = aiResponse.match(/Translation:\s*([\s\S]*)$/i);
+    const translation = (translationMatch ? translationMatch[1] : aiResponse).trim();
+
+    const alreadyInTargetLanguage = !!sourceLanguage &&
+      sourceLanguage.toLowerCase() === targetLanguage.toLowerCase();
+
+    return {
+      translation,
+      sourceLanguage,
+      targetLanguage,
+      originalText,
+      alreadyInTargetLanguage,
+      metrics: {
+        originalLength: originalText.length,
+        translationLength: translation.length
+      }
+    };
+  }
+}
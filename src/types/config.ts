@@ -1,5 +1,21 @@
 import { z } from 'zod';
 
+// Process roles selectable via WORKER_TYPE besides registered action ids;
+// 'all' runs every component in one process
+export const INFRASTRUCTURE_ROLES = ['poller', 'router', 'api', 'all'] as const;
+export type WorkerRole = typeof INFRASTRUCTURE_ROLES[number] | string;
+
+const RateLimitBurstSchema = z.object({
+  maxRequests: z.number().int().min(1).max(1000),
+  windowSeconds: z.number().int().min(10).max(3600)
+});
+
+const RateLimitTierSchema = z.object({
+  maxRequests: z.number().int().min(1).max(1000),
+  windowMinutes: z.number().min(1).max(1440),
+  burst: RateLimitBurstSchema.optional()
+});
+
 export const ConfigSchema = z.object({
   server: z.object({
     host: z.string(),
@@ -31,7 +47,12 @@ export const ConfigSchema = z.object({
     mentionPolling: z.object({
       enabled: z.boolean(),
       intervalSeconds: z.number().min(1).max(300),
-      batchSize: z.number().min(1).max(100)
+      batchSize: z.number().min(1).max(100),
+      // Only the instance holding the lease polls Nexus
+      leaderElection: z.object({
+        leaseMs: z.number().min(1000).max(300000).default(30000),
+        renewIntervalMs: z.number().min(500).max(60000).default(10000)
+      }).default({})
     })
   }),
   ai: z.object({
@@ -46,7 +67,8 @@ export const ConfigSchema = z.object({
     models: z.object({
       summary: z.string(),
       factcheck: z.string(),
-      classifier: z.string()
+      classifier: z.string(),
+      image: z.string().optional() // Vision-capable model; falls back to summary model
     }),
     maxTokens: z.object({
       summary: z.number().min(100).max(10000).default(1500),
@@ -58,17 +80,43 @@ export const ConfigSchema = z.object({
     })
   }),
   search: z.object({
+    provider: z.enum(['openai', 'brave_mcp', 'fixture']).default('openai'), // web search backend for factcheck
+    maxResults: z.number().int().min(1).max(10).default(5),
+    openai: z.object({
+      model: z.string().default('gpt-4o-mini') // Responses API model with web search
+    }).default({}),
+    fixture: z.object({
+      path: z.string().default('config/search-fixtures.json') // canned results for offline use
+    }).default({}),
+    cache: z.object({
+      enabled: z.boolean().default(true),
+      defaultTtlSeconds: z.number().int().min(60).default(86400),
+      categoryTtlSeconds: z.record(z.string(), z.number().int().min(60)).default({}), // news goes stale faster than reference sources
+      similarity: z.number().min(0.5).max(1).default(0.8) // word overlap for reworded claims; 1 disables near-duplicates
+    }).default({}),
     braveMcp: z.object({
       endpoint: z.string().min(1), // MCP endpoint URL
       apiKey: z.string().optional()
     })
   }),
+  sourceCredibility: z.object({
+    reloadIntervalSeconds: z.number().int().min(5).default(30) // how often workers check the registry for changes
+  }).default({}),
+  claimHistory: z.object({
+    enabled: z.boolean().default(true), // reuse verdicts of previously checked claims
+    maxAgeDays: z.number().min(0).default(30), // older verdicts are stale
+    reverifyStale: z.boolean().default(true) // verify stale claims again instead of citing the old verdict
+  }).default({}),
   features: z.object({
     summary: z.boolean(),
     factcheck: z.boolean(),
     translate: z.boolean(),
-    image: z.boolean()
-  }),
+    image: z.boolean(),
+    ask: z.boolean(),
+    followup: z.boolean(),
+    help: z.boolean(),
+    usage: z.boolean()
+  }).catchall(z.boolean()), // flags for actions registered outside this list
   limits: z.object({
     maxConcurrentActions: z.number().min(1).max(20),
     defaultTimeoutMs: z.number().min(1000).max(120000),
@@ -79,7 +127,11 @@ export const ConfigSchema = z.object({
       maxPosts: z.number().min(50).max(5000).default(1500),
       maxTokensForAI: z.number().min(1000).max(50000).default(15000),
       tokenWarningThreshold: z.number().min(1000).max(30000).default(10000)
-    })
+    }),
+    image: z.object({
+      maxAttachments: z.number().min(1).max(10).default(4),
+      maxBytes: z.number().min(1024).max(20 * 1024 * 1024).default(5 * 1024 * 1024)
+    }).default({ maxAttachments: 4, maxBytes: 5 * 1024 * 1024 })
   }),
   safety: z.object({
     wordlist: z.array(z.string()),
@@ -109,7 +161,12 @@ export const ConfigSchema = z.object({
   }),
   rateLimit: z.object({
     maxRequests: z.number().min(1).max(1000).default(10),
-    windowMinutes: z.number().min(1).max(1440).default(120) // Max 24 hours
+    windowMinutes: z.number().min(1).max(1440).default(120), // Max 24 hours
+    // 'reply': tell a rate-limited user when to retry, at most once per window
+    notice: z.enum(['silent', 'reply']).default('silent'),
+    burst: RateLimitBurstSchema.optional(),                    // burst window for the default tier
+    tiers: z.record(z.string(), RateLimitTierSchema).default({}), // assigned per user via the admin API
+    actionCosts: z.record(z.string(), z.number().int().min(1).max(100)).default({}) // unlisted actions cost 1
   }),
   blacklist: z.object({
     publicKeys: z.preprocess(
@@ -126,10 +183,50 @@ export const ConfigSchema = z.object({
       z.array(z.string())
     )
   }),
+  worker: z.object({
+    roles: z.preprocess(
+      (val) => {
+        if (!val || val === '') return ['all'];
+        if (typeof val === 'string') {
+          return val.split(',').map(s => s.trim().toLowerCase()).filter(s => s.length > 0);
+        }
+        return val;
+      },
+      // Action ids are checked against the registry at startup
+      z.array(z.string().regex(/^[a-z][a-z0-9_]*$/)).min(1)
+    )
+  }).default({ roles: ['all'] }),
+  admin: z.object({
+    apiKey: z.string().min(16).optional() // Bearer token for /api/admin endpoints; unset disables them
+  }).default({}),
   budget: z.object({
     enabled: z.boolean().default(false),
     defaultDailyTokens: z.number().min(1000).max(5000000).default(200000)
-  }).default({ enabled: false, defaultDailyTokens: 200000 })
+  }).default({ enabled: false, defaultDailyTokens: 200000 }),
+  eventBus: z.object({
+    retry: z.object({
+      maxAttempts: z.number().int().min(1).max(20).default(3),
+      baseDelayMs: z.number().min(100).max(600000).default(2000),
+      maxDelayMs: z.number().min(100).max(3600000).default(60000),
+      // Overrides keyed by event type, e.g. "action.factcheck.requested.v1"
+      perEvent: z.record(z.object({
+        maxAttempts: z.number().int().min(1).max(20).optional(),
+        baseDelayMs: z.number().min(100).max(600000).optional(),
+        maxDelayMs: z.number().min(100).max(3600000).optional()
+      })).default({})
+    }).default({}),
+    reclaim: z.object({
+      enabled: z.boolean().default(true),
+      minIdleMs: z.number().min(10000).default(300000), // must exceed the slowest handler and retry.maxDelayMs
+      intervalMs: z.number().min(1000).default(30000),
+      batchSize: z.number().int().min(1).max(500).default(50)
+    }).default({})
+  }).default({}),
+  catchUp: z.object({
+    maxWindowHours: z.number().min(1).max(720).default(72),
+    maxMentions: z.number().int().min(1).max(1000).default(200),
+    replyPrefix: z.string().default('Sorry for the delay! ')
+  }).default({})
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -32,6 +32,7 @@ export interface Mention {
   authorId: string;
   content: string;
   url?: string;
+  inReplyTo?: string;  // URI of the post the mention replies to
   receivedAt: string;
   status: 'received' | 'processing' | 'completed' | 'failed';
   lastError?: string;
@@ -48,5 +49,8 @@ export interface Post {
   authorId: string;
   createdAt: string;
   parentUri?: string;
+  depth?: number;          // distance from the thread root (root = 0), set by ThreadService
+  kind?: string;           // pubky-app post kind: short | long | image | ...
+  attachments?: string[];  // pubky:// URIs of attached file records
   metadata?: Record<string, unknown>;
 }
\ No newline at end of file
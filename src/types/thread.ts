@@ -6,9 +6,25 @@ export interface ThreadParticipant {
   displayName: string; // Falls back to shortened public key if no username
 }
 
+export interface ThreadNode {
+  post: Post;
+  depth: number;      // distance from the thread root (root = 0)
+  branchId: string;   // 'main' for the trunk, 'b1', 'b2', ... for sub-discussions
+  children: ThreadNode[]; // chronological
+}
+
+export interface ThreadBranch {
+  id: string;
+  startUri: string;   // first post of the branch (the thread root for 'main')
+  postUris: string[]; // chronological
+}
+
 export interface ThreadContext {
   rootPost: Post;
-  posts: Post[];
+  mentionPost: Post; // the post that mentioned the bot
+  posts: Post[]; // flat, chronological; each post carries depth and parentUri
+  tree: ThreadNode; // reply tree rooted at rootPost
+  branches: ThreadBranch[]; // 'main' first; more than one when the thread forks
   participants: string[]; // Keep for backward compatibility
   participantProfiles: ThreadParticipant[]; // New field with resolved usernames
   depth: number;
@@ -0,0 +1,26 @@
+import { parseCommand } from '../commands';
+
+describe('parseCommand', () => {
+  it('should parse a command after the bot mention', () => {
+    expect(parseCommand('pk:8um71us3fyw6h8wbcxb5ar3rwusy1a6u49956ikzojg3gcwd1dty /summary')).toEqual({
+      name: 'summary',
+      args: ''
+    });
+  });
+
+  it('should keep arguments and lowercase the name', () => {
+    expect(parseCommand('@bot /FactCheck --site .gov\nmore text')).toEqual({
+      name: 'factcheck',
+      args: '--site .gov'
+    });
+  });
+
+  it('should only accept a command at the start of the mention', () => {
+    expect(parseCommand('pk:abc open source is legit, try /summary')).toBeNull();
+    expect(parseCommand('summarize this please')).toBeNull();
+  });
+
+  it('should not treat paths as commands', () => {
+    expect(parseCommand('/r/programming is legit')).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { detectTargetLanguage, normalizeLanguage } from '../language';
+
+describe('language utils', () => {
+  describe('detectTargetLanguage', () => {
+    it('should detect "to <language>" requests', () => {
+      expect(detectTargetLanguage('@bot translate this to Spanish please')).toBe('Spanish');
+    });
+
+    it('should detect "into <language>" requests', () => {
+      expect(detectTargetLanguage('translate into german')).toBe('German');
+    });
+
+    it('should detect native language names', () => {
+      expect(detectTargetLanguage('traducir al inglés? no, en español')).toBe('Spanish');
+      expect(detectTargetLanguage('übersetzen auf Deutsch bitte')).toBe('German');
+    });
+
+    it('should skip prepositions not followed by a language', () => {
+      expect(detectTargetLanguage('what is in this post? translate to french')).toBe('French');
+    });
+
+    it('should return null when no language is requested', () => {
+      expect(detectTargetLanguage('translate this please')).toBeNull();
+    });
+  });
+
+  describe('normalizeLanguage', () => {
+    it('should normalize case and aliases', () => {
+      expect(normalizeLanguage('ESPAÑOL')).toBe('Spanish');
+      expect(normalizeLanguage(' Nederlands ')).toBe('Dutch');
+    });
+
+    it('should return null for unknown languages', () => {
+      expect(normalizeLanguage('klingon')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { parseMentionOptions, matchesSourceDomain } from '../mention-options';
+
+describe('mention options', () => {
+  describe('parseMentionOptions', () => {
+    it('should return no options for a plain request', () => {
+      expect(parseMentionOptions('@bot summarize this thread')).toEqual({});
+    });
+
+    it('should parse style and key point phrases', () => {
+      expect(parseMentionOptions('@bot detailed summary please, 5 bullets')).toEqual({
+        style: 'detailed',
+        maxKeyPoints: 5
+      });
+      expect(parseMentionOptions('give me a longer recap with three key points')).toEqual({
+        style: 'detailed',
+        maxKeyPoints: 3
+      });
+      expect(parseMentionOptions('brief summary, 20 bullets')).toEqual({ style: 'brief', maxKeyPoints: 8 });
+    });
+
+    it('should parse the reply language', () => {
+      expect(parseMentionOptions('@bot summarize in Spanish').language).toBe('Spanish');
+      expect(parseMentionOptions('@bot summary --lang de').language).toBe('German');
+    });
+
+    it('should parse participants and topics requests', () => {
+      expect(parseMentionOptions('recap with participants and include topics')).toEqual({
+        includeParticipants: true,
+        includeTopics: true
+      });
+    });
+
+    it('should parse source domain restrictions', () => {
+      expect(parseMentionOptions('@bot is this true? with sources only from .gov').sourceDomains).toEqual(['.gov']);
+      expect(parseMentionOptions('verify this, only reuters.com and apnews.com.').sourceDomains)
+        .toEqual(['reuters.com', 'apnews.com']);
+      expect(parseMentionOptions('fact check --site .gov,.edu').sourceDomains).toEqual(['.gov', '.edu']);
+    });
+
+    it('should ignore domains outside an "only" clause', () => {
+      expect(parseMentionOptions('is this true? https://example.com/news.html').sourceDomains).toBeUndefined();
+    });
+
+    it('should parse re-check requests', () => {
+      expect(parseMentionOptions('@bot is this true? check it again').recheck).toBe(true);
+      expect(parseMentionOptions('@bot /factcheck --recheck').recheck).toBe(true);
+      expect(parseMentionOptions('@bot check this').recheck).toBeUndefined();
+    });
+
+    it('should let flags override phrases', () => {
+      expect(parseMentionOptions('short summary --detailed --bullets=4')).toEqual({
+        style: 'detailed',
+        maxKeyPoints: 4
+      });
+    });
+  });
+
+  describe('matchesSourceDomain', () => {
+    it('should match suffixes and hosts', () => {
+      expect(matchesSourceDomain('www.cdc.gov', ['.gov'])).toBe(true);
+      expect(matchesSourceDomain('uk.reuters.com', ['reuters.com'])).toBe(true);
+      expect(matchesSourceDomain('notreuters.com', ['reuters.com'])).toBe(false);
+      expect(matchesSourceDomain('example.com', ['.gov'])).toBe(false);
+    });
+  });
+});
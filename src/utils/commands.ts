@@ -0,0 +1,28 @@
+export interface ParsedCommand {
+  name: string;   // lowercased, without the slash
+  args: string;   // rest of the first line
+}
+
+// Leading mentions of the bot or other users ("pk:abc123", "@alice")
+const LEADING_MENTIONS = /^(?:\s*(?:pk:[a-z0-9]+|@[\w.-]+)[,:]?)*\s*/i;
+
+// "/summary", "/factcheck --site .gov"; not paths like "/r/programming"
+const COMMAND_PATTERN = /^\/([a-z][a-z0-9_-]*)(?=\s|$)[ \t]*([^\n]*)/i;
+
+/**
+ * Parse an explicit command from the start of a mention, after any leading mentions.
+ * Commands elsewhere in the text are ignored so ordinary sentences never trigger one.
+ *
+ * @returns The command, or null when the mention doesn't start with one
+ */
+export function parseCommand(text: string): ParsedCommand | null {
+  const match = text.replace(LEADING_MENTIONS, '').match(COMMAND_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    name: match[1].toLowerCase(),
+    args: match[2].trim()
+  };
+}
@@ -1,4 +1,8 @@
 import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+
+// Unique per process so horizontally scaled instances never share a consumer name
+const INSTANCE_ID = `${hostname()}-${process.pid}`;
 
 export function generateId(): string {
   return randomUUID();
@@ -11,4 +15,12 @@ export function generateRunId(): string {
 export function generateCorrelationId(prefix?: string): string {
   const id = Math.random().toString(36).substring(2, 12);
   return prefix ? `${prefix}_${id}` : id;
-}
\ No newline at end of file
+}
+
+export function getInstanceId(): string {
+  return INSTANCE_ID;
+}
+
+export function generateConsumerName(prefix: string): string {
+  return `${prefix}-${INSTANCE_ID}`;
+}
@@ -0,0 +1,74 @@
+/**
+ * Language names accepted in mention text, mapped to the name we pass to the model.
+ * Includes native spellings so non-English speakers can ask in their own language.
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  english: 'English',
+  inglés: 'English',
+  ingles: 'English',
+  anglais: 'English',
+  englisch: 'English',
+  spanish: 'Spanish',
+  español: 'Spanish',
+  espanol: 'Spanish',
+  castellano: 'Spanish',
+  french: 'French',
+  français: 'French',
+  francais: 'French',
+  german: 'German',
+  deutsch: 'German',
+  italian: 'Italian',
+  italiano: 'Italian',
+  portuguese: 'Portuguese',
+  português: 'Portuguese',
+  portugues: 'Portuguese',
+  dutch: 'Dutch',
+  nederlands: 'Dutch',
+  russian: 'Russian',
+  ukrainian: 'Ukrainian',
+  polish: 'Polish',
+  polski: 'Polish',
+  turkish: 'Turkish',
+  türkçe: 'Turkish',
+  swedish: 'Swedish',
+  svenska: 'Swedish',
+  chinese: 'Chinese',
+  mandarin: 'Chinese',
+  japanese: 'Japanese',
+  korean: 'Korean',
+  arabic: 'Arabic',
+  hindi: 'Hindi',
+  indonesian: 'Indonesian',
+  vietnamese: 'Vietnamese',
+  greek: 'Greek',
+  catalan: 'Catalan',
+  català: 'Catalan'
+};
+
+export const DEFAULT_TARGET_LANGUAGE = 'English';
+
+/**
+ * Normalize a language name ("spanish", "Español") to its canonical English name
+ * @returns Canonical name or null if the language is not recognised
+ */
+export function normalizeLanguage(name: string): string | null {
+  return LANGUAGE_ALIASES[name.trim().toLowerCase()] || null;
+}
+
+/**
+ * Detect the requested target language from mention text
+ * Matches phrases like "translate this to Spanish", "into german", "in français", "en español"
+ * @returns Canonical language name, or null if none was requested
+ */
+export function detectTargetLanguage(text: string): string | null {
+  const pattern = /\b(?:to|into|in|en|auf|na)\s+([\p{L}]+)/giu;
+
+  for (const match of text.matchAll(pattern)) {
+    const language = normalizeLanguage(match[1]);
+    if (language) {
+      return language;
+    }
+  }
+
+  return null;
+}
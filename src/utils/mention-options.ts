@@ -0,0 +1,141 @@
+import { detectTargetLanguage, normalizeLanguage } from './language';
+
+/**
+ * Options a user can request in the mention text. Each action applies the ones
+ * relevant to it (summary: style/length/language, factcheck: sources/language).
+ */
+export interface MentionOptions {
+  style?: 'brief' | 'detailed';
+  maxKeyPoints?: number;
+  includeParticipants?: boolean;
+  includeTopics?: boolean;
+  language?: string;          // canonical name, e.g. 'Spanish'
+  sourceDomains?: string[];   // '.gov', 'reuters.com'
+  recheck?: boolean;          // factcheck: verify again rather than reuse a previous verdict
+}
+
+export const MAX_KEY_POINTS = 8;
+
+// Only unambiguous words: "long" or "full" appear in ordinary questions too
+const DETAILED_PATTERN = /\b(detailed|longer|in[- ]depth|more detail|thorough|extended)\b/;
+const BRIEF_PATTERN = /\b(brief|briefly|shorter|concise|short summary|quick summary)\b/;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+const KEY_POINTS_PATTERN = /\b(\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten)\s+(?:key\s+)?(?:bullets?|bullet points?|points|takeaways)\b/;
+
+const PARTICIPANTS_PATTERN = /\b(?:with|include|including|list)\s+(?:the\s+)?(?:participants|people|who said what)\b/;
+const TOPICS_PATTERN = /\b(?:with|include|including|list)\s+(?:the\s+)?(?:main\s+)?topics\b/;
+const RECHECK_PATTERN = /\b(?:re-?check|re-?verify|check (?:it |this )?again|verify (?:it |this )?again)\b/;
+
+// A domain suffix (".gov") or host ("reuters.com"), not part of a URL path
+const DOMAIN_PATTERN = /(?<![\w/.:-])(\.[a-z]{2,}(?:\.[a-z]{2,})?|[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,})(?![\w/-]|\.\w)/g;
+
+/**
+ * Parse per-request options from phrases ("detailed summary", "3 bullets",
+ * "in Spanish", "with sources only from .gov", "check again") and flags ("--detailed",
+ * "--bullets 5", "--lang es", "--site .gov", "--recheck").
+ *
+ * @returns Only the options the user asked for; empty when none were found
+ */
+export function parseMentionOptions(text: string): MentionOptions {
+  const content = text.toLowerCase();
+  const options: MentionOptions = {};
+
+  const flags = parseFlags(content);
+
+  // Style: flags win over phrases; "brief" wins over "detailed" when both appear
+  if (flags.has('detailed') || flags.has('long')) {
+    options.style = 'detailed';
+  } else if (flags.has('brief') || flags.has('short')) {
+    options.style = 'brief';
+  } else if (BRIEF_PATTERN.test(content)) {
+    options.style = 'brief';
+  } else if (DETAILED_PATTERN.test(content)) {
+    options.style = 'detailed';
+  }
+
+  const keyPoints = flags.get('bullets') || flags.get('points') || content.match(KEY_POINTS_PATTERN)?.[1];
+  if (keyPoints) {
+    const count = NUMBER_WORDS[keyPoints] ?? parseInt(keyPoints, 10);
+    if (count > 0) {
+      options.maxKeyPoints = Math.min(count, MAX_KEY_POINTS);
+    }
+  }
+
+  if (flags.has('participants') || PARTICIPANTS_PATTERN.test(content)) {
+    options.includeParticipants = true;
+  }
+
+  if (flags.has('topics') || TOPICS_PATTERN.test(content)) {
+    options.includeTopics = true;
+  }
+
+  if (flags.has('recheck') || RECHECK_PATTERN.test(content)) {
+    options.recheck = true;
+  }
+
+  const languageFlag = flags.get('lang') || flags.get('language');
+  const language = (languageFlag && (normalizeLanguage(languageFlag) || LANGUAGE_CODES[languageFlag])) ||
+    detectTargetLanguage(text);
+  if (language) {
+    options.language = language;
+  }
+
+  const sourceDomains = parseSourceDomains(content, flags.get('site') || flags.get('sources'));
+  if (sourceDomains.length > 0) {
+    options.sourceDomains = sourceDomains;
+  }
+
+  return options;
+}
+
+/**
+ * Whether a host matches one of the requested domains (".gov" suffix or "reuters.com" host)
+ */
+export function matchesSourceDomain(host: string, sourceDomains: string[]): boolean {
+  const normalized = host.toLowerCase().replace(/^www\./, '');
+
+  return sourceDomains.some(domain => domain.startsWith('.')
+    ? normalized.endsWith(domain)
+    : normalized === domain || normalized.endsWith(`.${domain}`));
+}
+
+const LANGUAGE_CODES: Record<string, string> = {
+  en: 'English', es: 'Spanish', fr: 'French', de: 'German', it: 'Italian', pt: 'Portuguese',
+  nl: 'Dutch', ru: 'Russian', uk: 'Ukrainian', pl: 'Polish', tr: 'Turkish', sv: 'Swedish',
+  zh: 'Chinese', ja: 'Japanese', ko: 'Korean', ar: 'Arabic', hi: 'Hindi', id: 'Indonesian',
+  vi: 'Vietnamese', el: 'Greek', ca: 'Catalan'
+};
+
+/**
+ * "--detailed", "--bullets 5", "--bullets=5", "--site .gov,.edu"
+ */
+function parseFlags(content: string): Map<string, string> {
+  const flags = new Map<string, string>();
+
+  for (const match of content.matchAll(/(?:^|\s)--([a-z]+)(?:[=\s]([^\s-][^\s]*))?/g)) {
+    flags.set(match[1], match[2] || '');
+  }
+
+  return flags;
+}
+
+/**
+ * Domains named in an "only" clause ("sources only from .gov", "only reuters.com and apnews.com")
+ */
+function parseSourceDomains(content: string, flagValue?: string): string[] {
+  const clauses = flagValue
+    ? [flagValue.replace(/,/g, ' ')]
+    : [...content.matchAll(/\bonly\b[^?!\n]*|\b(?:sources?|citations?)\s+from\b[^?!\n]*/g)].map(match => match[0]);
+
+  const domains = new Set<string>();
+  for (const clause of clauses) {
+    for (const match of clause.matchAll(DOMAIN_PATTERN)) {
+      domains.add(match[1]);
+    }
+  }
+
+  return [...domains];
+}